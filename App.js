@@ -1,28 +1,77 @@
-import React, { useState, useEffect } from 'react';
-import { StyleSheet, Text, View, Button, TouchableOpacity, Modal, ActivityIndicator, Alert, TextInput, ScrollView } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { StyleSheet, Text, View, Button, TouchableOpacity, Modal, ActivityIndicator, Alert, TextInput, ScrollView, AppState } from 'react-native';
 import { CameraView, useCameraPermissions } from 'expo-camera';
-import { registerForPushNotificationsAsync } from './utils/notifications';
-import { analyzeProductFromBarcode, isAIAnalysisConfigured, AIAnalysisError } from './services/aiAnalysis';
-import { addInventoryItem } from './services/inventory';
+import { registerForPushNotificationsAsync, scheduleMissedReminders } from './utils/notifications';
+import { AIAnalysisError, getManualEntryNotice } from './services/aiAnalysis';
+import { useInventoryRepository, useProductAnalyzer } from './context/ServicesContext';
+import { confirmProductInBackground } from './services/productAnalyzer';
+import { createBatchScanSession } from './services/batchScanSession';
+import { ensureDefaultStorageLocations, getExpiryForLocation } from './services/locations';
+import { parseGS1, getGS1ExpiryDate } from './utils/gs1';
+import { normalizeBarcode, toLookupCode } from './utils/barcode';
+import { formatExpiryDate, getDeviceDateOrder, parseExpiryDate } from './utils/expiryDate';
+import { EXPIRY_DATE_TYPE_LABELS, getExpiryDateType } from './utils/shelfLife';
+import { INVENTORY_SOURCE_LABELS } from './utils/inventoryItems';
+import LocationPicker from './components/LocationPicker';
+import BatchReviewSheet from './components/BatchReviewSheet';
 import InventoryScreen from './screens/InventoryScreen';
 import ManualEntryScreen from './screens/ManualEntryScreen';
+import DashboardScreen from './screens/DashboardScreen';
+import NotificationSettingsScreen from './screens/NotificationSettingsScreen';
+import AccountScreen from './screens/AccountScreen';
+import { useSession } from './context/SessionContext';
+import { isSupabaseConfigured } from './lib/supabase';
+
+// Status line for the result card
+const getExpiryStatus = (daysLeft) => {
+  if (daysLeft < 0) return 'EXPIRED';
+  if (daysLeft === 0) return 'EXPIRES TODAY';
+  if (daysLeft === 1) return 'Expires tomorrow';
+  return `Expires in ${daysLeft} days`;
+};
 
 export default function App() {
+  const inventory = useInventoryRepository();
+  const analyzer = useProductAnalyzer();
+  const { isGuest } = useSession();
   const [permission, requestPermission] = useCameraPermissions();
   const [isScanning, setIsScanning] = useState(false); // Controls if camera is active
+  const [captureMode, setCaptureMode] = useState('barcode'); // 'barcode' or 'expiry_date' (photograph the date print)
+  const cameraRef = useRef(null);
   const [scanned, setScanned] = useState(false);
   const [scannedProduct, setScannedProduct] = useState(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   // Manual entry state (when AI fails)
   const [manualEntryVisible, setManualEntryVisible] = useState(false);
   const [failedBarcode, setFailedBarcode] = useState(null); // Store the barcode that failed
+  const [failedExpiryDate, setFailedExpiryDate] = useState(null); // Printed expiry date from a GS1 code that failed lookup
+  const [failedNotice, setFailedNotice] = useState(null); // Why the failed lookup needs manual entry
   const [manualProductName, setManualProductName] = useState('');
   const [manualCategory, setManualCategory] = useState('');
   const [manualExpiryDate, setManualExpiryDate] = useState('');
   const [aiErrorMessage, setAiErrorMessage] = useState(''); // Store the AI error message
   const [showInventory, setShowInventory] = useState(false); // Control inventory screen visibility
   const [showManualEntry, setShowManualEntry] = useState(false); // Control manual entry screen visibility
+  const [showDashboard, setShowDashboard] = useState(false); // Control waste dashboard visibility
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false); // Control reminder settings visibility
+  const [showAccount, setShowAccount] = useState(false); // Control account screen visibility
   const [savingToInventory, setSavingToInventory] = useState(false); // Track save operation
+  const [locations, setLocations] = useState([]); // User's storage locations
+  const [saveLocation, setSaveLocation] = useState(null); // Location chosen in the result modal
+  // Batch mode: keep scanning, look codes up in the background, review and
+  // save them all at once
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchItems, setBatchItems] = useState([]);
+  const [batchMessage, setBatchMessage] = useState(null); // What the last batch scan did
+  const [batchReviewVisible, setBatchReviewVisible] = useState(false);
+  const batchSessionRef = useRef(null);
+
+  const getBatchSession = () => {
+    if (!batchSessionRef.current) {
+      batchSessionRef.current = createBatchScanSession({ analyzer, onChange: setBatchItems });
+    }
+    return batchSessionRef.current;
+  };
 
   // Register for push notifications on mount
   useEffect(() => {
@@ -32,10 +81,14 @@ export default function App() {
       }
     }).catch(error => {
       console.error('Error registering for push notifications:', error);
+    }).finally(() => {
+      // Registration asks for permission; items saved before it was granted
+      // get their reminders now
+      scheduleMissedReminders();
     });
 
     // Check if AI analysis is configured (non-blocking)
-    if (!isAIAnalysisConfigured()) {
+    if (!analyzer.isConfigured()) {
       console.warn(
         '⚠️ AI Analysis is not configured.\n' +
         'To enable AI features:\n' +
@@ -49,10 +102,42 @@ export default function App() {
     }
   }, []);
 
+  // Notifications may have been allowed in the system settings meanwhile
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        scheduleMissedReminders();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Tell the user when a change made offline was refused by Supabase and
+  // undone locally (e.g. their household role changed meanwhile)
+  useEffect(() => {
+    return inventory.subscribeToRejectedChanges((changes) => {
+      const names = changes.map(change => change.productName || 'an item').join(', ');
+      Alert.alert(
+        'Changes Not Saved',
+        `The server did not accept your changes to ${names}, so they were undone on this device.\n\n${changes[0].message}`
+      );
+    });
+  }, [inventory]);
+
+  // Load storage locations once a product result is ready to be saved
+  useEffect(() => {
+    if (scannedProduct && locations.length === 0) {
+      ensureDefaultStorageLocations()
+        .then(setLocations)
+        .catch(error => console.error('Error loading storage locations:', error));
+    }
+  }, [scannedProduct]);
+
   // 3. RESET SCANNER
   const closeResult = () => {
     setScanned(false);
     setScannedProduct(null);
+    setSaveLocation(null);
     setIsScanning(false); // Return to home screen
   };
 
@@ -73,13 +158,88 @@ export default function App() {
     setIsAnalyzing(false);
     setManualEntryVisible(false);  // Close manual entry modal if open
     setFailedBarcode(null);          // Clear previous failed barcode
+    setFailedExpiryDate(null);
+    setFailedNotice(null);
     setAiErrorMessage('');           // Clear error messages
     setManualProductName('');        // Clear manual entry fields
     setManualCategory('');
     setManualExpiryDate('');
+    setCaptureMode('barcode');
+    setIsScanning(true);
+  };
+
+  // Photograph the printed date for the product in the result card
+  const startDateCapture = () => {
+    setCaptureMode('expiry_date');
     setIsScanning(true);
   };
 
+  // Leave date capture and go back to the result card
+  const stopDateCapture = () => {
+    setCaptureMode('barcode');
+    setIsScanning(false);
+  };
+
+  // Take the photo and replace the shelf life estimate with the printed date
+  const handleCaptureExpiryDate = async () => {
+    if (!cameraRef.current || isAnalyzing) {
+      return;
+    }
+
+    setIsAnalyzing(true);
+    try {
+      const photo = await cameraRef.current.takePictureAsync({ base64: true, quality: 0.5 });
+      const printed = await analyzer.readExpiryDate(photo.base64);
+
+      if (!printed.date) {
+        Alert.alert(
+          'No Date Found',
+          'We could not read a date in the photo. Move closer to the date print and try again.',
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+
+      const applyPrintedDate = (date) => {
+        const daysLeft = Math.ceil((new Date(date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+        setScannedProduct(prev => ({
+          ...prev,
+          expiryDate: date,
+          daysLeft,
+          status: getExpiryStatus(daysLeft),
+          expiryDateType: getExpiryDateType(printed.label),
+          expiryFromPhoto: true,
+          printedDateConfidence: printed.confidence,
+        }));
+        stopDateCapture();
+      };
+      console.log('✅ Printed date read from photo:', printed);
+
+      // A numeric print such as 03/04/25 can be read more than one way
+      if (printed.candidates && printed.candidates.length > 1) {
+        Alert.alert(
+          'Which Date?',
+          `The package says "${printed.text}". Which date is it?`,
+          printed.candidates.slice(0, 3).map(candidate => ({
+            text: formatExpiryDate(candidate.date),
+            onPress: () => applyPrintedDate(candidate.date),
+          }))
+        );
+        return;
+      }
+      applyPrintedDate(printed.date);
+    } catch (error) {
+      console.error('❌ Error reading printed date:', error);
+      Alert.alert(
+        'Error',
+        error instanceof AIAnalysisError ? error.message : 'Could not read the date from the photo. Please try again.',
+        [{ text: 'OK' }]
+      );
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
   // Stop scanning and return to home
   const stopScanning = () => {
     setIsScanning(false);
@@ -88,6 +248,49 @@ export default function App() {
     setIsAnalyzing(false);
   };
 
+  const startBatchMode = () => {
+    getBatchSession().clear();
+    setBatchMessage(null);
+    setBatchMode(true);
+  };
+
+  // Leave batch mode (then run `after`), asking first if scans would be lost
+  const endBatchMode = (after) => {
+    const leave = () => {
+      getBatchSession().clear();
+      setBatchMode(false);
+      setBatchReviewVisible(false);
+      setBatchMessage(null);
+      after?.();
+    };
+
+    if (batchItems.length === 0) {
+      leave();
+      return;
+    }
+    Alert.alert(
+      'Discard Batch?',
+      `${batchItems.length === 1 ? '1 scanned item has' : `${batchItems.length} scanned items have`} not been saved.`,
+      [
+        { text: 'Keep Scanning', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: leave },
+      ]
+    );
+  };
+
+  // Batch scans never stop the camera; repeat reads are debounced by the
+  // session, so only real scans change the message
+  const handleBatchScan = ({ type, data }) => {
+    const outcome = getBatchSession().scan(data, type);
+    if (outcome === 'queued') {
+      setBatchMessage('Added to batch');
+    } else if (outcome === 'counted') {
+      setBatchMessage('Scanned again, quantity +1');
+    } else if (outcome === 'invalid') {
+      setBatchMessage('Misread, scan that one again');
+    }
+  };
+
   // 1. HANDLE PERMISSIONS - Show permission request screen
   if (!permission) {
     // Camera is loading
@@ -106,11 +309,28 @@ export default function App() {
     return <InventoryScreen onBack={() => setShowInventory(false)} />;
   }
 
+  // Show waste dashboard if requested
+  if (showDashboard) {
+    return <DashboardScreen onBack={() => setShowDashboard(false)} />;
+  }
+
+  // Show reminder settings if requested
+  if (showNotificationSettings) {
+    return <NotificationSettingsScreen onBack={() => setShowNotificationSettings(false)} />;
+  }
+
+  // Show account screen if requested
+  if (showAccount) {
+    return <AccountScreen onBack={() => setShowAccount(false)} />;
+  }
+
   // Show manual entry screen if requested
   if (showManualEntry) {
     return <ManualEntryScreen 
       onBack={() => setShowManualEntry(false)} 
       initialBarcode={failedBarcode || undefined}
+      initialExpiryDate={failedExpiryDate || undefined}
+      notice={failedNotice || undefined}
       onViewInventory={() => setShowInventory(true)}
     />;
   }
@@ -165,6 +385,34 @@ export default function App() {
             <Text style={styles.manualEntryButtonText}>Manual Entry</Text>
           </TouchableOpacity>
 
+          {/* Waste Dashboard Button */}
+          <TouchableOpacity 
+            style={[styles.manualEntryButton, styles.dashboardButton]}
+            onPress={() => setShowDashboard(true)}
+          >
+            <Text style={styles.manualEntryButtonText}>Waste Dashboard</Text>
+          </TouchableOpacity>
+
+          {/* Reminder Settings Button */}
+          <TouchableOpacity 
+            style={[styles.manualEntryButton, styles.settingsButton]}
+            onPress={() => setShowNotificationSettings(true)}
+          >
+            <Text style={styles.manualEntryButtonText}>Reminder Settings</Text>
+          </TouchableOpacity>
+
+          {/* Account Button */}
+          {isSupabaseConfigured() && (
+            <TouchableOpacity 
+              style={[styles.manualEntryButton, styles.accountButton]}
+              onPress={() => setShowAccount(true)}
+            >
+              <Text style={styles.manualEntryButtonText}>
+                {isGuest ? 'Guest · Create Account' : 'Account'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
           {!permission.granted && (
             <Text style={styles.permissionHint}>
               Camera permission is required to scan barcodes
@@ -196,6 +444,20 @@ export default function App() {
     }
 
     setScanned(true);
+
+    // A bad check digit means the camera misread the code; asking the AI
+    // about it would only waste a call
+    const barcode = normalizeBarcode(data, type);
+    if (barcode.kind === 'invalid') {
+      console.log('⚠️ Invalid barcode, asking for a rescan:', data);
+      Alert.alert(
+        'Please Scan Again',
+        'That barcode did not read correctly. Hold the camera steady and scan it again.',
+        [{ text: 'OK', onPress: () => setScanned(false) }]
+      );
+      return;
+    }
+
     setIsAnalyzing(true);
     setScannedProduct(null);
 
@@ -203,14 +465,19 @@ export default function App() {
       console.log('🔍 Analyzing barcode:', data);
 
       // Call AI analysis service to get real product data
-      const analysisResult = await analyzeProductFromBarcode(data);
+      const analysisResult = await analyzer.analyze({
+        barcode: barcode.kind === 'gtin' ? barcode.gtin : data,
+        barcodeType: type,
+      });
 
       // Check if manual entry is required (even in successful response)
       if (analysisResult.manualEntryRequired) {
         console.log('✅ Analysis indicates manual entry required, opening manual entry screen');
         
-        // Store the scanned barcode for manual entry
-        setFailedBarcode(data);
+        // Store the scanned barcode (and any printed expiry date) for manual entry
+        setFailedBarcode(analysisResult.productCode || data);
+        setFailedExpiryDate(analysisResult.expiryFromBarcode ? analysisResult.expiryDate : null);
+        setFailedNotice(getManualEntryNotice(analysisResult.aiStatus));
         setScannedProduct(null);
         
         // Stop scanning and open manual entry screen (full page)
@@ -236,13 +503,19 @@ export default function App() {
 
       // Update product state with real AI data
       setScannedProduct({
-        barcode: data,
+        barcode: analysisResult.productCode || data,
         name: analysisResult.name,
         category: analysisResult.category,
         daysLeft: daysLeft,
         shelfLifeDays: analysisResult.shelfLifeDays,
         confidenceScore: analysisResult.confidenceScore,
         status: status,
+        expiryDate: analysisResult.expiryDate,
+        expiryFromBarcode: analysisResult.expiryFromBarcode || false,
+        expiryDateType: analysisResult.expiryDateType || 'best_before',
+        openedShelfLifeDays: analysisResult.openedShelfLifeDays ?? null,
+        lotNumber: analysisResult.lotNumber || null,
+        source: analysisResult.source || 'ai',
       });
 
       console.log('✅ Product analyzed successfully:', analysisResult);
@@ -258,7 +531,10 @@ export default function App() {
       setScanned(false);
 
       // Store the failed barcode and prepare manual entry
-      setFailedBarcode(data);
+      // GS1 codes still give us the GTIN and printed expiry date even if lookup failed
+      const gs1 = parseGS1(data);
+      setFailedBarcode(toLookupCode(gs1?.gtin || data, type));
+      setFailedExpiryDate(getGS1ExpiryDate(gs1) || null);
       setScannedProduct(null);
 
       // Clear any previous manual entries
@@ -316,21 +592,55 @@ export default function App() {
     try {
       setSavingToInventory(true);
 
-      // Calculate expiry date from days left
-      const expiryDate = scannedProduct.daysLeft !== undefined
-        ? new Date(Date.now() + scannedProduct.daysLeft * 24 * 60 * 60 * 1000)
-            .toISOString()
-            .split('T')[0]
-        : null;
+      // Use the printed expiry date when the barcode or a photo of the pack
+      // gave one, otherwise calculate it from days left
+      const printedDate = scannedProduct.expiryFromBarcode || scannedProduct.expiryFromPhoto;
+      let expiryDate = printedDate
+        ? scannedProduct.expiryDate
+        : scannedProduct.daysLeft !== undefined
+          ? new Date(Date.now() + scannedProduct.daysLeft * 24 * 60 * 60 * 1000)
+              .toISOString()
+              .split('T')[0]
+          : null;
+
+      // Apply the shelf life rules of the chosen location. A printed date
+      // stands, unless the item goes into the freezer, which stops the clock
+      if (saveLocation && (!printedDate || saveLocation.kind === 'freezer')) {
+        expiryDate = await getExpiryForLocation(
+          {
+            category: scannedProduct.category || null,
+            barcode: scannedProduct.barcode || null,
+            expiry_date: expiryDate,
+          },
+          null,
+          saveLocation
+        );
+      }
 
-      await addInventoryItem({
+      await inventory.addItem({
         barcode: scannedProduct.barcode || null,
         product_name: scannedProduct.name || null,
         category: scannedProduct.category || null,
         expiry_date: expiryDate,
+        expiry_date_type: scannedProduct.expiryDateType || 'best_before',
+        opened_shelf_life_days: scannedProduct.openedShelfLifeDays ?? null,
         ai_confidence: scannedProduct.confidenceScore || null,
+        source: scannedProduct.source || null,
+        lot_number: scannedProduct.lotNumber || null,
+        location_id: saveLocation ? saveLocation.id : null,
       });
 
+      // Saving a scan confirms what the barcode is (guests cannot vote)
+      if (scannedProduct.barcode && scannedProduct.name && !isGuest) {
+        confirmProductInBackground(analyzer, {
+          code: scannedProduct.barcode,
+          name: scannedProduct.name,
+          category: scannedProduct.category,
+          // A printed date says when this pack expires, not the usual shelf life
+          shelfLifeDays: scannedProduct.expiryFromBarcode || scannedProduct.expiryFromPhoto ? null : scannedProduct.shelfLifeDays,
+        });
+      }
+
       Alert.alert(
         'Success',
         'Product saved to inventory!',
@@ -371,50 +681,71 @@ export default function App() {
       return;
     }
 
-    // Calculate days left from expiry date
-    let savedName, savedCategory, savedExpiryDate, daysLeft, status;
-    try {
-      const expiryDate = new Date(manualExpiryDate);
-      const now = new Date();
-      const diffTime = expiryDate.getTime() - now.getTime();
-      daysLeft = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-      if (daysLeft < 0) {
-        status = 'EXPIRED';
-      } else if (daysLeft === 0) {
-        status = 'EXPIRES TODAY';
-      } else if (daysLeft === 1) {
-        status = 'Expires tomorrow';
-      } else {
-        status = `Expires in ${daysLeft} days`;
-      }
-
-      // Store values before clearing for logging
-      savedName = manualProductName.trim();
-      savedCategory = manualCategory.trim() || 'General';
-      savedExpiryDate = manualExpiryDate;
-    } catch (error) {
+    const parsedExpiry = parseExpiryDate(manualExpiryDate, { order: getDeviceDateOrder() });
+    if (!parsedExpiry.date) {
       Alert.alert(
         'Invalid Date',
-        'Please enter a valid expiry date (YYYY-MM-DD format).',
+        'We could not read that date. Try a format like 2025-03-12, 12 MAR 2025 or 03/25.',
         [{ text: 'OK' }]
       );
       return;
     }
 
+    // "USE BY 12/03" is stored as a use by date, anything else as best before
+    const dateType = getExpiryDateType(parsedExpiry.label);
+
+    // Ambiguous dates such as 03/04/25: let the user pick
+    if (parsedExpiry.ambiguous) {
+      Alert.alert(
+        'Which Date?',
+        `"${manualExpiryDate.trim()}" could mean more than one date.`,
+        [
+          ...parsedExpiry.candidates.slice(0, 2).map(candidate => ({
+            text: formatExpiryDate(candidate.date),
+            onPress: () => saveManualProduct(candidate.date, dateType),
+          })),
+          { text: 'Cancel', style: 'cancel' },
+        ]
+      );
+      return;
+    }
+
+    await saveManualProduct(parsedExpiry.date, dateType);
+  };
+
+  // Save the manual entry with its expiry date resolved to YYYY-MM-DD
+  const saveManualProduct = async (savedExpiryDate, dateType) => {
+    // Store values before clearing for logging
+    const savedName = manualProductName.trim();
+    const savedCategory = manualCategory.trim() || 'General';
+    const daysLeft = Math.ceil((new Date(savedExpiryDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+    const status = getExpiryStatus(daysLeft);
+
     // Show loading state
     setSavingToInventory(true);
 
     try {
       // Automatically save to inventory
-      await addInventoryItem({
+      await inventory.addItem({
         barcode: failedBarcode || 'Manual Entry',
         product_name: savedName,
         category: savedCategory,
         expiry_date: savedExpiryDate,
+        expiry_date_type: dateType,
         ai_confidence: 1.0, // 100% confidence for manual entry
+        source: 'manual',
       });
 
+      if (failedBarcode && !isGuest) {
+        confirmProductInBackground(analyzer, {
+          code: failedBarcode,
+          name: savedName,
+          category: savedCategory,
+          // The typed date is when this pack expires, not the usual shelf life
+          shelfLifeDays: null,
+        });
+      }
+
       // Update product state with manual entry data (for display if needed)
       setScannedProduct({
         barcode: failedBarcode || 'Manual Entry',
@@ -424,6 +755,7 @@ export default function App() {
         shelfLifeDays: daysLeft,
         confidenceScore: 1.0, // 100% confidence for manual entry
         status: status,
+        source: 'manual',
         isManualEntry: true, // Flag to indicate manual entry
       });
 
@@ -508,6 +840,8 @@ export default function App() {
     }
   };
 
+  const batchPendingCount = batchItems.filter(item => item.status === 'queued' || item.status === 'analyzing').length;
+
   // 4. SCANNING SCREEN - Only shown when isScanning is true
   return (
     <View style={styles.container}>
@@ -515,11 +849,16 @@ export default function App() {
       {/* CAMERA LAYER - Only active when scanning */}
       {isScanning && (
         <CameraView
+          ref={cameraRef}
           style={StyleSheet.absoluteFillObject}
           facing="back"
-          onBarcodeScanned={(scanned || isAnalyzing) ? undefined : handleBarCodeScanned}
+          onBarcodeScanned={
+            batchMode
+              ? handleBatchScan
+              : (scanned || isAnalyzing || captureMode !== 'barcode') ? undefined : handleBarCodeScanned
+          }
           barcodeScannerSettings={{
-            barcodeTypes: ["qr", "ean13", "upc_e", "code128", "ean8", "upc_a"], 
+            barcodeTypes: ["qr", "ean13", "upc_e", "code128", "ean8", "upc_a", "datamatrix"], 
           }}
         />
       )}
@@ -535,7 +874,9 @@ export default function App() {
             <View style={styles.loadingContent}>
               <ActivityIndicator size="large" color="#000" />
               <Text style={styles.loadingText}>AI Agent analyzing...</Text>
-              <Text style={styles.loadingSubtext}>Identifying product details</Text>
+              <Text style={styles.loadingSubtext}>
+                {captureMode === 'expiry_date' ? 'Reading the printed date' : 'Identifying product details'}
+              </Text>
             </View>
           </View>
         </Modal>
@@ -551,8 +892,14 @@ export default function App() {
             
             {/* Scanning frame */}
             <View style={styles.scanFrameContainer}>
-              <View style={styles.scanFrame} />
-              <Text style={styles.overlayText}>Align barcode within frame</Text>
+              <View style={[styles.scanFrame, captureMode === 'expiry_date' && styles.dateFrame]} />
+              <Text style={styles.overlayText}>
+                {captureMode === 'expiry_date'
+                  ? 'Fit the printed date within frame'
+                  : batchMode
+                    ? batchMessage || 'Scan each item, one after another'
+                    : 'Align barcode within frame'}
+              </Text>
             </View>
           </View>
 
@@ -560,14 +907,72 @@ export default function App() {
           <View style={styles.scannerControls}>
             <TouchableOpacity 
               style={styles.backButton}
-              onPress={stopScanning}
+              onPress={
+                captureMode === 'expiry_date'
+                  ? stopDateCapture
+                  : batchMode ? () => endBatchMode(stopScanning) : stopScanning
+              }
             >
               <Text style={styles.backButtonText}>✕ Cancel</Text>
             </TouchableOpacity>
           </View>
+
+          {/* Shutter - date capture only */}
+          {captureMode === 'expiry_date' && (
+            <View style={styles.captureControls}>
+              <TouchableOpacity
+                style={styles.captureButton}
+                onPress={handleCaptureExpiryDate}
+                disabled={isAnalyzing}
+              >
+                <Text style={styles.captureButtonText}>📷 Capture Date</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Batch scanning - count, review and back to single scans */}
+          {captureMode === 'barcode' && batchMode && (
+            <View style={styles.captureControls}>
+              <Text style={styles.batchCountText}>
+                {batchItems.length === 1 ? '1 item' : `${batchItems.length} items`} scanned
+                {batchPendingCount > 0 ? ` · looking up ${batchPendingCount}` : ''}
+              </Text>
+              <View style={styles.batchButtons}>
+                <TouchableOpacity style={[styles.captureButton, styles.batchOutlineButton]} onPress={() => endBatchMode()}>
+                  <Text style={styles.batchOutlineButtonText}>Single Scan</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.captureButton}
+                  onPress={() => setBatchReviewVisible(true)}
+                  disabled={batchItems.length === 0}
+                >
+                  <Text style={styles.captureButtonText}>Review ({batchItems.length})</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+          {captureMode === 'barcode' && !batchMode && !scanned && !isAnalyzing && (
+            <View style={styles.captureControls}>
+              <TouchableOpacity style={[styles.captureButton, styles.batchOutlineButton]} onPress={startBatchMode}>
+                <Text style={styles.batchOutlineButtonText}>Batch Scan</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </>
       )}
 
+      {/* BATCH REVIEW - List of the batch, saved all at once */}
+      <BatchReviewSheet
+        visible={batchReviewVisible}
+        session={getBatchSession()}
+        items={batchItems}
+        onClose={() => setBatchReviewVisible(false)}
+        onSaved={() => {
+          setBatchReviewVisible(false);
+          setBatchMessage(null);
+        }}
+      />
+
       {/* RESULT POPUP (MODAL) - Show results even when not scanning */}
       <Modal
         animationType="slide"
@@ -580,6 +985,9 @@ export default function App() {
             
             <Text style={styles.productName}>{scannedProduct?.name}</Text>
             <Text style={styles.barcodeText}>Code: {scannedProduct?.barcode}</Text>
+            {scannedProduct?.lotNumber && (
+              <Text style={styles.barcodeText}>Lot: {scannedProduct.lotNumber}</Text>
+            )}
             
             {/* Category Badge */}
             {scannedProduct?.category && (
@@ -588,10 +996,20 @@ export default function App() {
               </View>
             )}
 
+            {/* Where the data came from */}
+            {scannedProduct?.source && (
+              <View style={styles.confidenceContainer}>
+                <Text style={styles.confidenceLabel}>Source:</Text>
+                <Text style={styles.confidenceValue}>{INVENTORY_SOURCE_LABELS[scannedProduct.source]}</Text>
+              </View>
+            )}
+
             {/* Confidence Score (if available) */}
             {scannedProduct?.confidenceScore !== undefined && (
               <View style={styles.confidenceContainer}>
-                <Text style={styles.confidenceLabel}>AI Confidence:</Text>
+                <Text style={styles.confidenceLabel}>
+                  {scannedProduct.source === 'ai' || scannedProduct.source === 'cache' ? 'AI Confidence:' : 'Confidence:'}
+                </Text>
                 <Text style={styles.confidenceValue}>
                   {Math.round(scannedProduct.confidenceScore * 100)}%
                 </Text>
@@ -606,13 +1024,43 @@ export default function App() {
               <Text style={styles.statusText}>
                 {scannedProduct?.status}
               </Text>
-              {scannedProduct?.shelfLifeDays !== undefined && (
+              {scannedProduct?.expiryFromBarcode ? (
+                <Text style={styles.daysLeftText}>
+                  {EXPIRY_DATE_TYPE_LABELS[scannedProduct.expiryDateType || 'best_before']}: {scannedProduct.expiryDate}
+                </Text>
+              ) : scannedProduct?.expiryFromPhoto ? (
+                <Text style={styles.daysLeftText}>
+                  {EXPIRY_DATE_TYPE_LABELS[scannedProduct.expiryDateType || 'best_before']}: {scannedProduct.expiryDate} (read from photo, {Math.round(scannedProduct.printedDateConfidence * 100)}%)
+                </Text>
+              ) : scannedProduct?.shelfLifeDays !== undefined && (
                 <Text style={styles.daysLeftText}>
                   Shelf Life: {scannedProduct.shelfLifeDays} days
                 </Text>
               )}
             </View>
 
+            {/* Read the printed date instead of trusting the estimate */}
+            {!scannedProduct?.expiryFromBarcode && (
+              <TouchableOpacity style={styles.readDateButton} onPress={startDateCapture}>
+                <Text style={styles.readDateButtonText}>
+                  {scannedProduct?.expiryFromPhoto ? '📷 Retake Date Photo' : '📷 Read Printed Date'}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {/* Storage Location Picker */}
+            {locations.length > 0 && (
+              <View style={styles.locationPickerContainer}>
+                <Text style={styles.inputLabel}>Store in</Text>
+                <LocationPicker
+                  locations={locations}
+                  selectedId={saveLocation ? saveLocation.id : null}
+                  onSelect={setSaveLocation}
+                  disabled={savingToInventory}
+                />
+              </View>
+            )}
+
             {/* Save to Inventory Button */}
             <TouchableOpacity 
               style={[styles.saveButton, savingToInventory && styles.saveButtonDisabled]} 
@@ -728,12 +1176,13 @@ export default function App() {
                   style={styles.input}
                   value={manualExpiryDate}
                   onChangeText={setManualExpiryDate}
-                  placeholder="YYYY-MM-DD (e.g., 2024-12-31)"
+                  placeholder="e.g., 12 MAR 2025, 03/25 or 2025-03-12"
                   placeholderTextColor="#9CA3AF"
                   keyboardType="default"
+                  autoCapitalize="characters"
                 />
                 <Text style={styles.inputHint}>
-                  Enter the expiry date in YYYY-MM-DD format
+                  Type the date as printed on the package
                 </Text>
               </View>
 
@@ -799,6 +1248,10 @@ const styles = StyleSheet.create({
     backgroundColor: 'transparent',
     borderRadius: 20,
   },
+  // Date prints are short and wide
+  dateFrame: {
+    height: 120,
+  },
   overlayText: {
     color: 'white',
     marginTop: 20,
@@ -1028,6 +1481,15 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  dashboardButton: {
+    backgroundColor: '#5856D6',
+  },
+  settingsButton: {
+    backgroundColor: '#8E8E93',
+  },
+  accountButton: {
+    backgroundColor: '#5856D6',
+  },
   manualEntryButtonText: {
     color: '#FFF',
     fontSize: 16,
@@ -1110,6 +1572,54 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  captureControls: {
+    position: 'absolute',
+    bottom: 60,
+    left: 20,
+    right: 20,
+    alignItems: 'center',
+    zIndex: 10,
+  },
+  captureButton: {
+    backgroundColor: '#fff',
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    borderRadius: 30,
+  },
+  captureButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  batchCountText: {
+    color: '#fff',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  batchButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  batchOutlineButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderWidth: 1,
+    borderColor: '#fff',
+  },
+  batchOutlineButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  readDateButton: {
+    paddingVertical: 10,
+    marginBottom: 12,
+    alignItems: 'center',
+  },
+  readDateButtonText: {
+    color: '#2563EB',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   overlayBackground: {
     ...StyleSheet.absoluteFillObject,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -1120,6 +1630,10 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  locationPickerContainer: {
+    width: '100%',
+    marginBottom: 15,
+  },
   saveButton: {
     backgroundColor: '#34C759',
     paddingVertical: 15,
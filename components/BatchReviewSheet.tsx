@@ -0,0 +1,370 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useInventoryRepository } from '../context/ServicesContext';
+import { BatchScanItem, BatchScanSession } from '../services/batchScanSession';
+import { formatExpiryDate, getDeviceDateOrder, parseExpiryDate } from '../utils/expiryDate';
+
+interface BatchReviewSheetProps {
+  visible: boolean;
+  session: BatchScanSession;
+  items: BatchScanItem[]; // The session's items, as last reported by its onChange
+  onClose: () => void; // Back to scanning
+  onSaved?: () => void; // After the batch was saved and the session cleared
+}
+
+const isPending = (item: BatchScanItem): boolean => item.status === 'queued' || item.status === 'analyzing';
+
+const describeItem = (item: BatchScanItem): string => {
+  switch (item.status) {
+    case 'queued':
+      return 'Waiting…';
+    case 'analyzing':
+      return 'Looking up…';
+    case 'needs_details':
+      return 'Unknown product, tap to add details';
+    case 'failed':
+      return item.error || 'Lookup failed';
+    default:
+      return item.expiryDate ? `Expires ${formatExpiryDate(item.expiryDate)}` : 'No expiry date';
+  }
+};
+
+/**
+ * Bottom sheet listing a batch scan session: fix up or remove items, retry
+ * failed lookups, then save all ready items with one repository.addItems
+ */
+export default function BatchReviewSheet({ visible, session, items, onClose, onSaved }: BatchReviewSheetProps) {
+  const repository = useInventoryRepository();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editCategory, setEditCategory] = useState('');
+  const [editExpiry, setEditExpiry] = useState('');
+  const [editQuantity, setEditQuantity] = useState('1');
+  const [saving, setSaving] = useState(false);
+
+  const readyCount = items.filter((item) => item.status === 'ready').length;
+  const pendingCount = items.filter(isPending).length;
+
+  const close = () => {
+    setEditingId(null);
+    onClose();
+  };
+
+  const startEditing = (item: BatchScanItem) => {
+    setEditingId(item.id);
+    setEditName(item.productName);
+    setEditCategory(item.category);
+    setEditExpiry(item.expiryDate || '');
+    setEditQuantity(String(item.quantity));
+  };
+
+  const saveEdit = (item: BatchScanItem) => {
+    if (!editName.trim()) {
+      Alert.alert('Missing Information', 'Please enter the product name.');
+      return;
+    }
+
+    const quantity = parseFloat(editQuantity.replace(',', '.'));
+    if (!(quantity > 0)) {
+      Alert.alert('Invalid Quantity', 'Please enter a quantity greater than zero.');
+      return;
+    }
+
+    const apply = (expiryDate: string | null) => {
+      session.updateItem(item.id, {
+        productName: editName,
+        category: editCategory,
+        expiryDate,
+        quantity,
+      });
+      setEditingId(null);
+    };
+
+    if (!editExpiry.trim()) {
+      apply(null);
+      return;
+    }
+
+    // Same rules as the manual entry screen
+    const parsed = parseExpiryDate(editExpiry, { order: getDeviceDateOrder() });
+    if (!parsed.date) {
+      Alert.alert('Invalid Date', 'We could not read that date. Try a format like 2025-03-12, 12 MAR 2025 or 03/25.');
+      return;
+    }
+    if (parsed.ambiguous) {
+      Alert.alert(
+        'Which Date?',
+        `"${editExpiry.trim()}" could mean more than one date.`,
+        [
+          ...parsed.candidates.slice(0, 2).map((candidate) => ({
+            text: formatExpiryDate(candidate.date),
+            onPress: () => apply(candidate.date),
+          })),
+          { text: 'Cancel', style: 'cancel' as const },
+        ]
+      );
+      return;
+    }
+    apply(parsed.date);
+  };
+
+  const saveBatch = async () => {
+    const inserts = session.getInserts();
+    if (inserts.length === 0) return;
+
+    const skipped = items.length - inserts.length;
+    setSaving(true);
+    try {
+      await repository.addItems(inserts);
+      session.clear();
+      setEditingId(null);
+      onSaved?.();
+      Alert.alert(
+        'Batch Saved',
+        `${inserts.length === 1 ? '1 item' : `${inserts.length} items`} saved to inventory.` +
+          (skipped > 0 ? ` ${skipped} without product details ${skipped === 1 ? 'was' : 'were'} left out.` : '')
+      );
+    } catch (error) {
+      console.error('Error saving batch:', error);
+      Alert.alert('Save Failed', error instanceof Error ? error.message : 'Failed to save the batch. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderEditor = (item: BatchScanItem) => (
+    <View>
+      <TextInput
+        style={styles.input}
+        value={editName}
+        onChangeText={setEditName}
+        placeholder="Product name"
+        placeholderTextColor="#9CA3AF"
+      />
+      <TextInput
+        style={styles.input}
+        value={editCategory}
+        onChangeText={setEditCategory}
+        placeholder="Category (optional)"
+        placeholderTextColor="#9CA3AF"
+      />
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, styles.expiryInput]}
+          value={editExpiry}
+          onChangeText={setEditExpiry}
+          placeholder="Expiry, e.g. 12 MAR 2025"
+          placeholderTextColor="#9CA3AF"
+          autoCapitalize="characters"
+        />
+        <TextInput
+          style={[styles.input, styles.quantityInput]}
+          value={editQuantity}
+          onChangeText={setEditQuantity}
+          placeholder="Qty"
+          placeholderTextColor="#9CA3AF"
+          keyboardType="decimal-pad"
+        />
+      </View>
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={[styles.button, styles.buttonSecondary]} onPress={() => setEditingId(null)}>
+          <Text style={styles.buttonSecondaryText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.buttonPrimary]} onPress={() => saveEdit(item)}>
+          <Text style={styles.buttonPrimaryText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={visible} onRequestClose={close}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Review Batch</Text>
+          <Text style={styles.subtitle}>
+            {readyCount} of {items.length} ready to save
+            {pendingCount > 0 ? ` · looking up ${pendingCount}` : ''}
+          </Text>
+
+          <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+            {items.map((item) => (
+              <View key={item.id} style={styles.row}>
+                {editingId === item.id ? (
+                  renderEditor(item)
+                ) : (
+                  <View style={styles.rowContent}>
+                    <TouchableOpacity
+                      style={styles.rowText}
+                      onPress={() => startEditing(item)}
+                      disabled={isPending(item)}
+                    >
+                      <Text style={styles.itemName}>
+                        {item.productName || item.productCode}
+                        {item.quantity > 1 ? `  ×${item.quantity}` : ''}
+                      </Text>
+                      <Text style={item.status === 'ready' ? styles.itemDetail : styles.itemWarning}>
+                        {describeItem(item)}
+                      </Text>
+                    </TouchableOpacity>
+                    {item.status === 'failed' && (
+                      <TouchableOpacity style={styles.rowAction} onPress={() => session.retry(item.id)}>
+                        <Text style={styles.retryText}>Retry</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity style={styles.rowAction} onPress={() => session.removeItem(item.id)}>
+                      <Text style={styles.removeText}>Remove</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.button, styles.buttonSecondary]} onPress={close} disabled={saving}>
+              <Text style={styles.buttonSecondaryText}>Keep Scanning</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.buttonPrimary]}
+              onPress={saveBatch}
+              disabled={saving || readyCount === 0 || pendingCount > 0 || editingId !== null}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.buttonPrimaryText}>
+                  {pendingCount > 0 ? 'Looking up…' : `Save ${readyCount}`}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  list: {
+    marginBottom: 16,
+  },
+  row: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    paddingVertical: 12,
+  },
+  rowContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowAction: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  itemDetail: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  itemWarning: {
+    fontSize: 14,
+    color: '#EA580C',
+  },
+  retryText: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+  removeText: {
+    color: '#DC2626',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  expiryInput: {
+    flex: 1,
+  },
+  quantityInput: {
+    width: 80,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonSecondary: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+  },
+  buttonPrimary: {
+    backgroundColor: '#000',
+  },
+  buttonSecondaryText: {
+    color: '#333',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonPrimaryText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
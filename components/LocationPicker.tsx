@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { StorageLocationRow } from '../types/supabase';
+import { addStorageLocation } from '../services/locations';
+
+interface LocationPickerProps {
+  locations: StorageLocationRow[];
+  selectedId: string | null;
+  onSelect: (location: StorageLocationRow | null) => void;
+  onLocationAdded?: (location: StorageLocationRow) => void; // Enables the "+ New" chip
+  disabled?: boolean;
+}
+
+const KIND_ICONS: Record<StorageLocationRow['kind'], string> = {
+  fridge: '🧊',
+  freezer: '❄️',
+  pantry: '🥫',
+  custom: '📍',
+};
+
+/**
+ * Horizontal chip list for choosing a storage location
+ * Tapping the selected chip again clears the selection.
+ */
+export default function LocationPicker({
+  locations,
+  selectedId,
+  onSelect,
+  onLocationAdded,
+  disabled,
+}: LocationPickerProps) {
+  const [adding, setAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const handleAdd = async () => {
+    if (!newName.trim()) {
+      setAdding(false);
+      return;
+    }
+
+    try {
+      const location = await addStorageLocation(newName);
+      setNewName('');
+      setAdding(false);
+      onLocationAdded?.(location);
+      onSelect(location);
+    } catch (error) {
+      console.error('Error adding storage location:', error);
+      Alert.alert('Error', 'Failed to add storage location');
+    }
+  };
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {locations.map((location) => {
+          const selected = location.id === selectedId;
+          return (
+            <TouchableOpacity
+              key={location.id}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => onSelect(selected ? null : location)}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {KIND_ICONS[location.kind]} {location.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        {onLocationAdded && !adding && (
+          <TouchableOpacity
+            style={styles.chip}
+            onPress={() => setAdding(true)}
+            disabled={disabled}
+          >
+            <Text style={styles.chipText}>+ New</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      {adding && (
+        <View style={styles.addRow}>
+          <TextInput
+            style={styles.addInput}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="e.g., Garage Fridge"
+            placeholderTextColor="#9CA3AF"
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={handleAdd}
+          />
+          <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+            <Text style={styles.addButtonText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFF',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  chipTextSelected: {
+    color: '#FFF',
+    fontWeight: '600',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  addInput: {
+    flex: 1,
+    backgroundColor: '#FFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    color: '#111827',
+  },
+  addButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  addButtonText: {
+    color: '#FFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,127 @@
+import React, { useRef } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Animated,
+  PanResponder,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+
+export interface SwipeAction {
+  label: string;
+  color: string;
+  onTrigger: () => void;
+}
+
+interface SwipeableCardProps {
+  children: React.ReactNode;
+  leftAction?: SwipeAction; // Revealed and triggered by swiping right
+  rightAction?: SwipeAction; // Revealed and triggered by swiping left
+  style?: StyleProp<ViewStyle>;
+}
+
+// Distance (px) the card must travel before the action fires on release
+const TRIGGER_DISTANCE = 80;
+
+/**
+ * Card that triggers an action when swiped horizontally past a threshold.
+ * Only claims the gesture for mostly-horizontal moves so vertical list
+ * scrolling keeps working.
+ */
+export default function SwipeableCard({ children, leftAction, rightAction, style }: SwipeableCardProps) {
+  const translateX = useRef(new Animated.Value(0)).current;
+  // Keep the latest actions available to the long-lived PanResponder
+  const actionsRef = useRef({ leftAction, rightAction });
+  actionsRef.current = { leftAction, rightAction };
+
+  const clamp = (dx: number): number => {
+    const { leftAction: left, rightAction: right } = actionsRef.current;
+    if (dx > 0 && !left) return 0;
+    if (dx < 0 && !right) return 0;
+    return Math.max(-TRIGGER_DISTANCE * 1.5, Math.min(TRIGGER_DISTANCE * 1.5, dx));
+  };
+
+  const reset = () => {
+    Animated.spring(translateX, { toValue: 0, useNativeDriver: true }).start();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, gesture) =>
+        Math.abs(gesture.dx) > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 1.5,
+      onPanResponderMove: (_, gesture) => {
+        translateX.setValue(clamp(gesture.dx));
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const { leftAction: left, rightAction: right } = actionsRef.current;
+        reset();
+        if (gesture.dx >= TRIGGER_DISTANCE && left) {
+          left.onTrigger();
+        } else if (gesture.dx <= -TRIGGER_DISTANCE && right) {
+          right.onTrigger();
+        }
+      },
+      onPanResponderTerminate: reset,
+    })
+  ).current;
+
+  const leftOpacity = translateX.interpolate({
+    inputRange: [0, TRIGGER_DISTANCE],
+    outputRange: [0, 1],
+    extrapolate: 'clamp',
+  });
+  const rightOpacity = translateX.interpolate({
+    inputRange: [-TRIGGER_DISTANCE, 0],
+    outputRange: [1, 0],
+    extrapolate: 'clamp',
+  });
+
+  return (
+    <View style={style}>
+      <View style={styles.actionsLayer}>
+        {leftAction && (
+          <Animated.View
+            style={[styles.action, styles.actionLeft, { backgroundColor: leftAction.color, opacity: leftOpacity }]}
+          >
+            <Text style={styles.actionText}>{leftAction.label}</Text>
+          </Animated.View>
+        )}
+        {rightAction && (
+          <Animated.View
+            style={[styles.action, styles.actionRight, { backgroundColor: rightAction.color, opacity: rightOpacity }]}
+          >
+            <Text style={styles.actionText}>{rightAction.label}</Text>
+          </Animated.View>
+        )}
+      </View>
+      <Animated.View style={{ transform: [{ translateX }] }} {...panResponder.panHandlers}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  actionsLayer: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  action: {
+    ...StyleSheet.absoluteFillObject,
+    borderRadius: 12,
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+  },
+  actionLeft: {
+    alignItems: 'flex-start',
+  },
+  actionRight: {
+    alignItems: 'flex-end',
+  },
+  actionText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
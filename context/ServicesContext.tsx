@@ -0,0 +1,41 @@
+import React, { createContext, useContext } from 'react';
+import type { InventoryRepository } from '../services/inventoryRepository';
+import type { ProductAnalyzer } from '../services/productAnalyzer';
+
+/**
+ * Backends the screens talk to
+ * The app provides the Supabase / Edge Function implementations
+ * (services/defaultServices.ts); tests can provide the in-memory repository
+ * and the fake analyzer instead.
+ */
+export interface Services {
+  inventory: InventoryRepository;
+  analyzer: ProductAnalyzer;
+}
+
+const ServicesContext = createContext<Services | null>(null);
+
+interface ServicesProviderProps {
+  services: Services;
+  children: React.ReactNode;
+}
+
+export function ServicesProvider({ services, children }: ServicesProviderProps) {
+  return <ServicesContext.Provider value={services}>{children}</ServicesContext.Provider>;
+}
+
+export function useServices(): Services {
+  const services = useContext(ServicesContext);
+  if (!services) {
+    throw new Error('useServices must be used inside a ServicesProvider');
+  }
+  return services;
+}
+
+export function useInventoryRepository(): InventoryRepository {
+  return useServices().inventory;
+}
+
+export function useProductAnalyzer(): ProductAnalyzer {
+  return useServices().analyzer;
+}
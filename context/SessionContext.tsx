@@ -0,0 +1,90 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import * as Linking from 'expo-linking';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { completeSignInFromUrl } from '../services/auth';
+import { switchInventoryUser } from '../services/inventory';
+import { refreshHouseholds } from '../services/households';
+
+/**
+ * The signed-in user, as the screens see it
+ */
+export interface SessionState {
+  session: Session | null;
+  user: User | null;
+  isGuest: boolean; // Anonymous session that can still be upgraded
+  loading: boolean; // True until the stored session has been restored
+}
+
+const SessionContext = createContext<SessionState | null>(null);
+
+interface SessionProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Tracks the Supabase auth session, finishes sign-in from magic links and
+ * hands the local inventory to whoever signs in (then loads their households)
+ */
+export function SessionProvider({ children }: SessionProviderProps) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(isSupabaseConfigured());
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+
+    // Fires with the stored session first (INITIAL_SESSION), then on every change
+    const { data } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setLoading(false);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+
+    const handleUrl = (url: string | null) => {
+      if (!url) return;
+      completeSignInFromUrl(url).catch((error) => {
+        Alert.alert('Sign In Failed', error instanceof Error ? error.message : 'The sign-in link did not work.');
+      });
+    };
+
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
+
+  const user = session?.user ?? null;
+  const isGuest = !!user?.is_anonymous;
+
+  // Outside the auth callback: Supabase calls made from inside it can deadlock
+  useEffect(() => {
+    if (!user) return;
+
+    switchInventoryUser({ userId: user.id, isGuest })
+      .then((carried) => {
+        if (carried > 0) {
+          Alert.alert('Guest Items Added', `${carried} item${carried === 1 ? '' : 's'} from your guest session ${carried === 1 ? 'was' : 'were'} added to this account.`);
+        }
+        return refreshHouseholds();
+      })
+      .catch((error) => console.error('Failed to switch inventory user:', error));
+  }, [user?.id, isGuest]);
+
+  return (
+    <SessionContext.Provider value={{ session, user, isGuest, loading }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+export function useSession(): SessionState {
+  const session = useContext(SessionContext);
+  if (!session) {
+    throw new Error('useSession must be used inside a SessionProvider');
+  }
+  return session;
+}
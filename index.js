@@ -1,9 +1,55 @@
+import React, { useEffect } from 'react';
+import { ActivityIndicator, View } from 'react-native';
 import { registerRootComponent } from 'expo';
 import './global.css';
 
 import App from './App';
+import AuthScreen from './screens/AuthScreen';
+import { ServicesProvider } from './context/ServicesContext';
+import { SessionProvider, useSession } from './context/SessionContext';
+import { isSupabaseConfigured } from './lib/supabase';
+import { createDefaultServices } from './services/defaultServices';
+import { startInventorySync } from './services/inventorySync';
 
-// registerRootComponent calls AppRegistry.registerComponent('main', () => App);
+// Screens get the inventory and product analysis backends from context,
+// so tests can render them with in-memory implementations instead
+const services = createDefaultServices();
+
+// The app needs a signed-in user (or guest) to save and sync inventory.
+// Without Supabase configured there is nobody to sign in to, so the app
+// runs on its local inventory only.
+function SessionGate() {
+  const { session, loading } = useSession();
+
+  if (!isSupabaseConfigured()) {
+    return <App />;
+  }
+
+  if (loading) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return session ? <App /> : <AuthScreen />;
+}
+
+function Root() {
+  // Replay offline inventory changes whenever the connection comes back
+  useEffect(() => startInventorySync(), []);
+
+  return (
+    <SessionProvider>
+      <ServicesProvider services={services}>
+        <SessionGate />
+      </ServicesProvider>
+    </SessionProvider>
+  );
+}
+
+// registerRootComponent calls AppRegistry.registerComponent('main', () => Root);
 // It also ensures that whether you load the app in Expo Go or in a native build,
 // the environment is set up appropriately
-registerRootComponent(App);
+registerRootComponent(Root);
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
 import Constants from 'expo-constants';
 import { Database } from '../types/supabase';
 
@@ -76,6 +78,8 @@ let supabaseClient;
 try {
   supabaseClient = createClient<Database>(finalUrl, finalKey, {
     auth: {
+      // Keep the session across app restarts
+      storage: AsyncStorage,
       autoRefreshToken: isConfigured,
       persistSession: isConfigured,
       detectSessionInUrl: false,
@@ -95,6 +99,18 @@ try {
 
 export const supabase = supabaseClient;
 
+// React Native has no visibility events, so tell the client when the app is
+// in the foreground; tokens are only refreshed while it is
+if (isConfigured) {
+  AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      supabase.auth.startAutoRefresh();
+    } else {
+      supabase.auth.stopAutoRefresh();
+    }
+  });
+}
+
 // Export a function to check if Supabase is properly configured
 export const isSupabaseConfigured = (): boolean => {
   return isConfigured;
@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useSession } from '../context/SessionContext';
+import AuthScreen from './AuthScreen';
+import {
+  getPasswordError,
+  getUnsyncedChangeCount,
+  isValidEmail,
+  setAccountPassword,
+  signOut,
+  upgradeGuestAccount,
+} from '../services/auth';
+
+interface AccountScreenProps {
+  onBack: () => void;
+}
+
+export default function AccountScreen({ onBack }: AccountScreenProps) {
+  const { user, isGuest } = useSession();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [upgradeSentTo, setUpgradeSentTo] = useState<string | null>(null);
+  const [showSignIn, setShowSignIn] = useState(false);
+
+  // A guest signing in to an existing account; their items are carried over
+  // and this screen comes back once the session is no longer a guest's
+  if (showSignIn && isGuest) {
+    return <AuthScreen onBack={() => setShowSignIn(false)} />;
+  }
+
+  const handleUpgrade = async () => {
+    if (!isValidEmail(email)) {
+      Alert.alert('Invalid Email', 'Please enter a valid email address.');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await upgradeGuestAccount(email);
+      setUpgradeSentTo(email.trim());
+    } catch (error) {
+      Alert.alert('Upgrade Failed', error instanceof Error ? error.message : 'Failed to upgrade your account.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSetPassword = async () => {
+    const passwordError = getPasswordError(password);
+    if (passwordError) {
+      Alert.alert('Invalid Password', passwordError);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await setAccountPassword(password);
+      setPassword('');
+      Alert.alert('Password Saved', 'You can now sign in with your email and password.');
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to set password.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmSignOut = async () => {
+    setBusy(true);
+    let unsynced = 0;
+    try {
+      unsynced = await getUnsyncedChangeCount();
+    } catch (error) {
+      console.error('Error checking unsynced changes:', error);
+    } finally {
+      setBusy(false);
+    }
+
+    const warning = isGuest
+      ? 'You are signed in as a guest. Signing out deletes your guest inventory for good.'
+      : unsynced > 0
+        ? `${unsynced} change${unsynced === 1 ? ' has' : 's have'} not been synced yet and will be lost.`
+        : 'Your inventory will be removed from this device until you sign in again.';
+
+    Alert.alert('Sign Out?', warning, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await signOut();
+          } catch (error) {
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to sign out.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Account</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Signed in as</Text>
+          <Text style={styles.accountText}>{isGuest ? 'Guest' : user?.email || 'Unknown user'}</Text>
+          {user?.new_email && (
+            <Text style={styles.hintText}>Waiting for confirmation of {user.new_email}</Text>
+          )}
+        </View>
+
+        {isGuest ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Create an Account</Text>
+            <Text style={styles.descriptionText}>
+              Add your email to keep your inventory if you lose this device. Everything you have saved stays.
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={email}
+              onChangeText={setEmail}
+              placeholder="you@example.com"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+              textContentType="emailAddress"
+              editable={!busy}
+            />
+            {upgradeSentTo && (
+              <Text style={styles.noticeText}>
+                We sent a confirmation link to {upgradeSentTo}. Open it on this device to finish.
+              </Text>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, busy && styles.buttonDisabled]}
+              onPress={handleUpgrade}
+              disabled={busy}
+            >
+              {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.primaryButtonText}>Create Account</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.linkButton} onPress={() => setShowSignIn(true)} disabled={busy}>
+              <Text style={styles.linkButtonText}>I already have an account</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Password</Text>
+            <Text style={styles.descriptionText}>
+              Set a password to sign in without an email link.
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={password}
+              onChangeText={setPassword}
+              placeholder="At least 6 characters"
+              secureTextEntry
+              textContentType="newPassword"
+              editable={!busy}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, busy && styles.buttonDisabled]}
+              onPress={handleSetPassword}
+              disabled={busy}
+            >
+              {busy ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.primaryButtonText}>Save Password</Text>}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.signOutButton, busy && styles.buttonDisabled]}
+          onPress={confirmSignOut}
+          disabled={busy}
+        >
+          <Text style={styles.signOutButtonText}>Sign Out</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingTop: 50,
+    paddingBottom: 15,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 15,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+  },
+  content: {
+    padding: 15,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  accountText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  descriptionText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  noticeText: {
+    fontSize: 14,
+    color: '#34C759',
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  linkButtonText: {
+    color: '#007AFF',
+    fontSize: 15,
+  },
+  signOutButton: {
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+  },
+  signOutButtonText: {
+    color: '#FF3B30',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
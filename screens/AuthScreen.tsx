@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import {
+  getPasswordError,
+  isValidEmail,
+  sendMagicLink,
+  signInAsGuest,
+  signInWithPassword,
+  signUpWithPassword,
+} from '../services/auth';
+
+interface AuthScreenProps {
+  onBack?: () => void; // Shown when a guest opens the screen to sign in to an existing account
+}
+
+type AuthMode = 'sign_in' | 'sign_up' | 'magic_link';
+
+const MODES: { value: AuthMode; label: string }[] = [
+  { value: 'sign_in', label: 'Sign In' },
+  { value: 'sign_up', label: 'Create Account' },
+  { value: 'magic_link', label: 'Email Link' },
+];
+
+export default function AuthScreen({ onBack }: AuthScreenProps) {
+  const [mode, setMode] = useState<AuthMode>('sign_in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+  const isGuestSignIn = !!onBack;
+
+  // Runs an auth call; on success the session change swaps this screen out
+  const run = async (title: string, action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert(title, error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!isValidEmail(email)) {
+      Alert.alert('Invalid Email', 'Please enter a valid email address.');
+      return;
+    }
+
+    if (mode === 'magic_link') {
+      run('Sign In Failed', async () => {
+        await sendMagicLink(email);
+        setLinkSentTo(email.trim());
+      });
+      return;
+    }
+
+    if (mode === 'sign_up') {
+      const passwordError = getPasswordError(password);
+      if (passwordError) {
+        Alert.alert('Invalid Password', passwordError);
+        return;
+      }
+      run('Sign Up Failed', async () => {
+        const session = await signUpWithPassword(email, password);
+        if (!session) {
+          setLinkSentTo(email.trim());
+        }
+      });
+      return;
+    }
+
+    if (!password) {
+      Alert.alert('Missing Password', 'Please enter your password.');
+      return;
+    }
+    run('Sign In Failed', async () => {
+      await signInWithPassword(email, password);
+    });
+  };
+
+  const submitLabel = mode === 'sign_in' ? 'Sign In' : mode === 'sign_up' ? 'Create Account' : 'Send Sign-In Link';
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        {onBack && (
+          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+        )}
+        <Text style={styles.headerTitle}>{isGuestSignIn ? 'Sign In to Account' : 'ExpiryScanner'}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.introText}>
+          {isGuestSignIn
+            ? 'Sign in to an existing account. The items in your guest inventory will be added to it.'
+            : 'Sign in to keep your inventory in sync across devices.'}
+        </Text>
+
+        <View style={styles.modeRow}>
+          {MODES.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.modeButton, mode === option.value && styles.modeButtonSelected]}
+              onPress={() => {
+                setMode(option.value);
+                setLinkSentTo(null);
+              }}
+            >
+              <Text style={[styles.modeButtonText, mode === option.value && styles.modeButtonTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Email</Text>
+          <TextInput
+            style={styles.input}
+            value={email}
+            onChangeText={setEmail}
+            placeholder="you@example.com"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="email-address"
+            textContentType="emailAddress"
+            editable={!busy}
+          />
+
+          {mode !== 'magic_link' && (
+            <>
+              <Text style={styles.label}>Password</Text>
+              <TextInput
+                style={styles.input}
+                value={password}
+                onChangeText={setPassword}
+                placeholder={mode === 'sign_up' ? 'At least 6 characters' : 'Password'}
+                secureTextEntry
+                textContentType={mode === 'sign_up' ? 'newPassword' : 'password'}
+                editable={!busy}
+              />
+            </>
+          )}
+
+          {linkSentTo && (
+            <Text style={styles.noticeText}>
+              {mode === 'sign_up'
+                ? `We sent a confirmation link to ${linkSentTo}. Open it on this device to finish creating your account.`
+                : `We sent a sign-in link to ${linkSentTo}. Open it on this device to sign in.`}
+            </Text>
+          )}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, busy && styles.buttonDisabled]}
+            onPress={handleSubmit}
+            disabled={busy}
+          >
+            {busy ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.primaryButtonText}>{submitLabel}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {!isGuestSignIn && (
+          <>
+            <TouchableOpacity
+              style={[styles.secondaryButton, busy && styles.buttonDisabled]}
+              onPress={() => run('Guest Sign In Failed', async () => {
+                await signInAsGuest();
+              })}
+              disabled={busy}
+            >
+              <Text style={styles.secondaryButtonText}>Continue as Guest</Text>
+            </TouchableOpacity>
+            <Text style={styles.hintText}>
+              Guests can create an account later without losing their inventory.
+            </Text>
+          </>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingTop: 50,
+    paddingBottom: 15,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 15,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+  },
+  content: {
+    padding: 15,
+    paddingBottom: 40,
+  },
+  introText: {
+    fontSize: 15,
+    color: '#666',
+    marginBottom: 15,
+    lineHeight: 21,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    marginBottom: 15,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+    marginHorizontal: 3,
+    borderRadius: 8,
+  },
+  modeButtonSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF10',
+  },
+  modeButtonText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '500',
+  },
+  modeButtonTextSelected: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 15,
+    backgroundColor: '#FFFFFF',
+  },
+  noticeText: {
+    fontSize: 14,
+    color: '#34C759',
+    marginBottom: 15,
+    lineHeight: 20,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 10,
+  },
+});
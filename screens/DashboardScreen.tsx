@@ -0,0 +1,461 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import {
+  WastePerWeekRow,
+  WasteByCategoryRow,
+  WasteByLocationRow,
+  TopWastedProductRow,
+  ConsumptionSummaryRow,
+} from '../types/supabase';
+import {
+  getWastePerWeek,
+  getWasteByCategory,
+  getWasteByLocation,
+  getTopWastedProducts,
+  getConsumptionSummary,
+} from '../services/analytics';
+import { toISODate } from '../utils/shelfLife';
+
+interface DashboardScreenProps {
+  onBack: () => void;
+}
+
+type SummaryPeriod = '30d' | '90d' | 'all';
+
+const WEEKS_SHOWN = 8;
+
+const PERIOD_LABELS: Record<SummaryPeriod, string> = {
+  '30d': '30 days',
+  '90d': '90 days',
+  all: 'All time',
+};
+
+export default function DashboardScreen({ onBack }: DashboardScreenProps) {
+  const [summary, setSummary] = useState<ConsumptionSummaryRow | null>(null);
+  const [weekly, setWeekly] = useState<WastePerWeekRow[]>([]);
+  const [byCategory, setByCategory] = useState<WasteByCategoryRow[]>([]);
+  const [byLocation, setByLocation] = useState<WasteByLocationRow[]>([]);
+  const [topProducts, setTopProducts] = useState<TopWastedProductRow[]>([]);
+  const [period, setPeriod] = useState<SummaryPeriod>('30d');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Load breakdowns on mount
+  useEffect(() => {
+    loadDashboard();
+  }, []);
+
+  // Reload the summary when the period changes
+  useEffect(() => {
+    loadSummary();
+  }, [period]);
+
+  const getPeriodStart = (): Date | undefined => {
+    if (period === 'all') return undefined;
+    const since = new Date();
+    since.setDate(since.getDate() - (period === '30d' ? 30 : 90));
+    return since;
+  };
+
+  const loadSummary = async () => {
+    try {
+      setSummary(await getConsumptionSummary(getPeriodStart()));
+    } catch (error) {
+      console.error('Error loading consumption summary:', error);
+    }
+  };
+
+  const loadDashboard = async () => {
+    try {
+      const [weeklyRows, categoryRows, locationRows, productRows] = await Promise.all([
+        getWastePerWeek(WEEKS_SHOWN),
+        getWasteByCategory(),
+        getWasteByLocation(),
+        getTopWastedProducts(5),
+      ]);
+      setWeekly(weeklyRows);
+      setByCategory(categoryRows.filter((row) => row.wasted_items > 0));
+      setByLocation(locationRows);
+      setTopProducts(productRows);
+    } catch (error) {
+      console.error('Error loading dashboard:', error);
+      Alert.alert('Error', 'Failed to load waste statistics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([loadDashboard(), loadSummary()]);
+    setRefreshing(false);
+  };
+
+  // One bar per week for the last WEEKS_SHOWN weeks, including empty weeks
+  const getWeeklyBars = (): { label: string; count: number }[] => {
+    const monday = new Date();
+    monday.setHours(0, 0, 0, 0);
+    monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+
+    const bars = [];
+    for (let i = WEEKS_SHOWN - 1; i >= 0; i--) {
+      const weekStart = new Date(monday);
+      weekStart.setDate(monday.getDate() - i * 7);
+      const key = toISODate(weekStart);
+      const row = weekly.find((w) => w.week_start === key);
+      bars.push({
+        label: weekStart.toLocaleDateString('en-US', { day: 'numeric', month: 'short' }),
+        count: row ? row.wasted_items : 0,
+      });
+    }
+    return bars;
+  };
+
+  const renderBarList = (rows: { label: string; count: number }[], color: string) => {
+    const max = Math.max(1, ...rows.map((row) => row.count));
+    return rows.map((row) => (
+      <View key={row.label} style={styles.barRow}>
+        <Text style={styles.barLabel} numberOfLines={1}>{row.label}</Text>
+        <View style={styles.barTrack}>
+          <View style={[styles.barFill, { width: `${(row.count / max) * 100}%`, backgroundColor: color }]} />
+        </View>
+        <Text style={styles.barValue}>{row.count}</Text>
+      </View>
+    ));
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backButtonText}>← Back</Text>
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Waste Dashboard</Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        {header}
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading statistics...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const weeklyBars = getWeeklyBars();
+  const maxWeekly = Math.max(1, ...weeklyBars.map((bar) => bar.count));
+
+  return (
+    <View style={styles.container}>
+      {header}
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {/* Summary */}
+        <View style={styles.card}>
+          <View style={styles.periodRow}>
+            {(Object.keys(PERIOD_LABELS) as SummaryPeriod[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.periodButton, period === option && styles.periodButtonActive]}
+                onPress={() => setPeriod(option)}
+              >
+                <Text style={[styles.periodText, period === option && styles.periodTextActive]}>
+                  {PERIOD_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.bigNumber}>
+            {summary ? `${summary.consumed_before_expiry_pct}%` : '–'}
+          </Text>
+          <Text style={styles.bigNumberLabel}>consumed before expiry</Text>
+
+          <View style={styles.statsRow}>
+            <View style={styles.stat}>
+              <Text style={[styles.statValue, { color: '#34C759' }]}>{summary?.consumed_items ?? 0}</Text>
+              <Text style={styles.statLabel}>Consumed</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={[styles.statValue, { color: '#FF3B30' }]}>{summary?.wasted_items ?? 0}</Text>
+              <Text style={styles.statLabel}>Wasted</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={[styles.statValue, { color: '#007AFF' }]}>{summary?.donated_items ?? 0}</Text>
+              <Text style={styles.statLabel}>Donated</Text>
+            </View>
+          </View>
+        </View>
+
+        {/* Wasted per week */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Items wasted per week</Text>
+          <View style={styles.weekChart}>
+            {weeklyBars.map((bar) => (
+              <View key={bar.label} style={styles.weekColumn}>
+                <Text style={styles.weekValue}>{bar.count > 0 ? bar.count : ''}</Text>
+                <View style={styles.weekTrack}>
+                  <View style={[styles.weekFill, { height: `${(bar.count / maxWeekly) * 100}%` }]} />
+                </View>
+                <Text style={styles.weekLabel}>{bar.label}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* Waste by category */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Waste by category</Text>
+          {byCategory.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing wasted yet 🎉</Text>
+          ) : (
+            renderBarList(
+              byCategory.map((row) => ({
+                label: `${row.category} (${Math.round(row.waste_rate * 100)}%)`,
+                count: row.wasted_items,
+              })),
+              '#FF9500'
+            )
+          )}
+        </View>
+
+        {/* Waste by location */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Waste by storage location</Text>
+          {byLocation.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing wasted yet 🎉</Text>
+          ) : (
+            renderBarList(
+              byLocation.map((row) => ({ label: row.location_name, count: row.wasted_items })),
+              '#5856D6'
+            )
+          )}
+        </View>
+
+        {/* Most wasted products */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Most wasted products</Text>
+          {topProducts.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing wasted yet 🎉</Text>
+          ) : (
+            topProducts.map((product, index) => (
+              <View key={product.product_name} style={styles.productRow}>
+                <Text style={styles.productRank}>{index + 1}</Text>
+                <Text style={styles.productName} numberOfLines={1}>{product.product_name}</Text>
+                <Text style={styles.productCount}>{product.wasted_count}×</Text>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingTop: 50,
+    paddingBottom: 15,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 15,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 10,
+    color: '#666',
+  },
+  content: {
+    padding: 15,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 12,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 15,
+  },
+  periodButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  periodButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  periodText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  periodTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  bigNumber: {
+    fontSize: 40,
+    fontWeight: '700',
+    color: '#000',
+    textAlign: 'center',
+  },
+  bigNumberLabel: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  stat: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  weekChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+    height: 140,
+  },
+  weekColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  weekValue: {
+    fontSize: 11,
+    color: '#666',
+    marginBottom: 2,
+  },
+  weekTrack: {
+    width: 18,
+    height: 90,
+    justifyContent: 'flex-end',
+  },
+  weekFill: {
+    width: '100%',
+    backgroundColor: '#FF3B30',
+    borderRadius: 4,
+  },
+  weekLabel: {
+    fontSize: 10,
+    color: '#666',
+    marginTop: 4,
+  },
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  barLabel: {
+    width: 110,
+    fontSize: 13,
+    color: '#000',
+  },
+  barTrack: {
+    flex: 1,
+    height: 10,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 5,
+    overflow: 'hidden',
+    marginHorizontal: 8,
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 5,
+  },
+  barValue: {
+    width: 28,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#000',
+    textAlign: 'right',
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F5F5F5',
+  },
+  productRank: {
+    width: 24,
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#666',
+  },
+  productName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#000',
+  },
+  productCount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+  },
+});
@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { InventoryRow, InventoryStatus } from '../types/supabase';
+import { useInventoryRepository } from '../context/ServicesContext';
+
+interface HistoryScreenProps {
+  onBack: () => void;
+}
+
+type HistoryFilter = 'all' | Exclude<InventoryStatus, 'active'>;
+
+const STATUS_STYLES: Record<Exclude<InventoryStatus, 'active'>, { color: string; label: string }> = {
+  consumed: { color: '#34C759', label: 'Consumed' },
+  wasted: { color: '#FF3B30', label: 'Wasted' },
+  donated: { color: '#007AFF', label: 'Donated' },
+};
+
+export default function HistoryScreen({ onBack }: HistoryScreenProps) {
+  const repository = useInventoryRepository();
+  const [history, setHistory] = useState<InventoryRow[]>([]);
+  const [filter, setFilter] = useState<HistoryFilter>('all');
+  const [loading, setLoading] = useState(true);
+
+  // Load history on mount
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      const items = await repository.getHistory();
+      setHistory(items);
+    } catch (error) {
+      console.error('Error loading history:', error);
+      Alert.alert('Error', 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleItemPress = (item: InventoryRow) => {
+    Alert.alert(
+      item.product_name || 'Unknown Product',
+      'Put this item back in your inventory?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await repository.deleteItem(item.id);
+              setHistory((current) => current.filter((i) => i.id !== item.id));
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete item');
+            }
+          },
+        },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            try {
+              await repository.restoreItem(item.id);
+              setHistory((current) => current.filter((i) => i.id !== item.id));
+            } catch (error) {
+              Alert.alert('Error', 'Failed to restore item');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDate = (dateString: string | null): string => {
+    if (!dateString) return 'Unknown date';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const visibleHistory = filter === 'all'
+    ? history
+    : history.filter((item) => item.status === filter);
+
+  const renderItem = ({ item }: { item: InventoryRow }) => {
+    const statusStyle = STATUS_STYLES[item.status as Exclude<InventoryStatus, 'active'>];
+
+    return (
+      <TouchableOpacity style={styles.historyRow} onPress={() => handleItemPress(item)}>
+        <View style={styles.historyInfo}>
+          <Text style={styles.productName}>{item.product_name || 'Unknown Product'}</Text>
+          <Text style={styles.historyMeta}>
+            {statusStyle.label} on {formatDate(item.status_changed_at)}
+            {Number(item.quantity) > 0 ? ` · ${Number(item.quantity)} ${item.unit}` : ''}
+          </Text>
+          {item.status_reason && (
+            <Text style={styles.historyReason}>{item.status_reason}</Text>
+          )}
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: statusStyle.color + '20' }]}>
+          <Text style={[styles.statusBadgeText, { color: statusStyle.color }]}>
+            {statusStyle.label}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>History</Text>
+      </View>
+
+      {/* Status Filter */}
+      <View style={styles.controlsBar}>
+        {(['all', 'consumed', 'wasted', 'donated'] as HistoryFilter[]).map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.controlButton, filter === option && styles.controlButtonActive]}
+            onPress={() => setFilter(option)}
+          >
+            <Text style={styles.controlButtonText}>
+              {option === 'all' ? 'All' : STATUS_STYLES[option].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading history...</Text>
+        </View>
+      ) : visibleHistory.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No history yet</Text>
+          <Text style={styles.emptySubtext}>
+            Items you consume, waste or donate will appear here
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={visibleHistory}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContainer}
+          refreshing={false}
+          onRefresh={loadHistory}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingTop: 50,
+    paddingBottom: 15,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 15,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+  },
+  controlsBar: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    gap: 8,
+  },
+  controlButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  controlButtonActive: {
+    backgroundColor: '#007AFF20',
+  },
+  controlButtonText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 10,
+    color: '#666',
+  },
+  listContainer: {
+    padding: 10,
+  },
+  historyRow: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  historyInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  productName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 4,
+  },
+  historyMeta: {
+    fontSize: 14,
+    color: '#666',
+  },
+  historyReason: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+    fontStyle: 'italic',
+  },
+  statusBadge: {
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
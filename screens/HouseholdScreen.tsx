@@ -0,0 +1,504 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import { HouseholdMemberWithEmailRow, HouseholdRole } from '../types/supabase';
+import { useSession } from '../context/SessionContext';
+import {
+  HOUSEHOLD_ROLES,
+  Household,
+  createHousehold,
+  deleteHousehold,
+  getCurrentHousehold,
+  getHouseholdMembers,
+  getHouseholds,
+  joinHousehold,
+  leaveHousehold,
+  refreshHouseholds,
+  removeHouseholdMember,
+  resetInviteCode,
+  setCurrentHousehold,
+  setHouseholdMemberRole,
+  subscribeToHouseholds,
+} from '../services/households';
+
+interface HouseholdScreenProps {
+  onBack: () => void;
+}
+
+export default function HouseholdScreen({ onBack }: HouseholdScreenProps) {
+  const { user } = useSession();
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [current, setCurrent] = useState<Household | null>(null);
+  const [members, setMembers] = useState<HouseholdMemberWithEmailRow[]>([]);
+  const [newName, setNewName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const isOwner = current?.role === 'owner';
+
+  const loadCached = async () => {
+    setHouseholds(await getHouseholds());
+    setCurrent(await getCurrentHousehold());
+  };
+
+  // Show the cached households right away, then fetch the latest
+  useEffect(() => {
+    loadCached()
+      .then(() => refreshHouseholds())
+      .catch((error) => console.error('Error loading households:', error))
+      .finally(() => setLoading(false));
+
+    return subscribeToHouseholds(() => {
+      loadCached().catch((error) => console.error('Error reloading households:', error));
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!current) {
+      setMembers([]);
+      return;
+    }
+    getHouseholdMembers(current.id)
+      .then(setMembers)
+      .catch((error) => console.error('Error loading household members:', error));
+  }, [current?.id, current?.memberCount]);
+
+  // Runs a household change, showing its error if it fails
+  const run = async (title: string, action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert(title, error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim()) {
+      Alert.alert('Missing Name', 'Please enter a name for the household.');
+      return;
+    }
+    run('Error', async () => {
+      await createHousehold(newName);
+      setNewName('');
+    });
+  };
+
+  const handleJoin = () => {
+    if (!inviteCode.trim()) {
+      Alert.alert('Missing Code', 'Please enter the invite code you were given.');
+      return;
+    }
+    run('Could Not Join', async () => {
+      const joined = await joinHousehold(inviteCode);
+      setInviteCode('');
+      Alert.alert('Joined', `You are now a member of ${joined.name}.`);
+    });
+  };
+
+  const handleShareCode = (household: Household) => {
+    Share.share({
+      message: `Join "${household.name}" on ExpiryScanner with the invite code ${household.inviteCode}`,
+    }).catch((error) => console.error('Error sharing invite code:', error));
+  };
+
+  const handleResetCode = (household: Household) => {
+    Alert.alert('Reset Invite Code?', 'The current code will stop working. Members keep their access.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Reset', onPress: () => run('Error', async () => { await resetInviteCode(household.id); }) },
+    ]);
+  };
+
+  const handleChangeRole = (member: HouseholdMemberWithEmailRow, role: HouseholdRole) => {
+    if (!current || member.role === role) return;
+    run('Error', async () => {
+      await setHouseholdMemberRole(current.id, member.user_id, role);
+      setMembers(await getHouseholdMembers(current.id));
+    });
+  };
+
+  const handleRemoveMember = (member: HouseholdMemberWithEmailRow) => {
+    if (!current) return;
+    Alert.alert('Remove Member?', `${member.email || 'This guest'} will lose access to ${current.name}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => run('Error', async () => {
+          await removeHouseholdMember(current.id, member.user_id);
+          await refreshHouseholds();
+        }),
+      },
+    ]);
+  };
+
+  const handleLeave = (household: Household) => {
+    Alert.alert('Leave Household?', `You will no longer see the items in ${household.name}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Leave', style: 'destructive', onPress: () => run('Could Not Leave', () => leaveHousehold(household.id)) },
+    ]);
+  };
+
+  const handleDelete = (household: Household) => {
+    Alert.alert(
+      'Delete Household?',
+      `${household.name} and all of its items and locations will be deleted for every member.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => run('Error', () => deleteHousehold(household.id)) },
+      ]
+    );
+  };
+
+  if (loading && !current) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+            <Text style={styles.backButtonText}>← Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Households</Text>
+        </View>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Households</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Current household */}
+        {current && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{current.name}</Text>
+            <Text style={styles.descriptionText}>
+              You are {current.role === 'owner' ? 'an owner' : `a ${current.role}`} ·{' '}
+              {current.memberCount === 1 ? '1 member' : `${current.memberCount} members`}
+            </Text>
+
+            <Text style={styles.label}>Invite code</Text>
+            <View style={styles.codeRow}>
+              <Text style={styles.codeText}>{current.inviteCode}</Text>
+              <TouchableOpacity onPress={() => handleShareCode(current)}>
+                <Text style={styles.linkText}>Share</Text>
+              </TouchableOpacity>
+              {isOwner && (
+                <TouchableOpacity onPress={() => handleResetCode(current)} disabled={busy}>
+                  <Text style={styles.linkText}>Reset</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <Text style={styles.label}>Members</Text>
+            {members.map((member) => {
+              const isSelf = member.user_id === user?.id;
+              return (
+                <View key={member.user_id} style={styles.memberRow}>
+                  <Text style={styles.memberName} numberOfLines={1}>
+                    {member.email || 'Guest'}{isSelf ? ' (you)' : ''}
+                  </Text>
+                  {isOwner && !isSelf ? (
+                    <View style={styles.roleRow}>
+                      {HOUSEHOLD_ROLES.map((role) => (
+                        <TouchableOpacity
+                          key={role.value}
+                          style={[styles.roleChip, member.role === role.value && styles.roleChipSelected]}
+                          onPress={() => handleChangeRole(member, role.value)}
+                          disabled={busy}
+                        >
+                          <Text style={[styles.roleChipText, member.role === role.value && styles.roleChipTextSelected]}>
+                            {role.label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                      <TouchableOpacity onPress={() => handleRemoveMember(member)} disabled={busy}>
+                        <Text style={styles.removeText}>✕</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <Text style={styles.roleText}>
+                      {HOUSEHOLD_ROLES.find((role) => role.value === member.role)?.label}
+                    </Text>
+                  )}
+                </View>
+              );
+            })}
+
+            <View style={styles.dangerRow}>
+              <TouchableOpacity onPress={() => handleLeave(current)} disabled={busy}>
+                <Text style={styles.dangerText}>Leave household</Text>
+              </TouchableOpacity>
+              {isOwner && (
+                <TouchableOpacity onPress={() => handleDelete(current)} disabled={busy}>
+                  <Text style={styles.dangerText}>Delete household</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+
+        {/* Other households */}
+        {households.length > 1 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Your Households</Text>
+            {households.map((household) => (
+              <TouchableOpacity
+                key={household.id}
+                style={[styles.option, household.id === current?.id && styles.optionSelected]}
+                onPress={() => run('Error', () => setCurrentHousehold(household.id))}
+                disabled={busy}
+              >
+                <Text style={styles.optionLabel}>{household.name}</Text>
+                <Text style={styles.optionDescription}>
+                  {HOUSEHOLD_ROLES.find((role) => role.value === household.role)?.label} ·{' '}
+                  {household.memberCount === 1 ? '1 member' : `${household.memberCount} members`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* Join */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Join a Household</Text>
+          <TextInput
+            style={styles.input}
+            value={inviteCode}
+            onChangeText={setInviteCode}
+            placeholder="Invite code"
+            autoCapitalize="characters"
+            autoCorrect={false}
+            editable={!busy}
+          />
+          <TouchableOpacity
+            style={[styles.primaryButton, busy && styles.buttonDisabled]}
+            onPress={handleJoin}
+            disabled={busy}
+          >
+            <Text style={styles.primaryButtonText}>Join</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Create */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Create a Household</Text>
+          <TextInput
+            style={styles.input}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="e.g. Office Kitchen"
+            editable={!busy}
+          />
+          <TouchableOpacity
+            style={[styles.primaryButton, busy && styles.buttonDisabled]}
+            onPress={handleCreate}
+            disabled={busy}
+          >
+            <Text style={styles.primaryButtonText}>Create</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingTop: 50,
+    paddingBottom: 15,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 15,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 15,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  descriptionText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#999',
+    textTransform: 'uppercase',
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  codeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 15,
+    marginBottom: 12,
+  },
+  codeText: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#000',
+  },
+  linkText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  memberRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  memberName: {
+    fontSize: 15,
+    color: '#000',
+    marginBottom: 4,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  roleChip: {
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  roleChipSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF10',
+  },
+  roleChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  roleChipTextSelected: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  roleText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  removeText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    marginLeft: 6,
+  },
+  dangerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 15,
+  },
+  dangerText: {
+    fontSize: 15,
+    color: '#FF3B30',
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF10',
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
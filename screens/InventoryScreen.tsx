@@ -7,52 +7,156 @@ import {
   TouchableOpacity,
   ScrollView,
   FlatList,
+  SectionList,
   Modal,
   Alert,
   ActivityIndicator,
 } from 'react-native';
-import { InventoryRow } from '../types/supabase';
+import { InventoryRow, InventoryStatus, StorageLocationRow } from '../types/supabase';
+import { useInventoryRepository } from '../context/ServicesContext';
+import { ensureDefaultStorageLocations, getExpiryForLocation } from '../services/locations';
+import { getNotificationPreferences } from '../services/notificationPreferences';
 import {
-  getInventoryItems,
-  searchInventoryItems,
-  deleteInventoryItem,
-  filterInventoryByCategory,
-} from '../services/inventory';
+  Household,
+  getCurrentHousehold,
+  getHouseholds,
+  setCurrentHousehold,
+  subscribeToHouseholds,
+} from '../services/households';
+import {
+  NotificationPreferences,
+  getDefaultNotificationPreferences,
+  getLeadDays,
+} from '../utils/reminderPreferences';
+import { WASTE_REASONS } from '../utils/inventoryItems';
+import { EXPIRY_DATE_TYPE_LABELS, getEffectiveExpiry } from '../utils/shelfLife';
+import SwipeableCard from '../components/SwipeableCard';
+import HistoryScreen from './HistoryScreen';
+import HouseholdScreen from './HouseholdScreen';
+import ItemDetailScreen from './ItemDetailScreen';
 
 interface InventoryScreenProps {
   onBack: () => void;
 }
 
 type SortOption = 'newest' | 'oldest' | 'expiring' | 'name';
+
+// How long items changed on another device stay highlighted
+const REMOTE_HIGHLIGHT_MS = 4000;
 type FilterCategory = string | null;
 
 export default function InventoryScreen({ onBack }: InventoryScreenProps) {
+  const repository = useInventoryRepository();
   const [inventory, setInventory] = useState<InventoryRow[]>([]);
   const [filteredInventory, setFilteredInventory] = useState<InventoryRow[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
   const [sortOption, setSortOption] = useState<SortOption>('newest');
   const [selectedCategories, setSelectedCategories] = useState<FilterCategory[]>([]);
+  const [locations, setLocations] = useState<StorageLocationRow[]>([]);
+  const [selectedLocationIds, setSelectedLocationIds] = useState<string[]>([]);
+  const [groupByLocation, setGroupByLocation] = useState(false);
+  const [moveTarget, setMoveTarget] = useState<InventoryRow | null>(null);
+  const [actionTarget, setActionTarget] = useState<InventoryRow | null>(null);
+  const [choosingWasteReason, setChoosingWasteReason] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showHouseholds, setShowHouseholds] = useState(false);
+  const [detailItemId, setDetailItemId] = useState<string | null>(null);
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [currentHousehold, setCurrentHouseholdState] = useState<Household | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
+  const [offline, setOffline] = useState(false);
+  const [consumeTarget, setConsumeTarget] = useState<InventoryRow | null>(null);
+  const [consumeAmount, setConsumeAmount] = useState('1');
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPreferences>(
+    getDefaultNotificationPreferences()
+  );
 
-  // Load inventory on mount
+  // Viewers see the household's items but cannot change them
+  const readOnly = currentHousehold?.role === 'viewer';
+
+  // Load inventory and notification preferences on mount
   useEffect(() => {
     loadInventory();
+    repository.sync().catch((error) => console.error('Error syncing inventory:', error));
+    // Lead times decide when an item is shown as expiring soon
+    getNotificationPreferences()
+      .then(setNotificationPrefs)
+      .catch((error) => console.error('Error loading notification preferences:', error));
+  }, []);
+
+  // Track the user's households and which one is shown
+  useEffect(() => {
+    const loadHouseholds = async () => {
+      setHouseholds(await getHouseholds());
+      setCurrentHouseholdState(await getCurrentHousehold());
+    };
+    loadHouseholds().catch((error) => console.error('Error loading households:', error));
+    return subscribeToHouseholds(() => {
+      loadHouseholds().catch((error) => console.error('Error reloading households:', error));
+    });
   }, []);
 
+  // Storage locations belong to a household, so reload them on every switch
+  useEffect(() => {
+    setSelectedLocationIds([]);
+    ensureDefaultStorageLocations()
+      .then(setLocations)
+      .catch((error) => console.error('Error loading storage locations:', error));
+  }, [currentHousehold?.id]);
+
+  // Reload from the local store whenever it changes (local writes, sync,
+  // household switch)
+  useEffect(() => {
+    return repository.subscribe(() => {
+      repository.getItems()
+        .then(setInventory)
+        .catch((error) => console.error('Error reloading inventory:', error));
+      repository.getPendingItemIds()
+        .then(setPendingIds)
+        .catch((error) => console.error('Error loading sync state:', error));
+    });
+  }, [repository]);
+
+  // Highlight items a household member changed elsewhere; the store
+  // listener above already reloads them into the list
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const unsubscribe = repository.subscribeToRemoteChanges((itemIds) => {
+      setHighlightedIds((current) => new Set([...current, ...itemIds]));
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setHighlightedIds((current) => {
+          const next = new Set(current);
+          itemIds.forEach((id) => next.delete(id));
+          return next;
+        });
+      }, REMOTE_HIGHLIGHT_MS);
+      timers.add(timer);
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, [repository]);
+
   // Apply search, filter, and sort when dependencies change
   useEffect(() => {
     applyFiltersAndSort();
-  }, [inventory, searchQuery, sortOption, selectedCategories]);
+  }, [inventory, searchQuery, sortOption, selectedCategories, selectedLocationIds]);
 
   const loadInventory = async () => {
     try {
       setLoading(true);
-      const items = await getInventoryItems();
+      const items = await repository.getItems();
       setInventory(items);
       setFilteredInventory(items);
+      setPendingIds(await repository.getPendingItemIds());
     } catch (error) {
       console.error('Error loading inventory:', error);
       Alert.alert('Error', 'Failed to load inventory items');
@@ -61,6 +165,19 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
     }
   };
 
+  const handleRefresh = async () => {
+    try {
+      setRefreshing(true);
+      const result = await repository.sync();
+      setOffline(!result.online);
+    } catch (error) {
+      console.error('Error syncing inventory:', error);
+      Alert.alert('Error', 'Failed to sync inventory');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
   const handleSearch = async (query: string) => {
     setSearchQuery(query);
     
@@ -70,7 +187,7 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
     }
 
     try {
-      const results = await searchInventoryItems(query);
+      const results = await repository.search(query);
       setFilteredInventory(results);
       
       // Add to recent searches if not empty and not already in list
@@ -102,6 +219,13 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
       );
     }
 
+    // Apply location filters
+    if (selectedLocationIds.length > 0) {
+      filtered = filtered.filter(
+        (item) => item.location_id !== null && selectedLocationIds.includes(item.location_id)
+      );
+    }
+
     // Apply sorting
     filtered.sort((a, b) => {
       switch (sortOption) {
@@ -109,9 +233,13 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
           return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
         case 'oldest':
           return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-        case 'expiring':
-          if (!a.expiry_date || !b.expiry_date) return 0;
-          return new Date(a.expiry_date).getTime() - new Date(b.expiry_date).getTime();
+        case 'expiring': {
+          // Opened items are due by their opened-by date if it comes first
+          const aDate = getEffectiveExpiry(a).date;
+          const bDate = getEffectiveExpiry(b).date;
+          if (!aDate || !bDate) return 0;
+          return new Date(aDate).getTime() - new Date(bDate).getTime();
+        }
         case 'name':
           return (a.product_name || '').localeCompare(b.product_name || '');
         default:
@@ -122,10 +250,39 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
     setFilteredInventory(filtered);
   };
 
+  const closeItem = async (item: InventoryRow, status: InventoryStatus, reason?: string) => {
+    setActionTarget(null);
+    setChoosingWasteReason(false);
+    try {
+      const updated = await repository.setStatus(item.id, status, reason);
+      applyUpdatedItem(updated);
+    } catch (error) {
+      console.error('Error closing item:', error);
+      Alert.alert('Error', 'Failed to update item');
+    }
+  };
+
+  const handleMarkOpened = async (item: InventoryRow) => {
+    setActionTarget(null);
+    try {
+      const updated = await repository.markOpened(item.id);
+      applyUpdatedItem(updated);
+    } catch (error) {
+      console.error('Error marking item opened:', error);
+      Alert.alert('Error', 'Failed to update item');
+    }
+  };
+
+  const openItemActions = (item: InventoryRow) => {
+    setChoosingWasteReason(false);
+    setActionTarget(item);
+  };
+
   const handleDelete = (item: InventoryRow) => {
+    setActionTarget(null);
     Alert.alert(
       'Delete Item',
-      `Are you sure you want to delete "${item.product_name}"?`,
+      `Permanently delete "${item.product_name}"? It will not appear in your history.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -133,7 +290,7 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteInventoryItem(item.id);
+              await repository.deleteItem(item.id);
               await loadInventory();
             } catch (error) {
               Alert.alert('Error', 'Failed to delete item');
@@ -144,6 +301,100 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
     );
   };
 
+  // Replace an item in local state, dropping it once it is closed
+  const applyUpdatedItem = (updated: InventoryRow) => {
+    setInventory((current) =>
+      updated.status === 'active'
+        ? current.map((i) => (i.id === updated.id ? updated : i))
+        : current.filter((i) => i.id !== updated.id)
+    );
+  };
+
+  const handleConsume = async (item: InventoryRow, amount: number) => {
+    try {
+      const updated = await repository.consumeItem(item.id, amount);
+      applyUpdatedItem(updated);
+    } catch (error) {
+      console.error('Error consuming item:', error);
+      Alert.alert('Error', 'Failed to update quantity');
+    }
+  };
+
+  const handleIncrement = async (item: InventoryRow) => {
+    try {
+      const updated = await repository.updateItem(item.id, {
+        quantity: Number(item.quantity) + 1,
+      });
+      applyUpdatedItem(updated);
+    } catch (error) {
+      console.error('Error updating quantity:', error);
+      Alert.alert('Error', 'Failed to update quantity');
+    }
+  };
+
+  const openConsumeModal = (item: InventoryRow) => {
+    setConsumeTarget(item);
+    setConsumeAmount('1');
+  };
+
+  const submitConsume = async (amount: number) => {
+    if (!consumeTarget) return;
+    if (!(amount > 0)) {
+      Alert.alert('Invalid Amount', 'Please enter an amount greater than zero.');
+      return;
+    }
+    const target = consumeTarget;
+    setConsumeTarget(null);
+    await handleConsume(target, amount);
+  };
+
+  const getLocation = (id: string | null): StorageLocationRow | null => {
+    return locations.find((location) => location.id === id) || null;
+  };
+
+  const handleMove = async (item: InventoryRow, toLocation: StorageLocationRow) => {
+    setMoveTarget(null);
+    if (item.location_id === toLocation.id) return;
+
+    try {
+      // Moving can change the expiry (e.g. freezing extends it)
+      const expiryDate = await getExpiryForLocation(item, getLocation(item.location_id), toLocation);
+      const updated = await repository.updateItem(item.id, {
+        location_id: toLocation.id,
+        expiry_date: expiryDate,
+      });
+      applyUpdatedItem(updated);
+      if (updated.expiry_date !== item.expiry_date) {
+        Alert.alert(
+          'Expiry Updated',
+          `Moved to ${toLocation.name}. New expiry date: ${formatExpiryDate(updated.expiry_date)}`
+        );
+      }
+    } catch (error) {
+      console.error('Error moving item:', error);
+      Alert.alert('Error', 'Failed to move item');
+    }
+  };
+
+  // Split items into one section per location, two cards per row
+  const getLocationSections = () => {
+    const groups = [...locations, null].map((location) => {
+      const items = filteredInventory.filter((item) =>
+        location ? item.location_id === location.id : getLocation(item.location_id) === null
+      );
+      const rows: InventoryRow[][] = [];
+      for (let i = 0; i < items.length; i += 2) {
+        rows.push(items.slice(i, i + 2));
+      }
+      return { title: location ? location.name : 'No location', data: rows };
+    });
+    return groups.filter((group) => group.data.length > 0);
+  };
+
+  const formatQuantity = (item: InventoryRow): string => {
+    return `${Number(item.quantity)} ${item.unit}`;
+  };
+
   const getUniqueCategories = (): string[] => {
     const categories = inventory
       .map((item) => item.category)
@@ -172,46 +423,138 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
     return diffDays;
   };
 
-  const getExpiryStatus = (dateString: string | null): { color: string; text: string } => {
-    const days = getDaysUntilExpiry(dateString);
+  // Use by and opened-by dates are about safety, so passing them is urgent;
+  // past a best before date food is usually still fine, just past its best
+  const getExpiryStatus = (item: InventoryRow): { color: string; text: string } => {
+    const deadline = getEffectiveExpiry(item);
+    const days = getDaysUntilExpiry(deadline.date);
     if (days === null) return { color: '#666', text: 'No expiry date' };
-    if (days < 0) return { color: '#FF3B30', text: 'Expired' };
-    if (days === 0) return { color: '#FF9500', text: 'Expires today' };
-    if (days <= 3) return { color: '#FF9500', text: `Expires in ${days} days` };
-    return { color: '#34C759', text: `Expires in ${days} days` };
+    const soon = days <= getLeadDays(notificationPrefs, item.category);
+
+    if (deadline.source === 'opened' || item.expiry_date_type === 'use_by') {
+      if (days < 0) return { color: '#FF3B30', text: deadline.source === 'opened' ? 'Open too long' : 'Past use by' };
+      if (days === 0) return { color: '#FF3B30', text: 'Use today' };
+      return { color: soon ? '#FF9500' : '#34C759', text: `Use within ${days} days` };
+    }
+
+    if (days < 0) return { color: '#FF9500', text: 'Past best before' };
+    if (days === 0) return { color: '#FF9500', text: 'Best before today' };
+    return { color: soon ? '#D4A017' : '#34C759', text: `Best in ${days} days` };
   };
 
-  const renderItem = ({ item }: { item: InventoryRow }) => {
-    const expiryStatus = getExpiryStatus(item.expiry_date);
+  const renderItem = ({ item }: { item: InventoryRow }) => renderCard(item);
+
+  const renderCard = (item: InventoryRow) => {
+    const expiryStatus = getExpiryStatus(item);
+    const location = getLocation(item.location_id);
     
     return (
-      <TouchableOpacity
-        style={styles.productCard}
-        onLongPress={() => handleDelete(item)}
+      <SwipeableCard
+        key={item.id}
+        style={styles.cardContainer}
+        leftAction={readOnly ? undefined : { label: 'Consumed', color: '#34C759', onTrigger: () => closeItem(item, 'consumed') }}
+        rightAction={readOnly ? undefined : { label: 'Wasted', color: '#FF3B30', onTrigger: () => closeItem(item, 'wasted') }}
       >
-        <View style={styles.productImagePlaceholder}>
-          <Text style={styles.productImageIcon}>📦</Text>
-        </View>
-        <View style={styles.productInfo}>
-          <Text style={styles.productName}>{item.product_name || 'Unknown Product'}</Text>
-          <Text style={styles.expiryDate}>
-            Expire at {formatExpiryDate(item.expiry_date)}
-          </Text>
-          {item.category && (
-            <View style={styles.categoryBadge}>
-              <Text style={styles.categoryText}>{item.category}</Text>
+        <TouchableOpacity
+          style={[styles.productCard, highlightedIds.has(item.id) && styles.productCardHighlighted]}
+          onPress={() => setDetailItemId(item.id)}
+          onLongPress={readOnly ? undefined : () => openItemActions(item)}
+        >
+          <View style={styles.productImagePlaceholder}>
+            <Text style={styles.productImageIcon}>📦</Text>
+          </View>
+          <View style={styles.productInfo}>
+            <Text style={styles.productName}>{item.product_name || 'Unknown Product'}</Text>
+            <Text style={styles.expiryDate}>
+              {item.expiry_date
+                ? `${EXPIRY_DATE_TYPE_LABELS[item.expiry_date_type || 'best_before']} ${formatExpiryDate(item.expiry_date)}`
+                : formatExpiryDate(null)}
+              {item.opened_at ? `\nOpened ${formatExpiryDate(item.opened_at)}` : ''}
+              {item.opened_at && item.opened_shelf_life_days != null
+                ? ` · use within ${item.opened_shelf_life_days} days`
+                : ''}
+            </Text>
+            <View style={styles.badgeRow}>
+              {item.category && (
+                <View style={styles.categoryBadge}>
+                  <Text style={styles.categoryText}>{item.category}</Text>
+                </View>
+              )}
+              <TouchableOpacity
+                style={styles.locationBadge}
+                onPress={() => setMoveTarget(item)}
+                disabled={readOnly}
+              >
+                <Text style={styles.locationText}>
+                  📍 {location ? location.name : 'Set location'}
+                </Text>
+              </TouchableOpacity>
+              {pendingIds.has(item.id) && (
+                <View style={styles.unsyncedBadge}>
+                  <Text style={styles.unsyncedText}>Not synced</Text>
+                </View>
+              )}
+            </View>
+          </View>
+          {readOnly ? (
+            <View style={styles.quantityRow}>
+              <Text style={styles.quantityText}>{formatQuantity(item)}</Text>
+            </View>
+          ) : (
+            <View style={styles.quantityRow}>
+              <TouchableOpacity
+                style={styles.quantityButton}
+                onPress={() => handleConsume(item, 1)}
+              >
+                <Text style={styles.quantityButtonText}>−</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => openConsumeModal(item)}>
+                <Text style={styles.quantityText}>{formatQuantity(item)}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.quantityButton}
+                onPress={() => handleIncrement(item)}
+              >
+                <Text style={styles.quantityButtonText}>+</Text>
+              </TouchableOpacity>
             </View>
           )}
-        </View>
-        <View style={[styles.expiryStatus, { backgroundColor: expiryStatus.color + '20' }]}>
-          <Text style={[styles.expiryStatusText, { color: expiryStatus.color }]}>
-            {expiryStatus.text}
-          </Text>
-        </View>
-      </TouchableOpacity>
+          <View style={[styles.expiryStatus, { backgroundColor: expiryStatus.color + '20' }]}>
+            <Text style={[styles.expiryStatusText, { color: expiryStatus.color }]}>
+              {expiryStatus.text}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      </SwipeableCard>
     );
   };
 
+  if (showHistory) {
+    return (
+      <HistoryScreen
+        onBack={() => {
+          setShowHistory(false);
+          loadInventory();
+        }}
+      />
+    );
+  }
+
+  if (detailItemId) {
+    return (
+      <ItemDetailScreen
+        itemId={detailItemId}
+        locations={locations}
+        readOnly={readOnly}
+        onBack={() => setDetailItemId(null)}
+      />
+    );
+  }
+
+  if (showHouseholds) {
+    return <HouseholdScreen onBack={() => setShowHouseholds(false)} />;
+  }
+
   if (loading) {
     return (
       <View style={styles.container}>
@@ -237,8 +580,68 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
           <Text style={styles.backButtonText}>← Back</Text>
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Inventory</Text>
+        <View style={styles.headerSpacer} />
+        {currentHousehold && (
+          <TouchableOpacity onPress={() => setShowHouseholds(true)} style={styles.headerAction}>
+            <Text style={styles.backButtonText}>Household</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={() => setShowHistory(true)}>
+          <Text style={styles.backButtonText}>History</Text>
+        </TouchableOpacity>
       </View>
 
+      {/* Household Switcher */}
+      {households.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.householdBar}
+          contentContainerStyle={styles.householdBarContent}
+        >
+          {households.map((household) => (
+            <TouchableOpacity
+              key={household.id}
+              style={[styles.householdChip, household.id === currentHousehold?.id && styles.householdChipSelected]}
+              onPress={() => {
+                setCurrentHousehold(household.id)
+                  .catch((error) => console.error('Error switching household:', error));
+              }}
+            >
+              <Text
+                style={[
+                  styles.householdChipText,
+                  household.id === currentHousehold?.id && styles.householdChipTextSelected,
+                ]}
+              >
+                {household.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      {readOnly && (
+        <View style={styles.viewOnlyBanner}>
+          <Text style={styles.viewOnlyText}>
+            View only · ask an owner of {currentHousehold?.name} to make you an editor
+          </Text>
+        </View>
+      )}
+
+      {/* Sync Status */}
+      {pendingIds.size > 0 && (
+        <View style={styles.syncBanner}>
+          <Text style={styles.syncBannerText}>
+            {pendingIds.size === 1 ? '1 item' : `${pendingIds.size} items`} not synced yet
+            {offline ? ' · offline' : ''}
+          </Text>
+          <TouchableOpacity onPress={handleRefresh} disabled={refreshing}>
+            <Text style={styles.syncBannerAction}>{refreshing ? 'Syncing…' : 'Sync now'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Search Bar */}
       <View style={styles.searchContainer}>
         <TextInput
@@ -302,12 +705,20 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
           onPress={() => setShowFilters(true)}
         >
           <Text style={styles.controlButtonText}>Filter</Text>
-          {selectedCategories.length > 0 && (
+          {selectedCategories.length + selectedLocationIds.length > 0 && (
             <View style={styles.filterBadge}>
-              <Text style={styles.filterBadgeText}>{selectedCategories.length}</Text>
+              <Text style={styles.filterBadgeText}>
+                {selectedCategories.length + selectedLocationIds.length}
+              </Text>
             </View>
           )}
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.controlButton, groupByLocation && styles.controlButtonActive]}
+          onPress={() => setGroupByLocation(!groupByLocation)}
+        >
+          <Text style={styles.controlButtonText}>Group</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Product List */}
@@ -318,6 +729,21 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
             {searchQuery ? 'Try a different search term' : 'Start scanning products to add them here'}
           </Text>
         </View>
+      ) : groupByLocation ? (
+        <SectionList
+          sections={getLocationSections()}
+          keyExtractor={(row) => row[0].id}
+          renderItem={({ item: row }) => (
+            <View style={styles.row}>{row.map(renderCard)}</View>
+          )}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionHeader}>{section.title}</Text>
+          )}
+          contentContainerStyle={styles.listContainer}
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
+          stickySectionHeadersEnabled={false}
+        />
       ) : (
         <FlatList
           data={filteredInventory}
@@ -325,7 +751,7 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContainer}
           refreshing={refreshing}
-          onRefresh={loadInventory}
+          onRefresh={handleRefresh}
           numColumns={2}
           columnWrapperStyle={styles.row}
         />
@@ -348,6 +774,7 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
               <TouchableOpacity
                 onPress={() => {
                   setSelectedCategories([]);
+                  setSelectedLocationIds([]);
                   setShowFilters(false);
                 }}
               >
@@ -386,6 +813,30 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
                   </TouchableOpacity>
                 ))}
               </View>
+
+              <View style={styles.filterSection}>
+                <Text style={styles.filterSectionTitle}>Location</Text>
+                {locations.map((location) => (
+                  <TouchableOpacity
+                    key={location.id}
+                    style={styles.filterOption}
+                    onPress={() => {
+                      if (selectedLocationIds.includes(location.id)) {
+                        setSelectedLocationIds(
+                          selectedLocationIds.filter((id) => id !== location.id)
+                        );
+                      } else {
+                        setSelectedLocationIds([...selectedLocationIds, location.id]);
+                      }
+                    }}
+                  >
+                    <Text style={styles.filterOptionText}>{location.name}</Text>
+                    {selectedLocationIds.includes(location.id) && (
+                      <Text style={styles.checkmark}>✓</Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
             </ScrollView>
 
             <TouchableOpacity
@@ -397,6 +848,165 @@ export default function InventoryScreen({ onBack }: InventoryScreenProps) {
           </View>
         </View>
       </Modal>
+
+      {/* Move Modal */}
+      <Modal
+        visible={moveTarget !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setMoveTarget(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setMoveTarget(null)}>
+                <Text style={styles.modalButton}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Move to</Text>
+              <View style={styles.modalHeaderSpacer} />
+            </View>
+
+            <ScrollView style={styles.filterContent}>
+              {locations.map((location) => (
+                <TouchableOpacity
+                  key={location.id}
+                  style={styles.filterOption}
+                  onPress={() => moveTarget && handleMove(moveTarget, location)}
+                >
+                  <Text style={styles.filterOptionText}>{location.name}</Text>
+                  {moveTarget?.location_id === location.id && (
+                    <Text style={styles.checkmark}>✓</Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Item Actions Modal */}
+      <Modal
+        visible={actionTarget !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setActionTarget(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setActionTarget(null)}>
+                <Text style={styles.modalButton}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>
+                {choosingWasteReason ? 'Why was it wasted?' : actionTarget?.product_name || 'Item'}
+              </Text>
+              <View style={styles.modalHeaderSpacer} />
+            </View>
+
+            {actionTarget && (
+              <ScrollView style={styles.filterContent}>
+                {choosingWasteReason ? (
+                  [...WASTE_REASONS, 'Other'].map((reason) => (
+                    <TouchableOpacity
+                      key={reason}
+                      style={styles.filterOption}
+                      onPress={() => closeItem(actionTarget, 'wasted', reason === 'Other' ? undefined : reason)}
+                    >
+                      <Text style={styles.filterOptionText}>{reason}</Text>
+                    </TouchableOpacity>
+                  ))
+                ) : (
+                  <>
+                    {!actionTarget.opened_at && (
+                      <TouchableOpacity
+                        style={styles.filterOption}
+                        onPress={() => handleMarkOpened(actionTarget)}
+                      >
+                        <Text style={styles.filterOptionText}>🥫 Mark opened</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity
+                      style={styles.filterOption}
+                      onPress={() => closeItem(actionTarget, 'consumed')}
+                    >
+                      <Text style={styles.filterOptionText}>✅ Mark as consumed</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.filterOption}
+                      onPress={() => setChoosingWasteReason(true)}
+                    >
+                      <Text style={styles.filterOptionText}>🗑️ Mark as wasted…</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.filterOption}
+                      onPress={() => closeItem(actionTarget, 'donated')}
+                    >
+                      <Text style={styles.filterOptionText}>🤝 Mark as donated</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.filterOption}
+                      onPress={() => handleDelete(actionTarget)}
+                    >
+                      <Text style={[styles.filterOptionText, styles.destructiveText]}>
+                        Delete permanently
+                      </Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Consume Modal */}
+      <Modal
+        visible={consumeTarget !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setConsumeTarget(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setConsumeTarget(null)}>
+                <Text style={styles.modalButton}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Consume</Text>
+              <TouchableOpacity
+                onPress={() => consumeTarget && submitConsume(Number(consumeTarget.quantity))}
+              >
+                <Text style={styles.modalButton}>All</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.filterContent}>
+              <Text style={styles.filterSectionTitle}>
+                {consumeTarget?.product_name || 'Unknown Product'}
+              </Text>
+              <Text style={styles.consumeHint}>
+                {consumeTarget ? `${formatQuantity(consumeTarget)} left` : ''}
+              </Text>
+              <TextInput
+                style={styles.searchInput}
+                value={consumeAmount}
+                onChangeText={setConsumeAmount}
+                keyboardType="decimal-pad"
+                placeholder="Amount used"
+              />
+            </View>
+
+            <TouchableOpacity
+              style={styles.applyButton}
+              onPress={() => submitConsume(parseFloat(consumeAmount.replace(',', '.')))}
+            >
+              <Text style={styles.applyButtonText}>
+                Consume {consumeAmount || '0'} {consumeTarget?.unit || ''}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -423,6 +1033,83 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#007AFF',
   },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#FFF4E5',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  syncBannerText: {
+    fontSize: 13,
+    color: '#8A5300',
+  },
+  syncBannerAction: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  headerAction: {
+    marginRight: 15,
+  },
+  householdBar: {
+    flexGrow: 0,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  householdBarContent: {
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  householdChip: {
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  householdChipSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF10',
+  },
+  householdChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  householdChipTextSelected: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  viewOnlyBanner: {
+    backgroundColor: '#F0F0F5',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  viewOnlyText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  unsyncedBadge: {
+    backgroundColor: '#FF950020',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  unsyncedText: {
+    fontSize: 11,
+    color: '#FF9500',
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    flex: 1,
+  },
   headerTitle: {
     fontSize: 20,
     fontWeight: '600',
@@ -508,6 +1195,9 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     backgroundColor: '#F5F5F5',
   },
+  controlButtonActive: {
+    backgroundColor: '#007AFF20',
+  },
   controlButtonText: {
     fontSize: 16,
     color: '#000',
@@ -533,18 +1223,23 @@ const styles = StyleSheet.create({
   row: {
     justifyContent: 'space-between',
   },
+  cardContainer: {
+    width: '48%',
+    marginBottom: 10,
+  },
   productCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 12,
     padding: 12,
-    marginBottom: 10,
-    width: '48%',
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
     elevation: 3,
   },
+  productCardHighlighted: {
+    backgroundColor: '#FFF9DB',
+  },
   productImagePlaceholder: {
     width: '100%',
     height: 120,
@@ -571,6 +1266,30 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 8,
   },
+  badgeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  locationBadge: {
+    backgroundColor: '#007AFF15',
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    alignSelf: 'flex-start',
+  },
+  locationText: {
+    fontSize: 12,
+    color: '#007AFF',
+  },
+  sectionHeader: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginTop: 10,
+    marginBottom: 8,
+    marginHorizontal: 5,
+  },
   categoryBadge: {
     backgroundColor: '#E5E5E5',
     borderRadius: 4,
@@ -582,6 +1301,35 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  quantityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  quantityButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F5F5F5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  quantityButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  quantityText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  consumeHint: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 10,
+  },
   expiryStatus: {
     borderRadius: 4,
     paddingHorizontal: 8,
@@ -632,6 +1380,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#007AFF',
   },
+  modalHeaderSpacer: {
+    width: 50,
+  },
   modalTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -661,6 +1412,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#000',
   },
+  destructiveText: {
+    color: '#FF3B30',
+  },
   checkmark: {
     fontSize: 18,
     color: '#007AFF',
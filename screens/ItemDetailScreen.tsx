@@ -0,0 +1,627 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { ExpiryDateType, InventoryEventRow, InventoryRow, StorageLocationRow } from '../types/supabase';
+import { useInventoryRepository } from '../context/ServicesContext';
+import { useSession } from '../context/SessionContext';
+import {
+  FieldChange,
+  INVENTORY_SOURCE_LABELS,
+  describeInventoryEvent,
+  getEventChanges,
+  getItemMilestones,
+} from '../utils/inventoryItems';
+import { ItemFormValues, validateItemForm } from '../utils/itemForm';
+import { formatExpiryDate, getDeviceDateOrder, parseExpiryDate } from '../utils/expiryDate';
+import { EXPIRY_DATE_TYPE_LABELS, getEffectiveExpiry, getExpiryDateType } from '../utils/shelfLife';
+
+interface ItemDetailScreenProps {
+  itemId: string;
+  locations: StorageLocationRow[]; // The current household's, to name the item's location
+  readOnly?: boolean; // Viewers of a household cannot edit
+  onBack: () => void;
+}
+
+// Placeholder barcode of manual entries saved without one
+const MANUAL_ENTRY_BARCODE = 'Manual Entry';
+
+const formatTimestamp = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export default function ItemDetailScreen({ itemId, locations, readOnly, onBack }: ItemDetailScreenProps) {
+  const repository = useInventoryRepository();
+  const [item, setItem] = useState<InventoryRow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [productName, setProductName] = useState('');
+  const [category, setCategory] = useState('');
+  const [barcode, setBarcode] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [dateType, setDateType] = useState<ExpiryDateType>('best_before');
+  const { user } = useSession();
+  const [events, setEvents] = useState<InventoryEventRow[] | null>(null); // null: log not available
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [undoing, setUndoing] = useState(false);
+  const [memberNames, setMemberNames] = useState<Record<string, string>>({});
+
+  // Load the item, and follow changes to it (local edits, sync, other members)
+  useEffect(() => {
+    const load = () =>
+      repository.getItem(itemId)
+        .then(setItem)
+        .catch((error) => console.error('Error loading item:', error))
+        .finally(() => setLoading(false));
+
+    load();
+    return repository.subscribe(load);
+  }, [repository, itemId]);
+
+  // The change log; reloaded whenever the item changes, since that adds an event
+  const loadEvents = async () => {
+    try {
+      const page = await repository.listEvents({ itemId });
+      setEvents(page.events);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      // Offline: the item's own timestamps are shown instead
+      console.error('Error loading item history:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadEvents();
+  }, [repository, itemId, item?.updated_at]);
+
+  // Names for "who changed it"
+  useEffect(() => {
+    repository.getMembers()
+      .then((members) => {
+        const names: Record<string, string> = {};
+        members.forEach((member) => {
+          names[member.user_id] = member.email || 'Guest';
+        });
+        setMemberNames(names);
+      })
+      .catch((error) => console.error('Error loading household members:', error));
+  }, [repository]);
+
+  const parsedExpiry = parseExpiryDate(expiryDate, { order: getDeviceDateOrder() });
+
+  // A typed label ("USE BY 12/03") picks the date type; it can still be changed
+  useEffect(() => {
+    if (editing && parsedExpiry.label) {
+      setDateType(getExpiryDateType(parsedExpiry.label));
+    }
+  }, [parsedExpiry.label]);
+
+  const startEditing = () => {
+    if (!item) return;
+    setProductName(item.product_name || '');
+    setCategory(item.category || '');
+    setBarcode(item.barcode && item.barcode !== MANUAL_ENTRY_BARCODE ? item.barcode : '');
+    setExpiryDate(item.expiry_date || '');
+    setDateType(item.expiry_date_type || 'best_before');
+    setEditing(true);
+  };
+
+  const handleSave = () => {
+    const result = validateItemForm({ productName, category, barcode, expiryDate }, getDeviceDateOrder());
+
+    if (result.kind === 'invalid') {
+      Alert.alert(result.title, result.message, [{ text: 'OK' }]);
+      return;
+    }
+
+    const { values } = result;
+
+    // "03/04/25" and the like: let the user pick rather than guess
+    if (result.kind === 'ambiguous') {
+      Alert.alert(
+        'Which Date?',
+        `"${expiryDate.trim()}" could mean more than one date.`,
+        [
+          ...result.dates.map((date) => ({
+            text: formatExpiryDate(date),
+            onPress: () => saveChanges({ ...values, expiryDate: date }),
+          })),
+          { text: 'Cancel', style: 'cancel' as const },
+        ]
+      );
+      return;
+    }
+
+    saveChanges(values);
+  };
+
+  const saveChanges = async (values: ItemFormValues) => {
+    setSaving(true);
+    try {
+      const updated = await repository.updateItem(itemId, {
+        product_name: values.productName,
+        category: values.category,
+        barcode: values.barcode || null,
+        expiry_date: values.expiryDate,
+        expiry_date_type: dateType,
+      });
+      setItem(updated);
+      setEditing(false);
+    } catch (error) {
+      console.error('Error updating item:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update item');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (nextCursor === null) return;
+    setLoadingMore(true);
+    try {
+      const page = await repository.listEvents({ itemId }, { before: nextCursor });
+      setEvents([...(events || []), ...page.events]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading item history:', error);
+      Alert.alert('Error', 'Failed to load more changes');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    setUndoing(true);
+    try {
+      const undone = await repository.undoEvent({ itemId });
+      if (!undone) {
+        Alert.alert('Nothing to Undo', 'This item has no changes left to undo.');
+      }
+      await loadEvents();
+    } catch (error) {
+      console.error('Error undoing change:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to undo change');
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  const getActorName = (actorId: string | null): string => {
+    if (!actorId) return 'System';
+    if (actorId === user?.id) return 'You';
+    return memberNames[actorId] || 'A former member';
+  };
+
+  const formatChangeValue = (change: FieldChange, value: unknown): string => {
+    if (value === null || value === '') return '—';
+    switch (change.field) {
+      case 'expiry_date':
+      case 'opened_at':
+        return formatExpiryDate(String(value));
+      case 'expiry_date_type':
+        return EXPIRY_DATE_TYPE_LABELS[value as ExpiryDateType];
+      case 'location_id':
+        return locations.find((candidate) => candidate.id === value)?.name || 'Another location';
+      default:
+        return String(value);
+    }
+  };
+
+  const renderField = (label: string, value: string | null) => (
+    <View style={styles.fieldRow}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <Text style={styles.fieldValue}>{value || '—'}</Text>
+    </View>
+  );
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={editing ? () => setEditing(false) : onBack} style={styles.backButton}>
+        <Text style={styles.backButtonText}>{editing ? 'Cancel' : '← Back'}</Text>
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>{editing ? 'Edit Item' : 'Item'}</Text>
+      <View style={styles.headerSpacer} />
+      {item && !readOnly && !editing && (
+        <TouchableOpacity onPress={startEditing}>
+          <Text style={styles.backButtonText}>Edit</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  if (loading || !item) {
+    return (
+      <View style={styles.container}>
+        {header}
+        <View style={styles.loadingContainer}>
+          {loading ? (
+            <ActivityIndicator size="large" color="#007AFF" />
+          ) : (
+            <Text style={styles.emptyText}>This item no longer exists.</Text>
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  const deadline = getEffectiveExpiry(item);
+  const location = locations.find((candidate) => candidate.id === item.location_id);
+
+  return (
+    <View style={styles.container}>
+      {header}
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {editing ? (
+          <View style={styles.card}>
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>Product Name *</Text>
+              <TextInput
+                style={styles.input}
+                value={productName}
+                onChangeText={setProductName}
+                placeholder="e.g., Frozen Chicken, Organic Milk"
+                placeholderTextColor="#9CA3AF"
+                editable={!saving}
+              />
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>Category</Text>
+              <TextInput
+                style={styles.input}
+                value={category}
+                onChangeText={setCategory}
+                placeholder="e.g., Meat, Dairy, Produce"
+                placeholderTextColor="#9CA3AF"
+                editable={!saving}
+              />
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>Batch Code / Barcode</Text>
+              <TextInput
+                style={styles.input}
+                value={barcode}
+                onChangeText={setBarcode}
+                placeholder="Enter batch code or barcode"
+                placeholderTextColor="#9CA3AF"
+                editable={!saving}
+              />
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>Expiry Date *</Text>
+              <TextInput
+                style={styles.input}
+                value={expiryDate}
+                onChangeText={setExpiryDate}
+                placeholder="e.g., 12 MAR 2025, 03/25 or 2025-03-12"
+                placeholderTextColor="#9CA3AF"
+                autoCapitalize="characters"
+                editable={!saving}
+              />
+              <Text style={styles.inputHint}>
+                {!expiryDate.trim()
+                  ? 'Type the date as printed on the package'
+                  : parsedExpiry.date
+                    ? `Reads as ${formatExpiryDate(parsedExpiry.date)}${
+                        parsedExpiry.ambiguous ? ` (or ${formatExpiryDate(parsedExpiry.candidates[1].date)})` : ''
+                      }`
+                    : 'Date not recognized'}
+              </Text>
+              <View style={styles.chipRow}>
+                {(Object.keys(EXPIRY_DATE_TYPE_LABELS) as ExpiryDateType[]).map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, dateType === option && styles.chipSelected]}
+                    onPress={() => setDateType(option)}
+                    disabled={saving}
+                  >
+                    <Text style={[styles.chipText, dateType === option && styles.chipTextSelected]}>
+                      {EXPIRY_DATE_TYPE_LABELS[option]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? <ActivityIndicator color="#FFF" /> : <Text style={styles.saveButtonText}>Save Changes</Text>}
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.card}>
+            <Text style={styles.productName}>{item.product_name || 'Unknown Product'}</Text>
+            {renderField('Category', item.category)}
+            {renderField('Barcode', item.barcode)}
+            {renderField(
+              EXPIRY_DATE_TYPE_LABELS[item.expiry_date_type || 'best_before'],
+              item.expiry_date ? formatExpiryDate(item.expiry_date) : null
+            )}
+            {item.opened_at && renderField('Opened', formatExpiryDate(item.opened_at))}
+            {item.opened_shelf_life_days != null &&
+              renderField('After opening', `Use within ${item.opened_shelf_life_days} days`)}
+            {deadline.source === 'opened' && deadline.date && renderField('Use by (opened)', formatExpiryDate(deadline.date))}
+            {renderField('Quantity', `${Number(item.quantity)} ${item.unit}`)}
+            {renderField('Location', location ? location.name : null)}
+            {renderField('Lot', item.lot_number)}
+            {renderField('Status', item.status === 'active' ? 'In stock' : item.status)}
+          </View>
+        )}
+
+        {/* Where the details came from */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Source</Text>
+          {renderField('Details from', item.source ? INVENTORY_SOURCE_LABELS[item.source] : 'Not recorded')}
+          {item.ai_confidence != null &&
+            renderField(
+              item.source === 'ai' || item.source === 'cache' ? 'AI confidence' : 'Confidence',
+              `${Math.round(item.ai_confidence * 100)}%`
+            )}
+          {renderField('Scanned', formatTimestamp(item.created_at))}
+        </View>
+
+        {/* History */}
+        <View style={styles.card}>
+          <View style={styles.cardTitleRow}>
+            <Text style={styles.cardTitle}>History</Text>
+            {events && events.length > 0 && !readOnly && (
+              <TouchableOpacity onPress={handleUndo} disabled={undoing}>
+                <Text style={styles.linkText}>{undoing ? 'Undoing…' : 'Undo last change'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {events
+            ? events.map((event) => (
+                <View key={event.id} style={styles.historyRow}>
+                  <View style={styles.historyHeader}>
+                    <Text style={[styles.historyLabel, event.undone_at && styles.historyUndone]}>
+                      {describeInventoryEvent(event)}
+                    </Text>
+                    <Text style={styles.historyTime}>{formatTimestamp(event.created_at)}</Text>
+                  </View>
+                  <Text style={styles.historyActor}>
+                    {getActorName(event.actor_id)}{event.undone_at ? ' · undone' : ''}
+                  </Text>
+                  {getEventChanges(event).map((change) => (
+                    <Text key={change.field} style={styles.historyChange}>
+                      {change.label}: {formatChangeValue(change, change.from)} → {formatChangeValue(change, change.to)}
+                    </Text>
+                  ))}
+                </View>
+              ))
+            : getItemMilestones(item).map((milestone, index) => (
+                <View key={`${milestone.label}-${index}`} style={styles.historyHeader}>
+                  <Text style={styles.historyLabel}>{milestone.label}</Text>
+                  <Text style={styles.historyTime}>
+                    {milestone.at.length === 10 ? formatExpiryDate(milestone.at) : formatTimestamp(milestone.at)}
+                  </Text>
+                </View>
+              ))}
+
+          {nextCursor !== null && (
+            <TouchableOpacity style={styles.loadMoreButton} onPress={handleLoadMore} disabled={loadingMore}>
+              {loadingMore ? <ActivityIndicator color="#007AFF" /> : <Text style={styles.linkText}>Show older changes</Text>}
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingTop: 50,
+    paddingBottom: 15,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 15,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+  },
+  headerSpacer: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+  },
+  content: {
+    padding: 15,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  productName: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  fieldLabel: {
+    fontSize: 15,
+    color: '#666',
+  },
+  fieldValue: {
+    flex: 1,
+    fontSize: 15,
+    color: '#000',
+    textAlign: 'right',
+    marginLeft: 15,
+  },
+  cardTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  linkText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  historyRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  historyLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#000',
+  },
+  historyUndone: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  historyTime: {
+    fontSize: 14,
+    color: '#999',
+    marginLeft: 10,
+  },
+  historyActor: {
+    fontSize: 13,
+    color: '#666',
+  },
+  historyChange: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 2,
+  },
+  loadMoreButton: {
+    paddingTop: 12,
+    alignItems: 'center',
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  inputHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFF',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  chipTextSelected: {
+    color: '#FFF',
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  saveButtonText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -9,19 +9,38 @@ import {
   Alert,
   ActivityIndicator,
 } from 'react-native';
-import { addInventoryItem } from '../services/inventory';
+import { useInventoryRepository, useProductAnalyzer } from '../context/ServicesContext';
+import { useSession } from '../context/SessionContext';
+import { confirmProductInBackground } from '../services/productAnalyzer';
+import { ensureDefaultStorageLocations } from '../services/locations';
+import { ExpiryDateType, InventoryUnit, StorageLocationRow } from '../types/supabase';
+import { INVENTORY_UNITS } from '../utils/inventoryItems';
+import { validateItemForm } from '../utils/itemForm';
+import { formatExpiryDate, getDeviceDateOrder, parseExpiryDate } from '../utils/expiryDate';
+import { EXPIRY_DATE_TYPE_LABELS, getExpiryDateType } from '../utils/shelfLife';
+import LocationPicker from '../components/LocationPicker';
 
 interface ManualEntryScreenProps {
   onBack: () => void;
   initialBarcode?: string; // Optional: pre-fill if coming from scan failure
+  initialExpiryDate?: string; // Optional: printed expiry date from a GS1 barcode
+  notice?: string; // Optional: why the scan needs manual entry
   onViewInventory?: () => void; // Optional: callback to view inventory
 }
 
-export default function ManualEntryScreen({ onBack, initialBarcode, onViewInventory }: ManualEntryScreenProps) {
+export default function ManualEntryScreen({ onBack, initialBarcode, initialExpiryDate, notice, onViewInventory }: ManualEntryScreenProps) {
+  const repository = useInventoryRepository();
+  const analyzer = useProductAnalyzer();
+  const { isGuest } = useSession();
   const [productName, setProductName] = useState('');
   const [category, setCategory] = useState('');
   const [barcode, setBarcode] = useState(initialBarcode || '');
-  const [expiryDate, setExpiryDate] = useState('');
+  const [expiryDate, setExpiryDate] = useState(initialExpiryDate || '');
+  const [dateType, setDateType] = useState<ExpiryDateType>('best_before');
+  const [quantity, setQuantity] = useState('1');
+  const [unit, setUnit] = useState<InventoryUnit>('pcs');
+  const [locations, setLocations] = useState<StorageLocationRow[]>([]);
+  const [locationId, setLocationId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
 
   // Pre-fill barcode if provided
@@ -31,61 +50,98 @@ export default function ManualEntryScreen({ onBack, initialBarcode, onViewInvent
     }
   }, [initialBarcode]);
 
+  // Load storage locations for the picker
+  useEffect(() => {
+    ensureDefaultStorageLocations()
+      .then(setLocations)
+      .catch((error) => console.error('Error loading storage locations:', error));
+  }, []);
+
+  // Pre-fill expiry date if the scanned code carried one
+  useEffect(() => {
+    if (initialExpiryDate) {
+      setExpiryDate(initialExpiryDate);
+    }
+  }, [initialExpiryDate]);
+
+  // Read as the user types, so the hint can show how the date is understood
+  const parsedExpiry = parseExpiryDate(expiryDate, { order: getDeviceDateOrder() });
+
+  // A typed label ("USE BY 12/03") picks the date type; it can still be changed
+  useEffect(() => {
+    if (parsedExpiry.label) {
+      setDateType(getExpiryDateType(parsedExpiry.label));
+    }
+  }, [parsedExpiry.label]);
+
   const handleSubmit = async () => {
-    // Validation
-    if (!productName.trim() || !expiryDate.trim()) {
-      Alert.alert(
-        'Missing Information',
-        'Please enter at least the product name and expiry date.',
-        [{ text: 'OK' }]
-      );
+    const result = validateItemForm(
+      { productName, category, barcode, expiryDate, quantity },
+      getDeviceDateOrder()
+    );
+
+    if (result.kind === 'invalid') {
+      Alert.alert(result.title, result.message, [{ text: 'OK' }]);
       return;
     }
 
-    // Calculate days left from expiry date
-    let savedName, savedCategory, savedExpiryDate, daysLeft, status;
-    try {
-      const expiryDateObj = new Date(expiryDate);
-      const now = new Date();
-      const diffTime = expiryDateObj.getTime() - now.getTime();
-      daysLeft = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-      if (daysLeft < 0) {
-        status = 'EXPIRED';
-      } else if (daysLeft === 0) {
-        status = 'EXPIRES TODAY';
-      } else if (daysLeft === 1) {
-        status = 'Expires tomorrow';
-      } else {
-        status = `Expires in ${daysLeft} days`;
-      }
+    const { values } = result;
 
-      // Store values before clearing
-      savedName = productName.trim();
-      savedCategory = category.trim() || 'General';
-      savedExpiryDate = expiryDate;
-    } catch (error) {
+    // "03/04/25" and the like: let the user pick rather than guess
+    if (result.kind === 'ambiguous') {
       Alert.alert(
-        'Invalid Date',
-        'Please enter a valid expiry date (YYYY-MM-DD format).',
-        [{ text: 'OK' }]
+        'Which Date?',
+        `"${expiryDate.trim()}" could mean more than one date.`,
+        [
+          ...result.dates.map((date) => ({
+            text: formatExpiryDate(date),
+            onPress: () => saveEntry(date, values.barcode, values.quantity),
+          })),
+          { text: 'Cancel', style: 'cancel' as const },
+        ]
       );
       return;
     }
 
+    await saveEntry(values.expiryDate, values.barcode, values.quantity);
+  };
+
+  const saveEntry = async (savedExpiryDate: string, savedBarcode: string, parsedQuantity: number) => {
+    // Store values before clearing
+    const savedName = productName.trim();
+    const savedCategory = category.trim() || 'General';
+    const daysLeft = Math.ceil((new Date(savedExpiryDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+
     // Show loading state
     setSaving(true);
 
     try {
       // Automatically save to inventory
-      await addInventoryItem({
-        barcode: barcode.trim() || 'Manual Entry',
+      await repository.addItem({
+        barcode: savedBarcode || 'Manual Entry',
         product_name: savedName,
         category: savedCategory,
         expiry_date: savedExpiryDate,
+        expiry_date_type: dateType,
         ai_confidence: 1.0, // 100% confidence for manual entry
+        source: 'manual',
+        quantity: parsedQuantity,
+        unit,
+        location_id: locationId,
       });
 
+      // Teach the product catalog what this barcode is (accounts only: guest
+      // sessions are free to create, so their votes would be easy to stack)
+      if (savedBarcode && !isGuest) {
+        confirmProductInBackground(analyzer, {
+          code: savedBarcode,
+          name: savedName,
+          category: savedCategory,
+          // The typed date is when this pack expires, not the usual shelf life
+          shelfLifeDays: null,
+        });
+      }
+
       console.log('✅ Manual product entry saved to inventory:', {
         name: savedName,
         category: savedCategory,
@@ -97,7 +153,10 @@ export default function ManualEntryScreen({ onBack, initialBarcode, onViewInvent
       setProductName('');
       setCategory('');
       setBarcode(initialBarcode || '');
-      setExpiryDate('');
+      setExpiryDate(initialExpiryDate || '');
+      setDateType('best_before');
+      setQuantity('1');
+      setUnit('pcs');
 
       // Show success message with options
       Alert.alert(
@@ -176,6 +235,8 @@ export default function ManualEntryScreen({ onBack, initialBarcode, onViewInvent
         contentContainerStyle={styles.contentContainer}
         keyboardShouldPersistTaps="handled"
       >
+        {notice ? <Text style={styles.notice}>{notice}</Text> : null}
+
         <Text style={styles.description}>
           Enter product details manually. All fields marked with * are required.
         </Text>
@@ -227,14 +288,75 @@ export default function ManualEntryScreen({ onBack, initialBarcode, onViewInvent
             style={styles.input}
             value={expiryDate}
             onChangeText={setExpiryDate}
-            placeholder="YYYY-MM-DD (e.g., 2024-12-31)"
+            placeholder="e.g., 12 MAR 2025, 03/25 or 2025-03-12"
             placeholderTextColor="#9CA3AF"
             keyboardType="default"
+            autoCapitalize="characters"
             editable={!saving}
           />
           <Text style={styles.inputHint}>
-            Enter the expiry date in YYYY-MM-DD format
+            {!expiryDate.trim()
+              ? 'Type the date as printed on the package'
+              : parsedExpiry.date
+                ? `Reads as ${formatExpiryDate(parsedExpiry.date)}${
+                    parsedExpiry.ambiguous ? ` (or ${formatExpiryDate(parsedExpiry.candidates[1].date)})` : ''
+                  }`
+                : 'Date not recognized'}
           </Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(EXPIRY_DATE_TYPE_LABELS) as ExpiryDateType[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, dateType === option && styles.chipSelected]}
+                onPress={() => setDateType(option)}
+                disabled={saving}
+              >
+                <Text style={[styles.chipText, dateType === option && styles.chipTextSelected]}>
+                  {EXPIRY_DATE_TYPE_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Quantity and Unit Input */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Quantity</Text>
+          <TextInput
+            style={styles.input}
+            value={quantity}
+            onChangeText={setQuantity}
+            placeholder="1"
+            placeholderTextColor="#9CA3AF"
+            keyboardType="decimal-pad"
+            editable={!saving}
+          />
+          <View style={styles.chipRow}>
+            {INVENTORY_UNITS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, unit === option && styles.chipSelected]}
+                onPress={() => setUnit(option)}
+                disabled={saving}
+              >
+                <Text style={[styles.chipText, unit === option && styles.chipTextSelected]}>
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Storage Location Picker */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Storage Location (Optional)</Text>
+          <LocationPicker
+            locations={locations}
+            selectedId={locationId}
+            onSelect={(location) => setLocationId(location ? location.id : null)}
+            onLocationAdded={(location) => setLocations([...locations, location])}
+            disabled={saving}
+          />
         </View>
 
         {/* Submit Button */}
@@ -292,6 +414,15 @@ const styles = StyleSheet.create({
   contentContainer: {
     padding: 20,
   },
+  notice: {
+    fontSize: 14,
+    color: '#92400E',
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    lineHeight: 20,
+  },
   description: {
     fontSize: 14,
     color: '#6B7280',
@@ -321,6 +452,32 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginTop: 4,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFF',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  chipTextSelected: {
+    color: '#FFF',
+    fontWeight: '600',
+  },
   submitButton: {
     backgroundColor: '#007AFF',
     borderRadius: 8,
@@ -0,0 +1,498 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { ReminderDeliveryMode } from '../types/supabase';
+import {
+  getNotificationPreferences,
+  saveNotificationPreferences,
+  validateNotificationPreferences,
+} from '../services/notificationPreferences';
+import { useInventoryRepository } from '../context/ServicesContext';
+import { rescheduleAllReminders } from '../utils/notifications';
+import {
+  NotificationPreferences,
+  getDefaultNotificationPreferences,
+  getDeviceTimeZone,
+} from '../utils/reminderPreferences';
+
+interface NotificationSettingsScreenProps {
+  onBack: () => void;
+}
+
+const MAX_LEAD_DAYS = 30;
+
+const DELIVERY_MODES: { value: ReminderDeliveryMode; label: string; description: string }[] = [
+  { value: 'per_item', label: 'Per item', description: 'One reminder for each expiring item' },
+  { value: 'digest', label: 'Morning digest', description: 'One daily summary of everything expiring' },
+];
+
+const formatHour = (hour: number): string => `${String(hour).padStart(2, '0')}:00`;
+
+export default function NotificationSettingsScreen({ onBack }: NotificationSettingsScreenProps) {
+  const repository = useInventoryRepository();
+  const [prefs, setPrefs] = useState<NotificationPreferences>(getDefaultNotificationPreferences());
+  const [categories, setCategories] = useState<string[]>([]);
+  const [newCategory, setNewCategory] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Load preferences and the user's categories on mount
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      const [saved, items] = await Promise.all([
+        getNotificationPreferences(true),
+        repository.getItems().catch(() => []),
+      ]);
+      setPrefs(saved);
+
+      const names = new Set<string>(Object.keys(saved.category_lead_days));
+      items.forEach((item) => item.category && names.add(item.category));
+      setCategories([...names].sort());
+    } catch (error) {
+      console.error('Error loading notification preferences:', error);
+      Alert.alert('Error', 'Failed to load notification settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<NotificationPreferences>) => {
+    setPrefs((current) => ({ ...current, ...changes }));
+  };
+
+  const setCategoryLeadDays = (category: string, days: number | null) => {
+    setPrefs((current) => {
+      const categoryLeadDays = { ...current.category_lead_days };
+      if (days === null) {
+        delete categoryLeadDays[category];
+      } else {
+        categoryLeadDays[category] = days;
+      }
+      return { ...current, category_lead_days: categoryLeadDays };
+    });
+  };
+
+  const handleAddCategory = () => {
+    const name = newCategory.trim();
+    if (!name) return;
+    if (!categories.includes(name)) {
+      setCategories([...categories, name].sort());
+    }
+    setCategoryLeadDays(name, prefs.category_lead_days[name] ?? prefs.default_lead_days);
+    setNewCategory('');
+  };
+
+  const handleToggleQuietHours = (enabled: boolean) => {
+    update(enabled
+      ? { quiet_start_hour: 22, quiet_end_hour: 7 }
+      : { quiet_start_hour: null, quiet_end_hour: null });
+  };
+
+  const handleSave = async () => {
+    const validationError = validateNotificationPreferences(prefs);
+    if (validationError) {
+      Alert.alert('Invalid settings', validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setPrefs(await saveNotificationPreferences(prefs));
+      // Local reminders were scheduled with the old settings
+      await rescheduleAllReminders();
+      Alert.alert('Saved', 'Notification settings updated');
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save notification settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderStepper = (
+    value: number,
+    onChange: (value: number) => void,
+    min: number,
+    max: number,
+    format: (value: number) => string,
+    wrap: boolean = false
+  ) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange(value > min ? value - 1 : wrap ? max : min)}
+      >
+        <Text style={styles.stepperButtonText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{format(value)}</Text>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange(value < max ? value + 1 : wrap ? min : max)}
+      >
+        <Text style={styles.stepperButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const formatDays = (days: number): string => (days === 1 ? '1 day' : `${days} days`);
+  const setHour = (field: 'reminder_hour' | 'quiet_start_hour' | 'quiet_end_hour') =>
+    (hour: number) => update({ [field]: hour });
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backButtonText}>← Back</Text>
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Reminder Settings</Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        {header}
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Loading settings...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const quietHoursEnabled = prefs.quiet_start_hour !== null && prefs.quiet_end_hour !== null;
+
+  return (
+    <View style={styles.container}>
+      {header}
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Delivery */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Delivery</Text>
+          {DELIVERY_MODES.map((mode) => (
+            <TouchableOpacity
+              key={mode.value}
+              style={[styles.option, prefs.delivery_mode === mode.value && styles.optionSelected]}
+              onPress={() => update({ delivery_mode: mode.value })}
+            >
+              <Text style={styles.optionLabel}>{mode.label}</Text>
+              <Text style={styles.optionDescription}>{mode.description}</Text>
+            </TouchableOpacity>
+          ))}
+          <View style={styles.settingRow}>
+            <Text style={styles.settingLabel}>
+              {prefs.delivery_mode === 'digest' ? 'Digest time' : 'Reminder time'}
+            </Text>
+            {renderStepper(prefs.reminder_hour, setHour('reminder_hour'), 0, 23, formatHour, true)}
+          </View>
+        </View>
+
+        {/* Lead times */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Remind me before expiry</Text>
+          <View style={styles.settingRow}>
+            <Text style={styles.settingLabel}>Default</Text>
+            {renderStepper(
+              prefs.default_lead_days,
+              (days) => update({ default_lead_days: days }),
+              0,
+              MAX_LEAD_DAYS,
+              formatDays
+            )}
+          </View>
+
+          {categories.map((category) => {
+            const days = prefs.category_lead_days[category];
+            return (
+              <View key={category} style={styles.settingRow}>
+                <Text style={styles.settingLabel} numberOfLines={1}>{category}</Text>
+                {days === undefined ? (
+                  <TouchableOpacity
+                    style={styles.useDefaultButton}
+                    onPress={() => setCategoryLeadDays(category, prefs.default_lead_days)}
+                  >
+                    <Text style={styles.useDefaultText}>Default · Customize</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <View style={styles.categoryControls}>
+                    {renderStepper(days, (value) => setCategoryLeadDays(category, value), 0, MAX_LEAD_DAYS, formatDays)}
+                    <TouchableOpacity onPress={() => setCategoryLeadDays(category, null)}>
+                      <Text style={styles.resetText}>Reset</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            );
+          })}
+
+          <View style={styles.addCategoryRow}>
+            <TextInput
+              style={styles.input}
+              value={newCategory}
+              onChangeText={setNewCategory}
+              placeholder="Add category, e.g. Dairy"
+              returnKeyType="done"
+              onSubmitEditing={handleAddCategory}
+            />
+            <TouchableOpacity style={styles.addButton} onPress={handleAddCategory}>
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Quiet hours */}
+        <View style={styles.card}>
+          <View style={styles.settingRow}>
+            <Text style={styles.cardTitleInline}>Quiet hours</Text>
+            <Switch value={quietHoursEnabled} onValueChange={handleToggleQuietHours} />
+          </View>
+          {quietHoursEnabled && (
+            <>
+              <View style={styles.settingRow}>
+                <Text style={styles.settingLabel}>From</Text>
+                {renderStepper(prefs.quiet_start_hour!, setHour('quiet_start_hour'), 0, 23, formatHour, true)}
+              </View>
+              <View style={styles.settingRow}>
+                <Text style={styles.settingLabel}>Until</Text>
+                {renderStepper(prefs.quiet_end_hour!, setHour('quiet_end_hour'), 0, 23, formatHour, true)}
+              </View>
+              <Text style={styles.hint}>
+                Reminders due during quiet hours are delivered when they end.
+              </Text>
+            </>
+          )}
+        </View>
+
+        {/* Time zone */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Time zone</Text>
+          <TextInput
+            style={styles.input}
+            value={prefs.timezone}
+            onChangeText={(timezone) => update({ timezone: timezone.trim() })}
+            placeholder="e.g. Europe/Berlin"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {prefs.timezone !== getDeviceTimeZone() && (
+            <TouchableOpacity onPress={() => update({ timezone: getDeviceTimeZone() })}>
+              <Text style={styles.linkText}>Use this device's time zone ({getDeviceTimeZone()})</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingTop: 50,
+    paddingBottom: 15,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    marginRight: 15,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 10,
+    color: '#666',
+  },
+  content: {
+    padding: 15,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 12,
+  },
+  cardTitleInline: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF10',
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  settingLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#000',
+    marginRight: 10,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F5F5F5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  stepperValue: {
+    minWidth: 64,
+    textAlign: 'center',
+    fontSize: 15,
+    color: '#000',
+  },
+  categoryControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  useDefaultButton: {
+    paddingVertical: 6,
+  },
+  useDefaultText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  resetText: {
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+  addCategoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#000',
+  },
+  addButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginTop: 8,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 15,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
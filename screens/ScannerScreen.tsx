@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { View, Text, Modal, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
 import { CameraView, useCameraPermissions } from 'expo-camera';
-import { supabase } from '../lib/supabase';
-import { InventoryInsert } from '../types/supabase';
+import { ExpiryDateType, InventoryInsert, InventorySource } from '../types/supabase';
+import { useInventoryRepository, useProductAnalyzer } from '../context/ServicesContext';
+import { BatchScanItem, BatchScanSession, createBatchScanSession } from '../services/batchScanSession';
+import BatchReviewSheet from '../components/BatchReviewSheet';
+import { AIAnalysisError, getManualEntryNotice } from '../services/aiAnalysis';
+import { normalizeBarcode, toLookupCode } from '../utils/barcode';
 import '../global.css';
 
 interface ProductData {
@@ -11,9 +15,16 @@ interface ProductData {
   expiryDate: string;
   confidenceScore: number;
   manualEntryRequired?: boolean;
+  productCode?: string;
+  lotNumber?: string;
+  expiryFromBarcode?: boolean;
+  expiryDateType?: ExpiryDateType;
+  openedShelfLifeDays?: number | null;
+  source?: InventorySource;
 }
 
 export default function ScannerScreen() {
+  const repository = useInventoryRepository();
   const [permission, requestPermission] = useCameraPermissions();
   const [scanned, setScanned] = useState(false);
   const [scannedCode, setScannedCode] = useState<string | null>(null);
@@ -24,7 +35,25 @@ export default function ScannerScreen() {
   const [productModalVisible, setProductModalVisible] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [manualEntryRequired, setManualEntryRequired] = useState(false);
+  const [manualNotice, setManualNotice] = useState<string | null>(null); // Why the lookup needs manual entry
   const lastAnalyzedCodeRef = useRef<string | null>(null);
+  const scannedTypeRef = useRef<string | null>(null); // Symbology of scannedCode; null when typed
+
+  // Batch mode: keep scanning, look codes up in the background, review and
+  // save them all at once
+  const analyzer = useProductAnalyzer();
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchItems, setBatchItems] = useState<BatchScanItem[]>([]);
+  const [lastScanMessage, setLastScanMessage] = useState<string | null>(null);
+  const [reviewVisible, setReviewVisible] = useState(false);
+  const batchSessionRef = useRef<BatchScanSession | null>(null);
+
+  const getBatchSession = (): BatchScanSession => {
+    if (!batchSessionRef.current) {
+      batchSessionRef.current = createBatchScanSession({ analyzer, onChange: setBatchItems });
+    }
+    return batchSessionRef.current;
+  };
 
   // Handle camera permissions
   if (!permission) {
@@ -47,7 +76,18 @@ export default function ScannerScreen() {
     );
   }
 
-  // Call Supabase Edge Function to analyze product
+  // Open the manual entry form for a code the analyzer could not identify
+  const openManualEntry = (code: string, notice: string | null) => {
+    setManualCode(code);
+    setManualNotice(notice);
+    setManualEntryRequired(true);
+    setProductModalVisible(false);
+    setIsAnalyzing(false);
+    setManualEntryVisible(true);
+  };
+
+  // Look the product up with the analyzer (bundled products, the product
+  // database, then the AI); GS1 codes keep their printed date and lot
   const analyzeProduct = useCallback(async (code: string) => {
     // Prevent duplicate analysis of the same code
     if (lastAnalyzedCodeRef.current === code) {
@@ -62,117 +102,43 @@ export default function ScannerScreen() {
     console.log('Starting product analysis for code:', code);
 
     try {
-      // Check if Supabase client is configured
-      const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
-      if (!supabaseUrl) {
-        throw new Error('Supabase URL is not configured. Please set EXPO_PUBLIC_SUPABASE_URL environment variable.');
-      }
+      const result = await analyzer.analyze({ barcode: code, barcodeType: scannedTypeRef.current });
+      const lookupCode = result.productCode || code;
 
-      console.log('Invoking Edge Function: analyze-product');
-      
-      const { data, error } = await supabase.functions.invoke('analyze-product', {
-        body: { code },
-      });
-
-      console.log('Edge Function response - error:', error);
-      console.log('Edge Function response - data:', data);
-
-      if (error) {
-        console.error('Edge Function error details:', {
-          message: error.message,
-          status: error.status,
-          context: error.context,
-        });
-        
-        // Try to read error response body to check for manualEntryRequired
-        let errorBody = null;
-        try {
-          if (error.context?._bodyBlob && !error.context.bodyUsed) {
-            errorBody = await error.context._bodyBlob.text();
-          } else if (error.context?._bodyInit?._data) {
-            const response = new Response(error.context._bodyInit);
-            errorBody = await response.text();
-          }
-        } catch (e) {
-          // Failed to read error body, continue
-        }
-        
-        // Check if error response contains manualEntryRequired flag
-        if (errorBody) {
-          try {
-            const errorJson = JSON.parse(errorBody);
-            if (errorJson.manualEntryRequired === true) {
-              // Error response indicates manual entry needed - open manual entry form
-              console.log('✅ Error response indicates manual entry required');
-              setManualCode(code);
-              setManualEntryRequired(true);
-              setProductModalVisible(false);
-              setIsAnalyzing(false);
-              setManualEntryVisible(true);
-              return;
-            }
-          } catch (e) {
-            // Not JSON, continue with error handling
-          }
-        }
-        
-        throw new Error(error.message || `Edge Function error: ${JSON.stringify(error)}`);
+      // Unknown product, or an AI answer we cannot use: ask for the details
+      if (result.manualEntryRequired) {
+        openManualEntry(lookupCode, getManualEntryNotice(result.aiStatus));
+        return;
       }
 
-      if (data) {
-        // Check if the response contains an error property
-        if (data.error) {
-          throw new Error(data.error || 'Error from Edge Function');
-        }
-
-        const productData = data as ProductData;
-        setProductData(productData);
-        console.log('Product analyzed successfully:', productData);
-
-        // Handle manualEntryRequired flag - automatically open manual entry modal
-        if (productData.manualEntryRequired) {
-          // Set the scanned code in manual entry field for convenience
-          setManualCode(code);
-          setManualEntryRequired(true);
-          // Close any open modals
-          setProductModalVisible(false);
-          setIsAnalyzing(false);
-          // Automatically open manual entry modal
-          setManualEntryVisible(true);
-        } else {
-          // Reset manualEntryRequired flag
-          setManualEntryRequired(false);
-          // Show product found modal with AI/DB results
-          setIsAnalyzing(false);
-          setProductModalVisible(true);
-        }
-      } else {
-        throw new Error('No data returned from analysis');
-      }
+      const productData: ProductData = {
+        productName: result.name,
+        category: result.category,
+        expiryDate: result.expiryDate,
+        confidenceScore: result.confidenceScore ?? 0,
+        productCode: lookupCode,
+        lotNumber: result.lotNumber,
+        expiryFromBarcode: result.expiryFromBarcode,
+        expiryDateType: result.expiryDateType,
+        openedShelfLifeDays: result.openedShelfLifeDays ?? null,
+        source: result.source,
+      };
+      setProductData(productData);
+      console.log('Product analyzed successfully:', productData);
+
+      setManualEntryRequired(false);
+      setIsAnalyzing(false);
+      setProductModalVisible(true);
     } catch (error) {
-      console.error('Error analyzing product - full error:', error);
+      console.error('Error analyzing product:', error);
       lastAnalyzedCodeRef.current = null; // Reset on error to allow retry
-      
-      // Extract meaningful error message
-      let errorMessage = 'Failed to analyze product. Please try again.';
-      
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      } else if (typeof error === 'object' && error !== null) {
-        errorMessage = JSON.stringify(error);
-      }
-      
+
       // Instead of showing Alert, open manual entry form so user can still enter product details
-      console.log('❌ Analysis failed, opening manual entry form');
-      setManualCode(code);
-      setManualEntryRequired(true);
-      setProductModalVisible(false);
-      setIsAnalyzing(false);
-      setManualEntryVisible(true);
+      openManualEntry(code, error instanceof AIAnalysisError ? error.message : null);
     } finally {
       setIsAnalyzing(false);
     }
-  }, []);
+  }, [analyzer]);
 
   // Analyze product when scannedCode is set
   useEffect(() => {
@@ -190,29 +156,21 @@ export default function ScannerScreen() {
     setIsSaving(true);
 
     try {
-      // Get current user session
-      const { data: { session }, error: authError } = await supabase.auth.getSession();
-
-      if (authError || !session) {
-        throw new Error('You must be logged in to save items to inventory');
-      }
-
+      // The repository fills in the signed-in user (the app only gets here
+      // with a session or guest session)
       const inventoryItem: InventoryInsert = {
-        user_id: session.user.id,
-        barcode: scannedCode,
+        barcode: productData.productCode || scannedCode,
         product_name: productData.productName,
         category: productData.category,
         expiry_date: productData.expiryDate,
+        expiry_date_type: productData.expiryDateType || 'best_before',
+        opened_shelf_life_days: productData.openedShelfLifeDays ?? null,
         ai_confidence: productData.confidenceScore,
+        source: productData.source || null,
+        lot_number: productData.lotNumber || null,
       };
 
-      const { error: insertError } = await supabase
-        .from('inventory')
-        .insert([inventoryItem]);
-
-      if (insertError) {
-        throw insertError;
-      }
+      await repository.addItem(inventoryItem);
 
       Alert.alert('Success', 'Product saved to inventory!', [
         {
@@ -245,23 +203,47 @@ export default function ScannerScreen() {
 
   // Handle barcode scan
   const handleBarCodeScanned = ({ type, data }: { type: string; data: string }) => {
+    if (batchMode) {
+      handleBatchScan(type, data);
+      return;
+    }
+
     if (!scanned && !isAnalyzing) {
       setScanned(true);
-      setScannedCode(data);
-      console.log('Scanned code:', data);
+
+      // Misread barcodes fail the check digit; rescan instead of analyzing
+      const barcode = normalizeBarcode(data, type);
+      if (barcode.kind === 'invalid') {
+        Alert.alert(
+          'Please Scan Again',
+          'That barcode did not read correctly. Hold the camera steady and scan it again.',
+          [{ text: 'OK', onPress: resetScanner }]
+        );
+        return;
+      }
+
+      const code = barcode.kind === 'gtin' ? barcode.gtin : data;
+      scannedTypeRef.current = type;
+      setScannedCode(code);
+      console.log('Scanned code:', code);
     }
   };
 
   // Handle manual entry submission
   const handleManualSubmit = () => {
     if (manualCode.trim() && !isAnalyzing) {
-      const trimmedCode = manualCode.trim();
+      if (normalizeBarcode(manualCode).kind === 'invalid') {
+        Alert.alert('Invalid Barcode', 'The check digit does not match. Please check the number and try again.');
+        return;
+      }
+      const trimmedCode = toLookupCode(manualCode);
       // Reset manual entry state
       setManualEntryVisible(false);
       setManualEntryRequired(false);
       setManualCode('');
       // Only trigger analysis if it's a different code
       if (trimmedCode !== lastAnalyzedCodeRef.current) {
+        scannedTypeRef.current = null;
         setScannedCode(trimmedCode);
         setScanned(true);
         console.log('Manually entered code:', trimmedCode);
@@ -272,6 +254,49 @@ export default function ScannerScreen() {
     }
   };
 
+  // Batch mode scans never stop the camera; repeat reads are debounced by
+  // the session, so only real scans change the message
+  const handleBatchScan = (type: string, data: string) => {
+    const outcome = getBatchSession().scan(data, type);
+    if (outcome === 'queued') {
+      setLastScanMessage('Added to batch');
+    } else if (outcome === 'counted') {
+      setLastScanMessage('Scanned again, quantity +1');
+    } else if (outcome === 'invalid') {
+      setLastScanMessage('Misread, scan that one again');
+    }
+  };
+
+  const startBatchMode = () => {
+    resetScanner();
+    getBatchSession().clear();
+    setLastScanMessage(null);
+    setBatchMode(true);
+  };
+
+  const endBatchMode = () => {
+    const leave = () => {
+      getBatchSession().clear();
+      setBatchMode(false);
+      setReviewVisible(false);
+      setLastScanMessage(null);
+    };
+
+    if (batchItems.length === 0) {
+      leave();
+      return;
+    }
+    Alert.alert(
+      'Discard Batch?',
+      `${batchItems.length === 1 ? '1 scanned item has' : `${batchItems.length} scanned items have`} not been saved.`,
+      [
+        { text: 'Keep Scanning', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: leave },
+      ]
+    );
+  };
+
+  const batchPendingCount = batchItems.filter((item) => item.status === 'queued' || item.status === 'analyzing').length;
 
   return (
     <View className="flex-1 bg-black">
@@ -279,9 +304,9 @@ export default function ScannerScreen() {
       <CameraView
         style={StyleSheet.absoluteFillObject}
         facing="back"
-        onBarcodeScanned={scanned ? undefined : handleBarCodeScanned}
+        onBarcodeScanned={scanned && !batchMode ? undefined : handleBarCodeScanned}
         barcodeScannerSettings={{
-          barcodeTypes: ['qr', 'ean13', 'upc_e', 'code128', 'ean8', 'upc_a'],
+          barcodeTypes: ['qr', 'ean13', 'upc_e', 'code128', 'ean8', 'upc_a', 'datamatrix'],
         }}
       />
 
@@ -304,7 +329,7 @@ export default function ScannerScreen() {
         {/* Instruction text - below frame */}
         <View className="absolute z-10" style={{ top: '50%', marginTop: 160 }}>
           <Text className="text-white text-base bg-black/60 px-4 py-2 rounded-lg">
-            Align barcode within frame
+            {batchMode ? lastScanMessage || 'Scan each item, one after another' : 'Align barcode within frame'}
           </Text>
         </View>
       </View>
@@ -330,18 +355,61 @@ export default function ScannerScreen() {
         </Modal>
       )}
 
-      {/* Bottom section with Manual Entry button */}
-      {!isAnalyzing && (
-        <View className="absolute bottom-0 left-0 right-0 pb-8 px-6">
+      {/* Bottom section with Manual Entry and Batch Scan buttons */}
+      {!isAnalyzing && !batchMode && (
+        <View className="absolute bottom-0 left-0 right-0 pb-8 px-6 flex-row gap-3">
           <TouchableOpacity
             onPress={() => setManualEntryVisible(true)}
-            className="bg-white/90 px-6 py-4 rounded-full items-center shadow-lg"
+            className="flex-1 bg-white/90 px-6 py-4 rounded-full items-center shadow-lg"
           >
             <Text className="text-black text-base font-semibold">Manual Entry</Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={startBatchMode}
+            className="flex-1 bg-black/80 border border-white px-6 py-4 rounded-full items-center shadow-lg"
+          >
+            <Text className="text-white text-base font-semibold">Batch Scan</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Batch session bar: count, review and exit */}
+      {batchMode && (
+        <View className="absolute bottom-0 left-0 right-0 pb-8 px-6">
+          <Text className="text-white text-sm text-center mb-3">
+            {batchItems.length === 1 ? '1 item' : `${batchItems.length} items`} scanned
+            {batchPendingCount > 0 ? ` · looking up ${batchPendingCount}` : ''}
+          </Text>
+          <View className="flex-row gap-3">
+            <TouchableOpacity
+              onPress={endBatchMode}
+              className="flex-1 bg-white/90 px-6 py-4 rounded-full items-center shadow-lg"
+            >
+              <Text className="text-black text-base font-semibold">Exit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setReviewVisible(true)}
+              className="flex-1 bg-black px-6 py-4 rounded-full items-center shadow-lg"
+              disabled={batchItems.length === 0}
+            >
+              <Text className="text-white text-base font-semibold">Review ({batchItems.length})</Text>
+            </TouchableOpacity>
+          </View>
         </View>
       )}
 
+      {/* Batch Review (Bottom Sheet style) */}
+      <BatchReviewSheet
+        visible={reviewVisible}
+        session={getBatchSession()}
+        items={batchItems}
+        onClose={() => setReviewVisible(false)}
+        onSaved={() => {
+          setReviewVisible(false);
+          setLastScanMessage(null);
+        }}
+      />
+
       {/* Manual Entry Modal (Bottom Sheet style) */}
       <Modal
         animationType="slide"
@@ -362,7 +430,8 @@ export default function ScannerScreen() {
             {manualEntryRequired && (
               <View className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
                 <Text className="text-sm text-yellow-800">
-                  We couldn't identify this product automatically. Please enter the barcode/code below, or try scanning again with a different product.
+                  {manualNotice ||
+                    "We couldn't identify this product automatically. Please enter the barcode/code below, or try scanning again with a different product."}
                 </Text>
               </View>
             )}
@@ -417,7 +486,10 @@ export default function ScannerScreen() {
         <View className="flex-1 justify-end bg-black/50">
           <View className="bg-white rounded-t-3xl p-6 max-h-[80%]">
             <Text className="text-2xl font-bold mb-2 text-gray-800">Product Found</Text>
-            <Text className="text-sm text-gray-500 mb-6">Barcode: {scannedCode}</Text>
+            <Text className="text-sm text-gray-500 mb-6">
+              Barcode: {productData?.productCode || scannedCode}
+              {productData?.lotNumber ? `  ·  Lot: ${productData.lotNumber}` : ''}
+            </Text>
 
             {productData && (
               <View className="mb-6">
@@ -437,7 +509,11 @@ export default function ScannerScreen() {
 
                 {/* Expiry Date */}
                 <View className="mb-4">
-                  <Text className="text-xs text-gray-500 mb-1 uppercase tracking-wide">Estimated Expiry Date</Text>
+                  <Text className="text-xs text-gray-500 mb-1 uppercase tracking-wide">
+                    {productData.expiryFromBarcode
+                      ? productData.expiryDateType === 'use_by' ? 'Printed Use By Date' : 'Printed Best Before Date'
+                      : 'Estimated Expiry Date'}
+                  </Text>
                   <Text className="text-lg font-medium text-gray-800">{new Date(productData.expiryDate).toLocaleDateString('en-US', { 
                     year: 'numeric', 
                     month: 'long', 
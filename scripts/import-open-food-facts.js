@@ -0,0 +1,354 @@
+#!/usr/bin/env node
+/**
+ * Bulk-import products into product_master_list from an Open Food Facts
+ * export (or any dump in the same format)
+ *
+ * Run with:
+ *   SUPABASE_SERVICE_ROLE_KEY=... node scripts/import-open-food-facts.js <file> [options]
+ *
+ * <file> is the Open Food Facts CSV (tab-separated, as published) or JSONL
+ * export, optionally gzipped (.csv, .tsv, .jsonl, .csv.gz, .jsonl.gz).
+ *
+ * Options:
+ *   --limit <n>          Stop after n importable products
+ *   --batch-size <n>     Rows per upsert (default 500)
+ *   --dry-run            Parse and map only; nothing is written to Supabase
+ *   --subset <path>      Also write the most scanned products as a compact
+ *                        on-device subset (e.g. assets/product-subset.json)
+ *   --subset-size <n>    Products in the subset (default 2000)
+ *
+ * Environment:
+ *   SUPABASE_URL                Defaults to the local instance (http://127.0.0.1:54321)
+ *   SUPABASE_SERVICE_ROLE_KEY   Required unless --dry-run (`supabase status` prints it)
+ *
+ * Upserts on `code`, so running the import again updates rows in place and
+ * sets `updated_at`. Rows users promoted ('community') or an admin approved
+ * ('admin') are never overwritten.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+const zlib = require('zlib');
+const { createClient } = require('@supabase/supabase-js');
+
+// Open Food Facts category tags -> our categories (the ones shelf_life_rules
+// knows). Checked in order; Open Food Facts tags include parent categories,
+// so e.g. fruit juices carry en:beverages and map to Beverages before Produce.
+const CATEGORY_TAGS = [
+  ['Beverages', ['en:beverages']],
+  ['Seafood', ['en:seafood', 'en:fishes']],
+  ['Meat', ['en:meats', 'en:poultries']],
+  ['Dairy', ['en:dairies', 'en:cheeses', 'en:milks', 'en:yogurts']],
+  ['Bakery', ['en:breads', 'en:viennoiseries', 'en:pastries', 'en:cakes']],
+  ['Snacks', ['en:snacks', 'en:sweet-snacks', 'en:salty-snacks']],
+  ['Produce', ['en:fruits', 'en:vegetables', 'en:fresh-fruits', 'en:fresh-vegetables']],
+];
+
+// "As bought" shelf life per category, in line with shelf_life_rules
+const SHELF_LIFE_DAYS = {
+  Meat: 3,
+  Seafood: 2,
+  Dairy: 7,
+  Produce: 7,
+  Bakery: 4,
+  Beverages: 180,
+  Snacks: 90,
+  General: 30,
+};
+
+// Rows the import must not overwrite
+const PROTECTED_ORIGINS = ['community', 'admin'];
+
+function parseArgs(argv) {
+  const options = { file: null, limit: Infinity, batchSize: 500, dryRun: false, subset: null, subsetSize: 2000 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--limit':
+        options.limit = Number(argv[++i]);
+        break;
+      case '--batch-size':
+        options.batchSize = Number(argv[++i]);
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--subset':
+        options.subset = argv[++i];
+        break;
+      case '--subset-size':
+        options.subsetSize = Number(argv[++i]);
+        break;
+      default:
+        if (arg.startsWith('--') || options.file) {
+          throw new Error(`Unexpected argument: ${arg}`);
+        }
+        options.file = arg;
+    }
+  }
+
+  if (!options.file) {
+    throw new Error('Usage: node scripts/import-open-food-facts.js <file> [--limit n] [--dry-run] [--subset path]');
+  }
+  for (const key of ['limit', 'batchSize', 'subsetSize']) {
+    if (!(options[key] > 0)) {
+      throw new Error(`--${key.replace(/[A-Z]/g, (c) => '-' + c.toLowerCase())} must be a positive number`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Splits one CSV line, honouring double quotes (the Open Food Facts export
+ * is tab-separated and unquoted, but other dumps may not be)
+ */
+function splitDelimited(line, delimiter) {
+  if (!line.includes('"')) {
+    return line.split(delimiter);
+  }
+
+  const fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Yields one raw product object per line of the export
+ */
+async function* readProducts(file) {
+  let input = fs.createReadStream(file);
+  if (file.endsWith('.gz')) {
+    input = input.pipe(zlib.createGunzip());
+  }
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  const isJsonLines = /\.jsonl?(\.gz)?$/.test(file);
+
+  let header = null;
+  let delimiter = '\t';
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    if (isJsonLines) {
+      try {
+        yield JSON.parse(line);
+      } catch (error) {
+        console.warn('   ⚠️  Skipping unparsable line');
+      }
+      continue;
+    }
+
+    if (!header) {
+      delimiter = line.includes('\t') ? '\t' : ',';
+      header = splitDelimited(line, delimiter);
+      continue;
+    }
+
+    const values = splitDelimited(line, delimiter);
+    const product = {};
+    header.forEach((name, index) => {
+      product[name] = values[index];
+    });
+    yield product;
+  }
+}
+
+/**
+ * The code as the app looks it up: a GTIN zero-padded to GTIN-14 (the same
+ * rules as normalizeBarcode in supabase/functions/_shared/barcode.ts, which
+ * this plain Node script cannot import). Null if the code is not a GTIN with
+ * a valid check digit.
+ */
+function normalizeCode(code) {
+  const digits = String(code || '').trim();
+  if (!/^(\d{8}|\d{12,14})$/.test(digits)) return null;
+
+  let sum = 0;
+  for (let i = 1; i < digits.length; i++) {
+    sum += Number(digits[digits.length - 1 - i]) * (i % 2 === 1 ? 3 : 1);
+  }
+  if ((10 - (sum % 10)) % 10 !== Number(digits[digits.length - 1])) return null;
+
+  return digits.padStart(14, '0');
+}
+
+function getCategoryTags(product) {
+  const tags = product.categories_tags;
+  if (Array.isArray(tags)) return tags;
+  return typeof tags === 'string' && tags ? tags.split(',') : [];
+}
+
+function mapCategory(tags) {
+  const tagSet = new Set(tags.map((tag) => tag.trim()));
+  for (const [category, categoryTags] of CATEGORY_TAGS) {
+    if (categoryTags.some((tag) => tagSet.has(tag))) {
+      return category;
+    }
+  }
+  return 'General';
+}
+
+/**
+ * Maps a raw export product to a product_master_list row, or null if it
+ * lacks a usable code or name
+ */
+function toMasterListRow(product) {
+  const code = normalizeCode(product.code);
+  const name = String(product.product_name || product.product_name_en || product.generic_name || '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!code || !name) return null;
+
+  const category = mapCategory(getCategoryTags(product));
+  return {
+    code,
+    name: name.slice(0, 200),
+    category,
+    shelf_life_days: SHELF_LIFE_DAYS[category],
+    origin: 'open_food_facts',
+  };
+}
+
+/**
+ * Upserts a batch, skipping codes owned by community or admin rows
+ * @returns Number of rows written
+ */
+async function upsertBatch(supabase, rows) {
+  // Exports can list a code twice; keep the last occurrence
+  const byCode = new Map(rows.map((row) => [row.code, row]));
+
+  const { data: protectedRows, error: selectError } = await supabase
+    .from('product_master_list')
+    .select('code')
+    .in('code', [...byCode.keys()])
+    .in('origin', PROTECTED_ORIGINS);
+  if (selectError) {
+    throw new Error(`Failed to check existing products: ${selectError.message}`);
+  }
+  (protectedRows || []).forEach((row) => byCode.delete(row.code));
+
+  if (byCode.size === 0) return 0;
+
+  const updatedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('product_master_list')
+    .upsert([...byCode.values()].map((row) => ({ ...row, updated_at: updatedAt })), { onConflict: 'code' });
+  if (error) {
+    throw new Error(`Failed to upsert products: ${error.message}`);
+  }
+  return byCode.size;
+}
+
+/**
+ * Keeps the `size` most scanned products seen so far
+ */
+function createSubsetCollector(size) {
+  let candidates = [];
+  return {
+    add(row, scans) {
+      candidates.push({ row, scans });
+      if (candidates.length > size * 2) {
+        candidates.sort((a, b) => b.scans - a.scans);
+        candidates = candidates.slice(0, size);
+      }
+    },
+    result() {
+      candidates.sort((a, b) => b.scans - a.scans);
+      const products = {};
+      for (const { row } of candidates.slice(0, size)) {
+        products[row.code] = [row.name, row.category, row.shelf_life_days];
+      }
+      return products;
+    },
+  };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const supabaseUrl = process.env.SUPABASE_URL || 'http://127.0.0.1:54321';
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!options.dryRun && !serviceKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is required (run `supabase status` for the local key), or pass --dry-run');
+  }
+
+  console.log('📦 Open Food Facts import');
+  console.log(`   File: ${options.file}`);
+  console.log(`   Target: ${options.dryRun ? 'dry run, nothing written' : supabaseUrl}`);
+
+  const supabase = options.dryRun
+    ? null
+    : createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+  const subset = options.subset ? createSubsetCollector(options.subsetSize) : null;
+  const categoryCounts = {};
+  let read = 0;
+  let mapped = 0;
+  let written = 0;
+  let batch = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    if (supabase) {
+      written += await upsertBatch(supabase, batch);
+    }
+    batch = [];
+    process.stdout.write(`\r   Read ${read}, importable ${mapped}, written ${written}`);
+  };
+
+  for await (const product of readProducts(options.file)) {
+    read++;
+    const row = toMasterListRow(product);
+    if (!row) continue;
+
+    mapped++;
+    categoryCounts[row.category] = (categoryCounts[row.category] || 0) + 1;
+    batch.push(row);
+    if (subset) {
+      subset.add(row, Number(product.unique_scans_n) || 0);
+    }
+
+    if (batch.length >= options.batchSize) {
+      await flush();
+    }
+    if (mapped >= options.limit) break;
+  }
+  await flush();
+
+  console.log(`\n\n✅ Done: read ${read}, importable ${mapped}, written ${written}`);
+  console.log('   By category:', categoryCounts);
+
+  if (subset) {
+    const products = subset.result();
+    fs.mkdirSync(path.dirname(options.subset), { recursive: true });
+    fs.writeFileSync(options.subset, JSON.stringify({ version: 1, products }) + '\n');
+    console.log(`   Wrote ${Object.keys(products).length} products to ${options.subset}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exit(1);
+});
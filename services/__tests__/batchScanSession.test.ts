@@ -0,0 +1,66 @@
+import { createBatchScanSession } from '../batchScanSession';
+import type { ProductAnalyzer } from '../productAnalyzer';
+import type { ProductAnalysisResult } from '../aiAnalysis';
+
+// Analyzer whose lookups stay pending until the test finishes them
+function createPendingAnalyzer() {
+  const pending: { code: string; resolve: (result: ProductAnalysisResult) => void }[] = [];
+  const analyzer: ProductAnalyzer = {
+    analyze: ({ barcode }) =>
+      new Promise((resolve) => {
+        pending.push({ code: barcode || '', resolve });
+      }),
+    readExpiryDate: async () => ({ date: null, confidence: 0, aiStatus: 'unsure' }),
+    isConfigured: () => true,
+    confirmProduct: async () => false,
+  };
+
+  const finish = async (code: string) => {
+    const index = pending.findIndex((lookup) => lookup.code === code);
+    const [lookup] = pending.splice(index, 1);
+    lookup.resolve({ name: `Product ${code}`, category: 'General', shelfLifeDays: 7 });
+    // Lets the session handle the result and start the next lookup
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  return { analyzer, pending, finish };
+}
+
+describe('batch scan session', () => {
+  it('ignores repeat reads within the debounce window and counts later scans', () => {
+    const { analyzer } = createPendingAnalyzer();
+    let clock = 0;
+    const session = createBatchScanSession({ analyzer, debounceMs: 2000, now: () => clock });
+
+    expect(session.scan('BOX-1', 'code128')).toBe('queued');
+    clock = 500;
+    expect(session.scan('BOX-1', 'code128')).toBe('ignored');
+    clock = 2400; // 1.9 s after the last read: still the same sighting
+    expect(session.scan('BOX-1', 'code128')).toBe('ignored');
+    clock = 5000;
+    expect(session.scan('BOX-1', 'code128')).toBe('counted');
+
+    expect(session.getItems()).toHaveLength(1);
+    expect(session.getItems()[0].quantity).toBe(2);
+  });
+
+  it('runs at most `concurrency` lookups at once and starts queued ones as slots free up', async () => {
+    const { analyzer, pending, finish } = createPendingAnalyzer();
+    const session = createBatchScanSession({ analyzer, concurrency: 2, now: () => 0 });
+
+    ['BOX-1', 'BOX-2', 'BOX-3', 'BOX-4'].forEach((code) => session.scan(code, 'code128'));
+
+    expect(pending.map((lookup) => lookup.code)).toEqual(['BOX-1', 'BOX-2']);
+    expect(session.getItems().map((item) => item.status)).toEqual(['analyzing', 'analyzing', 'queued', 'queued']);
+
+    await finish('BOX-2');
+    expect(pending.map((lookup) => lookup.code)).toEqual(['BOX-1', 'BOX-3']);
+    expect(session.getItems().map((item) => item.status)).toEqual(['analyzing', 'ready', 'analyzing', 'queued']);
+
+    await finish('BOX-1');
+    await finish('BOX-3');
+    await finish('BOX-4');
+    expect(session.isBusy()).toBe(false);
+    expect(session.getInserts()).toHaveLength(4);
+  });
+});
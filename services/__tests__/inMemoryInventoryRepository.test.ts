@@ -0,0 +1,57 @@
+import { createInMemoryInventoryRepository } from '../inMemoryInventoryRepository';
+
+const TODAY = new Date(2026, 9, 19);
+
+function createRepository() {
+  return createInMemoryInventoryRepository({ userId: 'user-1', now: () => TODAY });
+}
+
+describe('in-memory change log', () => {
+  it('logs inserts, changed columns of updates and deletes, newest first', async () => {
+    const repository = createRepository();
+    const item = await repository.addItem({ barcode: null, product_name: 'Milk', expiry_date: '2026-10-25' });
+    await repository.updateItem(item.id, { expiry_date: '2026-10-28' });
+    await repository.deleteItem(item.id);
+
+    const { events, nextCursor } = await repository.listEvents({ itemId: item.id });
+    expect(events.map((event) => event.operation)).toEqual(['delete', 'update', 'insert']);
+    expect(events[1].old_values).toEqual({ expiry_date: '2026-10-25' });
+    expect(events[1].new_values).toEqual({ expiry_date: '2026-10-28' });
+    expect(events.every((event) => event.actor_id === 'user-1')).toBe(true);
+    expect(nextCursor).toBeNull();
+  });
+
+  it('pages through the log', async () => {
+    const repository = createRepository();
+    const item = await repository.addItem({ barcode: null, product_name: 'Milk', expiry_date: '2026-10-25' });
+    await repository.updateItem(item.id, { product_name: 'Whole Milk' });
+    await repository.updateItem(item.id, { product_name: 'Oat Milk' });
+
+    const first = await repository.listEvents({ itemId: item.id }, { limit: 2 });
+    expect(first.events).toHaveLength(2);
+    const second = await repository.listEvents({ itemId: item.id }, { before: first.nextCursor, limit: 2 });
+    expect(second.events.map((event) => event.operation)).toEqual(['insert']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('undoes changes one at a time, latest first', async () => {
+    const repository = createRepository();
+    const item = await repository.addItem({ barcode: null, product_name: 'Milk', expiry_date: '2026-10-25' });
+    await repository.updateItem(item.id, { expiry_date: '2026-10-28' });
+    await repository.deleteItem(item.id);
+
+    expect((await repository.undoEvent({ itemId: item.id }))?.operation).toBe('delete');
+    expect((await repository.getItem(item.id))?.expiry_date).toBe('2026-10-28');
+
+    expect((await repository.undoEvent({ itemId: item.id }))?.operation).toBe('update');
+    expect((await repository.getItem(item.id))?.expiry_date).toBe('2026-10-25');
+
+    expect((await repository.undoEvent({ itemId: item.id }))?.operation).toBe('insert');
+    expect(await repository.getItem(item.id)).toBeNull();
+
+    expect(await repository.undoEvent({ itemId: item.id })).toBeNull();
+
+    const { events } = await repository.listEvents({ itemId: item.id });
+    expect(events.filter((event) => event.undoes !== null)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,135 @@
+import { createBatchScanSession, BatchScanItem } from '../batchScanSession';
+import { createFakeProductAnalyzer } from '../fakeProductAnalyzer';
+import { createInMemoryInventoryRepository } from '../inMemoryInventoryRepository';
+
+const TODAY = new Date(2026, 9, 19);
+const MILK = '4006381333931'; // EAN-13
+const MILK_GTIN = '04006381333931';
+const UNKNOWN = '036000291452'; // UPC-A
+const GS1_CODE = '(01)04006381333931(17)261130(10)LOT7';
+
+function createFlow() {
+  const analyzer = createFakeProductAnalyzer({
+    products: { [MILK]: { name: 'Whole Milk', category: 'Dairy', shelfLifeDays: 7, openedShelfLifeDays: 3 } },
+    today: TODAY,
+  });
+  const repository = createInMemoryInventoryRepository({ now: () => TODAY });
+  let clock = 0;
+  const changes: BatchScanItem[][] = [];
+  const session = createBatchScanSession({
+    analyzer,
+    onChange: (items) => changes.push(items),
+    now: () => (clock += 5000),
+  });
+  return { analyzer, repository, session, changes };
+}
+
+// Lets the background lookups finish
+async function settle(session: { isBusy(): boolean }): Promise<void> {
+  for (let i = 0; i < 10 && session.isBusy(); i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+describe('scan → analyze → save', () => {
+  it('saves a known product with the analyzed details', async () => {
+    const { repository, session } = createFlow();
+
+    expect(session.scan(MILK, 'ean13')).toBe('queued');
+    await settle(session);
+
+    const [item] = session.getItems();
+    expect(item).toMatchObject({
+      status: 'ready',
+      productName: 'Whole Milk',
+      category: 'Dairy',
+      expiryDate: '2026-10-26',
+      source: 'master_list',
+    });
+
+    await repository.addItems(session.getInserts());
+    const [saved] = await repository.getItems();
+    expect(saved).toMatchObject({
+      id: 'item-1',
+      barcode: MILK_GTIN,
+      product_name: 'Whole Milk',
+      expiry_date: '2026-10-26',
+      opened_shelf_life_days: 3,
+      source: 'master_list',
+      quantity: 1,
+    });
+  });
+
+  it('counts repeat scans and ignores misreads', async () => {
+    const { repository, session } = createFlow();
+
+    session.scan(MILK, 'ean13');
+    expect(session.scan(MILK, 'ean13')).toBe('counted');
+    expect(session.scan('4006381333932', 'ean13')).toBe('invalid');
+    await settle(session);
+
+    await repository.addItems(session.getInserts());
+    const items = await repository.getItems();
+    expect(items).toHaveLength(1);
+    expect(items[0].quantity).toBe(2);
+  });
+
+  it('keeps the printed date and lot of a GS1 code', async () => {
+    const { repository, session } = createFlow();
+
+    session.scan(GS1_CODE);
+    await settle(session);
+
+    await repository.addItems(session.getInserts());
+    const [saved] = await repository.getItems();
+    expect(saved).toMatchObject({
+      barcode: MILK_GTIN,
+      expiry_date: '2026-11-30',
+      expiry_date_type: 'use_by',
+      lot_number: 'LOT7',
+    });
+  });
+
+  it('saves an unknown product once the user names it', async () => {
+    const { analyzer, repository, session } = createFlow();
+
+    session.scan(UNKNOWN, 'upc_a');
+    await settle(session);
+
+    const [item] = session.getItems();
+    expect(item.status).toBe('needs_details');
+    expect(session.getInserts()).toEqual([]);
+
+    session.updateItem(item.id, { productName: 'Cola', category: 'Drinks', expiryDate: '2027-01-31' });
+    await repository.addItems(session.getInserts());
+    const [saved] = await repository.getItems();
+    expect(saved).toMatchObject({ product_name: 'Cola', source: 'manual', expiry_date: '2027-01-31' });
+
+    // Confirmed products are known on the next scan
+    await analyzer.confirmProduct({ code: UNKNOWN, name: 'Cola', category: 'Drinks', shelfLifeDays: 90 });
+    const result = await analyzer.analyze({ barcode: UNKNOWN });
+    expect(result.name).toBe('Cola');
+    expect(result.manualEntryRequired).toBeFalsy();
+  });
+
+  it('retries a failed lookup', async () => {
+    const analyzer = createFakeProductAnalyzer({ today: TODAY });
+    let fail = true;
+    const session = createBatchScanSession({
+      analyzer: {
+        ...analyzer,
+        analyze: (options) => (fail ? Promise.reject(new Error('offline')) : analyzer.analyze(options)),
+      },
+    });
+
+    session.scan(MILK, 'ean13');
+    await settle(session);
+    const [failed] = session.getItems();
+    expect(failed).toMatchObject({ status: 'failed', error: 'offline' });
+
+    fail = false;
+    session.retry(failed.id);
+    await settle(session);
+    expect(session.getItems()[0].status).toBe('needs_details');
+  });
+});
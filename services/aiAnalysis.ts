@@ -1,4 +1,26 @@
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { parseGS1, getGS1ExpiryDate, getGS1ExpiryDateType, GS1Data } from '../utils/gs1';
+import { normalizeBarcode, toLookupCode } from '../utils/barcode';
+import { addDays } from '../utils/shelfLife';
+import { DateCandidate, DateLabel, getDeviceDateOrder } from '../utils/expiryDate';
+import { ExpiryDateType } from '../types/supabase';
+import { lookupOfflineProduct } from './offlineProducts';
+
+/**
+ * What came of asking the AI (set by the Edge Function):
+ * - confident: the AI identified the product
+ * - unsure: the AI answered with low confidence or an unknown product
+ * - invalid_response: the AI's answer failed validation (garbage, not doubt)
+ * - unavailable: the AI could not be reached
+ */
+export type AIStatus = 'confident' | 'unsure' | 'invalid_response' | 'unavailable';
+
+/**
+ * Where the product data came from: the product database, an earlier AI
+ * answer for the same code, a fresh AI answer, or nowhere ('manual' - the
+ * user has to enter it)
+ */
+export type AnalysisSource = 'master_list' | 'cache' | 'ai' | 'manual';
 
 /**
  * Product analysis result from AI service
@@ -10,6 +32,15 @@ export interface ProductAnalysisResult {
   confidenceScore?: number;
   expiryDate?: string; // ISO date string
   manualEntryRequired?: boolean;
+  productCode?: string; // Code used for the product lookup (GTIN for GS1 codes)
+  gtin?: string; // GTIN-14 from GS1 AI 01
+  lotNumber?: string; // Lot/batch from GS1 AI 10
+  expiryFromBarcode?: boolean; // True when expiryDate was printed in the barcode
+  expiryDateType?: ExpiryDateType; // Set when expiryDate was printed in the barcode
+  openedShelfLifeDays?: number | null; // "After opening, use within N days", if known
+  source?: AnalysisSource;
+  aiStatus?: AIStatus;
+  validationErrors?: string[]; // Why the AI's answer was rejected (invalid_response)
 }
 
 /**
@@ -17,10 +48,33 @@ export interface ProductAnalysisResult {
  */
 export interface AnalyzeProductOptions {
   barcode?: string;
-  imageUri?: string; // Base64 encoded image or URI (future implementation)
+  barcodeType?: string | null; // Symbology the scanner reported for `barcode`; tells GTINs from other numeric codes
   code?: string; // Generic code field (for batch codes, etc.)
 }
 
+/**
+ * Position of the date print in the photo, as fractions (0-1) of its size
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Expiry date read from a photo of the package
+ */
+export interface PrintedDateResult {
+  date: string | null; // YYYY-MM-DD, or null if no date could be read
+  text?: string; // The date print as written, e.g. "BB 12 MAR 2025"
+  boundingBox?: BoundingBox | null;
+  confidence: number; // 0-1; 0 when no date was read
+  label?: DateLabel | null; // What the print says the date is ("BB", "USE BY", ...)
+  candidates?: DateCandidate[]; // Set when the print can be read as several dates
+  aiStatus: AIStatus; // 'unsure' when the photo had no readable date
+}
+
 /**
  * Error thrown when AI analysis fails
  */
@@ -35,15 +89,33 @@ export class AIAnalysisError extends Error {
   }
 }
 
+/**
+ * Manual entry explanation for each AI outcome, so an unusable AI answer is
+ * not presented as the product being unknown
+ */
+export function getManualEntryNotice(aiStatus?: AIStatus): string | null {
+  switch (aiStatus) {
+    case 'invalid_response':
+      return 'The AI returned an answer we could not use. Please enter the product details.';
+    case 'unavailable':
+      return 'The AI service is unavailable right now. Please enter the product details.';
+    case 'unsure':
+      return 'We could not identify this product with confidence. Please enter the product details.';
+    default:
+      return null;
+  }
+}
+
 /**
  * Analyzes a product using AI service (OpenAI GPT-4o-mini via Supabase Edge Function)
  * 
  * This function can analyze products from:
  * - Barcode/QR code data
- * - Image of the product (future: when image processing is implemented)
  * - Generic product codes
  * 
- * @param options - Analysis options containing barcode, code, or imageUri
+ * Printed expiry dates are read from photos with readExpiryDateFromImage.
+ * 
+ * @param options - Analysis options containing barcode or code
  * @returns Promise<ProductAnalysisResult> - Product analysis with name, category, and shelf life
  * @throws AIAnalysisError - When analysis fails
  */
@@ -51,20 +123,40 @@ export async function analyzeProduct(
   options: AnalyzeProductOptions
 ): Promise<ProductAnalysisResult> {
   // Extract the code to analyze (prioritize barcode > code)
-  const codeToAnalyze = options.barcode || options.code;
+  const rawCode = options.barcode || options.code;
+
+  // GS1 codes carry the GTIN plus printed dates and lot - look up the
+  // product by GTIN only and keep the printed data for the result. GTINs
+  // are looked up as GTIN-14, however they were scanned.
+  const gs1 = rawCode ? parseGS1(rawCode) : null;
+  const scannedType = gs1 ? null : options.barcodeType || null;
+  const codeToAnalyze = rawCode ? toLookupCode(gs1?.gtin || rawCode, scannedType) : rawCode;
 
-  if (!codeToAnalyze && !options.imageUri) {
+  if (!codeToAnalyze) {
     throw new AIAnalysisError(
-      'Either barcode/code or imageUri must be provided for analysis',
+      'A barcode or code must be provided for analysis',
       'MISSING_INPUT'
     );
   }
 
-  // If image is provided but not yet implemented, log a warning
-  if (options.imageUri) {
-    console.warn('Image analysis is not yet fully implemented. Using code-based analysis.');
-    // Future: Add image processing here
-    // For now, we'll use code-based analysis
+  // Misread barcodes fail the check digit; the caller should ask for a rescan
+  if (normalizeBarcode(gs1?.gtin || codeToAnalyze, scannedType).kind === 'invalid') {
+    throw new AIAnalysisError('Invalid barcode check digit, please rescan', 'INVALID_BARCODE');
+  }
+
+  // Common products are bundled with the app; no network needed for them
+  const offlineProduct = lookupOfflineProduct(codeToAnalyze);
+  if (offlineProduct) {
+    console.log('✅ Product found in bundled product subset:', codeToAnalyze);
+    return applyGS1Data({
+      name: offlineProduct.name,
+      category: offlineProduct.category,
+      shelfLifeDays: offlineProduct.shelfLifeDays,
+      confidenceScore: 1.0,
+      expiryDate: addDays(new Date(), offlineProduct.shelfLifeDays),
+      productCode: codeToAnalyze,
+      source: 'master_list',
+    }, gs1);
   }
 
   try {
@@ -116,15 +208,13 @@ export async function analyzeProduct(
     console.log('🔍 Starting AI analysis for:', {
       barcode: options.barcode,
       code: options.code,
-      hasImage: !!options.imageUri,
+      lookupCode: codeToAnalyze,
+      gs1: gs1 ? gs1.elements : null,
     });
 
     // Invoke Supabase Edge Function for AI analysis
     const { data, error } = await supabase.functions.invoke('analyze-product', {
-      body: {
-        code: codeToAnalyze || '', // Send empty string if only image is provided
-        imageUri: options.imageUri, // Pass image for future implementation
-      },
+      body: { code: codeToAnalyze, barcodeType: scannedType || undefined },
     });
 
     if (error) {
@@ -192,14 +282,18 @@ export async function analyzeProduct(
           // If so, return result instead of throwing error - this allows manual entry form to open
           if (errorJson.manualEntryRequired === true) {
             console.log('✅ Error response indicates manual entry required, returning result instead of error');
-            return {
+            return applyGS1Data({
               name: errorJson.productName || 'Unknown Product',
               category: errorJson.category || 'General',
               shelfLifeDays: calculateShelfLifeDays(errorJson.expiryDate),
               confidenceScore: errorJson.confidenceScore || 0,
               expiryDate: errorJson.expiryDate,
               manualEntryRequired: true,
-            };
+              productCode: codeToAnalyze,
+              source: 'manual',
+              aiStatus: errorJson.aiStatus,
+              validationErrors: errorJson.validationErrors,
+            }, gs1);
           }
           
           if (errorJson.error) {
@@ -298,19 +392,27 @@ export async function analyzeProduct(
     // Edge Function returns: { productName, category, expiryDate, confidenceScore }
     // We need: { name, category, shelfLifeDays, ... }
     
-    const result: ProductAnalysisResult = {
+    const result = applyGS1Data({
       name: data.productName || data.name || 'Unknown Product',
       category: data.category || 'General',
       shelfLifeDays: calculateShelfLifeDays(data.expiryDate),
       confidenceScore: data.confidenceScore || 0,
       expiryDate: data.expiryDate,
+      openedShelfLifeDays: data.openedShelfLifeDays ?? null,
       manualEntryRequired: data.manualEntryRequired || false,
-    };
+      productCode: codeToAnalyze,
+      source: data.source || (data.manualEntryRequired ? 'manual' : 'ai'),
+      aiStatus: data.aiStatus,
+      validationErrors: data.validationErrors,
+    }, gs1);
     
     // If manual entry is required, return the result with the flag
     // Don't throw error - let the calling code (App.js) handle opening the modal
     if (data.manualEntryRequired) {
-      console.log('✅ Edge Function indicates manual entry required, returning result with flag');
+      console.log('✅ Edge Function indicates manual entry required, returning result with flag', {
+        aiStatus: data.aiStatus,
+        validationErrors: data.validationErrors,
+      });
       return result;
     }
 
@@ -319,6 +421,8 @@ export async function analyzeProduct(
       category: result.category,
       shelfLifeDays: result.shelfLifeDays,
       confidence: result.confidenceScore,
+      source: result.source,
+      expiryFromBarcode: result.expiryFromBarcode,
     });
 
     return result;
@@ -352,16 +456,90 @@ export async function analyzeProductFromBarcode(
 }
 
 /**
- * Analyzes product from an image (future implementation)
- * Note: Image analysis requires additional setup and API configuration
- * 
- * @param imageUri - Base64 encoded image or image URI
- * @returns Promise<ProductAnalysisResult>
+ * Reads the expiry date printed on a package from a photo
+ * The photo is sent to the Edge Function, which asks the configured vision
+ * model (or its OCR stand-in) for the date, where it is and how sure it is.
+ * Readings below 60% confidence come back with `date: null`.
+ *
+ * @param imageBase64 - JPEG photo as base64 (e.g. from takePictureAsync({ base64: true }))
+ * @returns Promise<PrintedDateResult>
+ * @throws AIAnalysisError - When the Edge Function cannot be called
  */
-export async function analyzeProductFromImage(
-  imageUri: string
-): Promise<ProductAnalysisResult> {
-  return analyzeProduct({ imageUri });
+export async function readExpiryDateFromImage(
+  imageBase64: string
+): Promise<PrintedDateResult> {
+  if (!imageBase64) {
+    throw new AIAnalysisError('A photo must be provided to read the expiry date', 'MISSING_INPUT');
+  }
+
+  if (!isSupabaseConfigured()) {
+    throw new AIAnalysisError(
+      'Supabase is not configured. Please set EXPO_PUBLIC_SUPABASE_URL and EXPO_PUBLIC_SUPABASE_ANON_KEY environment variables.',
+      'NOT_CONFIGURED'
+    );
+  }
+
+  const { data, error } = await supabase.functions.invoke('analyze-product', {
+    body: { imageUri: imageBase64, dateOrder: getDeviceDateOrder() },
+  });
+
+  if (error) {
+    console.error('❌ Edge Function error while reading printed date:', error);
+    const status = error.context?.status || error.status;
+    throw new AIAnalysisError(
+      status === 413 ? 'The photo is too large. Please try again.' : 'Could not read the date from the photo.',
+      status === 413 ? 'IMAGE_TOO_LARGE' : 'EDGE_FUNCTION_ERROR',
+      error
+    );
+  }
+
+  const printed = data?.printedDate;
+  return {
+    date: printed?.date ?? null,
+    text: printed?.text,
+    boundingBox: printed?.boundingBox ?? null,
+    confidence: printed?.confidence ?? 0,
+    label: printed?.label ?? null,
+    candidates: printed?.candidates,
+    aiStatus: data?.aiStatus || 'unavailable',
+  };
+}
+
+/**
+ * Overlays data printed in a GS1 code onto an analysis result.
+ * A printed expiry date always wins over the estimated one and is
+ * reported with full confidence.
+ *
+ * @param result - Result from the Edge Function
+ * @param gs1 - Parsed GS1 data, or null for non-GS1 codes
+ * @returns ProductAnalysisResult
+ */
+function applyGS1Data(
+  result: ProductAnalysisResult,
+  gs1: GS1Data | null
+): ProductAnalysisResult {
+  if (!gs1) {
+    return result;
+  }
+
+  const printedExpiryDate = getGS1ExpiryDate(gs1);
+  const merged: ProductAnalysisResult = {
+    ...result,
+    gtin: gs1.gtin,
+    lotNumber: gs1.lot,
+  };
+
+  if (printedExpiryDate) {
+    merged.expiryDate = printedExpiryDate;
+    merged.shelfLifeDays = calculateShelfLifeDays(printedExpiryDate);
+    merged.expiryFromBarcode = true;
+    merged.expiryDateType = getGS1ExpiryDateType(gs1);
+    if (!merged.manualEntryRequired) {
+      merged.confidenceScore = 1.0;
+    }
+  }
+
+  return merged;
 }
 
 /**
@@ -0,0 +1,142 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  WastePerWeekRow,
+  WasteByCategoryRow,
+  WasteByLocationRow,
+  TopWastedProductRow,
+  ConsumptionSummaryRow,
+} from '../types/supabase';
+
+/**
+ * Get the number of items wasted per week, oldest week first
+ *
+ * @param weeks - How many weeks back to include
+ */
+export async function getWastePerWeek(weeks: number = 8): Promise<WastePerWeekRow[]> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const since = new Date();
+  since.setDate(since.getDate() - weeks * 7);
+
+  const { data, error } = await supabase
+    .from('waste_per_week')
+    .select('*')
+    .gte('week_start', since.toISOString().split('T')[0])
+    .order('week_start', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch weekly waste: ${error.message}`);
+  }
+
+  return (data || []).map((row: WastePerWeekRow) => ({
+    ...row,
+    wasted_items: Number(row.wasted_items),
+    wasted_quantity: Number(row.wasted_quantity),
+  }));
+}
+
+/**
+ * Get waste per category, most wasted first
+ */
+export async function getWasteByCategory(): Promise<WasteByCategoryRow[]> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { data, error } = await supabase
+    .from('waste_by_category')
+    .select('*')
+    .order('wasted_items', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch waste by category: ${error.message}`);
+  }
+
+  return (data || []).map((row: WasteByCategoryRow) => ({
+    ...row,
+    wasted_items: Number(row.wasted_items),
+    closed_items: Number(row.closed_items),
+    waste_rate: Number(row.waste_rate),
+  }));
+}
+
+/**
+ * Get waste per storage location, most wasted first
+ */
+export async function getWasteByLocation(): Promise<WasteByLocationRow[]> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { data, error } = await supabase
+    .from('waste_by_location')
+    .select('*')
+    .order('wasted_items', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch waste by location: ${error.message}`);
+  }
+
+  return (data || []).map((row: WasteByLocationRow) => ({
+    ...row,
+    wasted_items: Number(row.wasted_items),
+  }));
+}
+
+/**
+ * Get the products thrown away most often
+ *
+ * @param limit - Maximum number of products to return
+ */
+export async function getTopWastedProducts(limit: number = 5): Promise<TopWastedProductRow[]> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { data, error } = await supabase
+    .from('top_wasted_products')
+    .select('*')
+    .order('wasted_count', { ascending: false })
+    .order('last_wasted_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch top wasted products: ${error.message}`);
+  }
+
+  return (data || []).map((row: TopWastedProductRow) => ({
+    ...row,
+    wasted_count: Number(row.wasted_count),
+  }));
+}
+
+/**
+ * Get consumed / wasted / donated totals and the percentage of items
+ * consumed before their expiry date
+ *
+ * @param since - Only count items closed after this date (all time if omitted)
+ */
+export async function getConsumptionSummary(since?: Date): Promise<ConsumptionSummaryRow> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { data, error } = await supabase.rpc('get_consumption_summary', {
+    since: since ? since.toISOString() : null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch consumption summary: ${error.message}`);
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  return {
+    consumed_items: Number(row?.consumed_items || 0),
+    wasted_items: Number(row?.wasted_items || 0),
+    donated_items: Number(row?.donated_items || 0),
+    consumed_before_expiry: Number(row?.consumed_before_expiry || 0),
+    consumed_before_expiry_pct: Number(row?.consumed_before_expiry_pct || 0),
+  };
+}
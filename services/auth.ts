@@ -0,0 +1,203 @@
+import * as Linking from 'expo-linking';
+import type { Session } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { switchInventoryUser } from './inventory';
+import { getOutbox } from './inventoryStore';
+import { syncInventory } from './inventorySync';
+
+// Path magic links and email confirmations send the user back to
+// (expiryscanner://auth-callback in a build, exp://.../--/auth-callback in Expo Go)
+const AUTH_CALLBACK_PATH = 'auth-callback';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+function requireSupabase(): void {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+}
+
+/**
+ * Light check of an email address before it is sent to Supabase
+ */
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+/**
+ * Validation message for a new password, or null if it is acceptable
+ */
+export function getPasswordError(password: string): string | null {
+  return password.length < MIN_PASSWORD_LENGTH
+    ? `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+    : null;
+}
+
+/**
+ * URL Supabase links back to from magic link and confirmation emails
+ * Must be listed under Authentication → URL Configuration → Redirect URLs.
+ */
+export function getAuthRedirectUrl(): string {
+  return Linking.createURL(AUTH_CALLBACK_PATH);
+}
+
+/**
+ * Sign in with email and password
+ */
+export async function signInWithPassword(email: string, password: string): Promise<Session> {
+  requireSupabase();
+
+  const { data, error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+  if (error) {
+    throw new Error(`Failed to sign in: ${error.message}`);
+  }
+  return data.session;
+}
+
+/**
+ * Create an account with email and password
+ *
+ * @returns The new session, or null if the email address has to be
+ * confirmed first (Supabase sends a confirmation link)
+ */
+export async function signUpWithPassword(email: string, password: string): Promise<Session | null> {
+  requireSupabase();
+
+  const { data, error } = await supabase.auth.signUp({
+    email: email.trim(),
+    password,
+    options: { emailRedirectTo: getAuthRedirectUrl() },
+  });
+  if (error) {
+    throw new Error(`Failed to create account: ${error.message}`);
+  }
+  return data.session;
+}
+
+/**
+ * Email a one-time sign-in link; opening it on this device signs the user
+ * in through completeSignInFromUrl
+ */
+export async function sendMagicLink(email: string): Promise<void> {
+  requireSupabase();
+
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.trim(),
+    options: { emailRedirectTo: getAuthRedirectUrl() },
+  });
+  if (error) {
+    throw new Error(`Failed to send sign-in link: ${error.message}`);
+  }
+}
+
+/**
+ * Finish signing in from a magic link or confirmation link the app was
+ * opened with. Supabase returns either a code (PKCE) or the tokens in the
+ * URL fragment.
+ *
+ * @returns The session, or null if the URL is not an auth callback
+ */
+export async function completeSignInFromUrl(url: string): Promise<Session | null> {
+  const { path, queryParams } = Linking.parse(url);
+  if (!path || !path.endsWith(AUTH_CALLBACK_PATH)) {
+    return null;
+  }
+
+  const fragment = new URLSearchParams(url.split('#')[1] || '');
+  const errorDescription = fragment.get('error_description') || queryParams?.error_description;
+  if (errorDescription) {
+    throw new Error(`Sign-in link failed: ${errorDescription}`);
+  }
+
+  const code = queryParams?.code;
+  if (typeof code === 'string') {
+    const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error) {
+      throw new Error(`Sign-in link failed: ${error.message}`);
+    }
+    return data.session;
+  }
+
+  const accessToken = fragment.get('access_token');
+  const refreshToken = fragment.get('refresh_token');
+  if (!accessToken || !refreshToken) {
+    return null;
+  }
+
+  const { data, error } = await supabase.auth.setSession({ access_token: accessToken, refresh_token: refreshToken });
+  if (error) {
+    throw new Error(`Sign-in link failed: ${error.message}`);
+  }
+  return data.session;
+}
+
+/**
+ * Start an anonymous guest session
+ * The guest has a real user id, so inventory syncs as usual; anonymous
+ * sign-ins must be enabled in the Supabase project.
+ */
+export async function signInAsGuest(): Promise<Session> {
+  requireSupabase();
+
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error) {
+    throw new Error(`Failed to continue as guest: ${error.message}`);
+  }
+  return data.session;
+}
+
+/**
+ * Turn the current guest into a full account by adding an email address
+ * Supabase emails a confirmation link; once it is opened the guest keeps
+ * the same user id, so their inventory stays where it is. A password can
+ * be set afterwards with setAccountPassword.
+ */
+export async function upgradeGuestAccount(email: string): Promise<void> {
+  requireSupabase();
+
+  const { error } = await supabase.auth.updateUser(
+    { email: email.trim() },
+    { emailRedirectTo: getAuthRedirectUrl() }
+  );
+  if (error) {
+    throw new Error(`Failed to upgrade guest account: ${error.message}`);
+  }
+}
+
+/**
+ * Set or change the password of the signed-in (non-guest) user
+ */
+export async function setAccountPassword(password: string): Promise<void> {
+  requireSupabase();
+
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) {
+    throw new Error(`Failed to set password: ${error.message}`);
+  }
+}
+
+/**
+ * Inventory changes made on this device that have not reached Supabase yet
+ * and would be lost by signing out
+ */
+export async function getUnsyncedChangeCount(): Promise<number> {
+  if (isSupabaseConfigured()) {
+    await syncInventory();
+  }
+  return (await getOutbox()).length;
+}
+
+/**
+ * Sign out and remove the user's inventory and reminders from this device
+ * A guest cannot sign back in, so their inventory is gone for good.
+ */
+export async function signOut(): Promise<void> {
+  requireSupabase();
+
+  // Removes only the session on this device
+  const { error } = await supabase.auth.signOut({ scope: 'local' });
+  if (error) {
+    throw new Error(`Failed to sign out: ${error.message}`);
+  }
+  await switchInventoryUser(null);
+}
@@ -0,0 +1,265 @@
+import type { ProductAnalyzer } from './productAnalyzer';
+import type { ProductAnalysisResult } from './aiAnalysis';
+import { ExpiryDateType, InventoryInsert, InventorySource } from '../types/supabase';
+import { normalizeBarcode } from '../utils/barcode';
+
+// Only type imports from the analyzer side, so tests can drive a session
+// with the fake analyzer
+
+/**
+ * Where a scanned item is in the session:
+ * - queued: waiting for a free analysis slot
+ * - analyzing: being looked up
+ * - ready: identified (or completed by the user), will be saved
+ * - needs_details: the product is unknown; the user has to name it
+ * - failed: the lookup failed; retry or fill in the details
+ */
+export type BatchItemStatus = 'queued' | 'analyzing' | 'ready' | 'needs_details' | 'failed';
+
+export interface BatchScanItem {
+  id: string; // Key within the session
+  code: string; // Code as scanned (GTIN-14 for retail barcodes, raw text for GS1 and others)
+  barcodeType: string | null; // Symbology the scanner reported, if any
+  productCode: string; // Code saved with the item (the GTIN for GS1 codes)
+  status: BatchItemStatus;
+  quantity: number; // Each further scan of the same code adds one
+  productName: string;
+  category: string;
+  expiryDate: string | null; // YYYY-MM-DD
+  expiryDateType: ExpiryDateType;
+  lotNumber: string | null;
+  confidenceScore: number | null;
+  source: InventorySource | null; // Where the details came from; 'manual' once the user fills them in
+  openedShelfLifeDays: number | null;
+  error: string | null; // Why the lookup failed
+  scannedAt: string; // Timestamp of the first scan
+}
+
+/**
+ * Fields the user can change in the review list
+ */
+export type BatchItemEdit = Partial<
+  Pick<BatchScanItem, 'productName' | 'category' | 'expiryDate' | 'expiryDateType' | 'quantity'>
+>;
+
+/**
+ * What a scan did:
+ * - queued: a new code, added to the session
+ * - counted: a code already in the session, its quantity went up
+ * - ignored: the same code again within the debounce window (the camera
+ *   reads a code many times a second while it is in view)
+ * - invalid: a misread barcode (bad check digit); scan it again
+ */
+export type ScanOutcome = 'queued' | 'counted' | 'ignored' | 'invalid';
+
+export interface BatchScanSessionOptions {
+  analyzer: ProductAnalyzer;
+  concurrency?: number; // Lookups running at once (default 3)
+  debounceMs?: number; // Repeat reads of a code within this window are ignored (default 2000)
+  onChange?: (items: BatchScanItem[]) => void; // Called after every change
+  now?: () => number; // Clock in ms, for tests
+}
+
+export interface BatchScanSession {
+  scan(data: string, type?: string | null): ScanOutcome;
+  getItems(): BatchScanItem[]; // In scan order
+  updateItem(id: string, edit: BatchItemEdit): void; // Ignored while the item is queued or analyzing
+  removeItem(id: string): void;
+  retry(id: string): void; // Look a failed item up again
+  isBusy(): boolean; // True while lookups are queued or running
+  getInserts(): InventoryInsert[]; // Ready items, as rows to save
+  clear(): void; // Start over (e.g. after saving)
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_DEBOUNCE_MS = 2000;
+
+/**
+ * Fields of an item filled in from a lookup result
+ */
+function fromAnalysis(result: ProductAnalysisResult): Partial<BatchScanItem> {
+  if (result.manualEntryRequired) {
+    return {
+      status: 'needs_details',
+      // A GS1 code may still have told us the date and lot
+      expiryDate: result.expiryFromBarcode ? result.expiryDate || null : null,
+      expiryDateType: result.expiryDateType || 'best_before',
+      lotNumber: result.lotNumber || null,
+    };
+  }
+
+  return {
+    status: 'ready',
+    productName: result.name,
+    category: result.category,
+    expiryDate: result.expiryDate || null,
+    expiryDateType: result.expiryDateType || 'best_before',
+    lotNumber: result.lotNumber || null,
+    confidenceScore: result.confidenceScore ?? null,
+    source: result.source || null,
+    openedShelfLifeDays: result.openedShelfLifeDays ?? null,
+  };
+}
+
+/**
+ * Continuous scanning session: codes are queued as they are scanned,
+ * looked up a few at a time in the background, and reviewed together
+ * before the whole batch is saved with repository.addItems.
+ */
+export function createBatchScanSession(options: BatchScanSessionOptions): BatchScanSession {
+  const { analyzer } = options;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const now = options.now || Date.now;
+
+  const items = new Map<string, BatchScanItem>(); // By code, in scan order
+  const lastSeen = new Map<string, number>(); // Code -> time it was last read
+  let running = 0;
+  let nextId = 1;
+
+  const notify = () => options.onChange?.(getItems());
+
+  const findById = (id: string): BatchScanItem | undefined =>
+    [...items.values()].find((item) => item.id === id);
+
+  function getItems(): BatchScanItem[] {
+    return [...items.values()].map((item) => ({ ...item }));
+  }
+
+  async function analyze(item: BatchScanItem): Promise<void> {
+    running++;
+    item.status = 'analyzing';
+    try {
+      const result = await analyzer.analyze({ barcode: item.code, barcodeType: item.barcodeType });
+      Object.assign(item, fromAnalysis(result), { productCode: result.productCode || item.code, error: null });
+    } catch (error) {
+      item.status = 'failed';
+      item.error = error instanceof Error ? error.message : 'Lookup failed';
+    } finally {
+      running--;
+    }
+    // Removed while it was being looked up: nothing to report
+    if (items.get(item.code) === item) {
+      notify();
+    }
+    pump();
+  }
+
+  // Start queued lookups while there are free slots
+  function pump(): void {
+    let started = false;
+    for (const item of items.values()) {
+      if (running >= concurrency) break;
+      if (item.status === 'queued') {
+        analyze(item);
+        started = true;
+      }
+    }
+    if (started) notify();
+  }
+
+  return {
+    scan(data, type) {
+      const barcode = normalizeBarcode(data, type);
+      if (barcode.kind === 'invalid') {
+        return 'invalid';
+      }
+
+      const code = barcode.kind === 'gtin' ? barcode.gtin : barcode.code;
+      const time = now();
+      const previous = lastSeen.get(code);
+      lastSeen.set(code, time);
+      if (previous !== undefined && time - previous < debounceMs) {
+        return 'ignored';
+      }
+
+      const existing = items.get(code);
+      if (existing) {
+        existing.quantity += 1;
+        notify();
+        return 'counted';
+      }
+
+      items.set(code, {
+        id: `scan-${nextId++}`,
+        code,
+        barcodeType: type || null,
+        productCode: code,
+        status: 'queued',
+        quantity: 1,
+        productName: '',
+        category: '',
+        expiryDate: null,
+        expiryDateType: 'best_before',
+        lotNumber: null,
+        confidenceScore: null,
+        source: null,
+        openedShelfLifeDays: null,
+        error: null,
+        scannedAt: new Date(time).toISOString(),
+      });
+      notify();
+      pump();
+      return 'queued';
+    },
+
+    getItems,
+
+    updateItem(id, edit) {
+      const item = findById(id);
+      if (!item || item.status === 'queued' || item.status === 'analyzing') return;
+
+      Object.assign(item, edit);
+      // Naming an unknown product is all it needs to be saved
+      if (item.status !== 'ready' && item.productName.trim()) {
+        item.status = 'ready';
+        item.error = null;
+        item.source = 'manual';
+      }
+      notify();
+    },
+
+    removeItem(id) {
+      const item = findById(id);
+      if (!item) return;
+      items.delete(item.code);
+      notify();
+    },
+
+    retry(id) {
+      const item = findById(id);
+      if (!item || item.status !== 'failed') return;
+      item.status = 'queued';
+      item.error = null;
+      notify();
+      pump();
+    },
+
+    isBusy() {
+      return [...items.values()].some((item) => item.status === 'queued' || item.status === 'analyzing');
+    },
+
+    getInserts() {
+      return [...items.values()]
+        .filter((item) => item.status === 'ready')
+        .map((item) => ({
+          barcode: item.productCode,
+          product_name: item.productName.trim(),
+          category: item.category.trim() || 'General',
+          expiry_date: item.expiryDate,
+          expiry_date_type: item.expiryDateType,
+          opened_shelf_life_days: item.openedShelfLifeDays,
+          ai_confidence: item.confidenceScore,
+          source: item.source,
+          lot_number: item.lotNumber,
+          quantity: item.quantity,
+        }));
+    },
+
+    clear() {
+      items.clear();
+      lastSeen.clear();
+      notify();
+    },
+  };
+}
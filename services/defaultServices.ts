@@ -0,0 +1,14 @@
+import type { Services } from '../context/ServicesContext';
+import { createSupabaseInventoryRepository } from './inventoryRepository';
+import { createEdgeFunctionProductAnalyzer } from './productAnalyzer';
+
+/**
+ * Services the app runs with: the offline-first Supabase inventory and the
+ * analyze-product Edge Function
+ */
+export function createDefaultServices(): Services {
+  return {
+    inventory: createSupabaseInventoryRepository(),
+    analyzer: createEdgeFunctionProductAnalyzer(),
+  };
+}
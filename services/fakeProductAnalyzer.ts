@@ -0,0 +1,109 @@
+import type { PrintedDateResult, ProductAnalysisResult } from './aiAnalysis';
+import type { ProductAnalyzer } from './productAnalyzer';
+import type { ProductConfirmation } from './productSubmissions';
+import { parseGS1, getGS1ExpiryDate, getGS1ExpiryDateType } from '../utils/gs1';
+import { toLookupCode } from '../utils/barcode';
+import { addDays } from '../utils/shelfLife';
+
+// Only type imports from aiAnalysis, so tests can use this module without
+// a Supabase project
+
+export interface FakeProduct {
+  name: string;
+  category: string;
+  shelfLifeDays: number;
+  openedShelfLifeDays?: number | null; // "After opening, use within N days"
+  confidenceScore?: number;
+}
+
+export interface FakeProductAnalyzerOptions {
+  products?: Record<string, FakeProduct>; // Known products by lookup code
+  today?: Date; // Date shelf lives are counted from
+  printedExpiryDate?: string | null; // YYYY-MM-DD every photo reads as; null for an unreadable photo
+}
+
+/**
+ * Analyzer that answers from a fixed product table, for tests and previews
+ * The same code always gives the same result. Unknown codes ask for manual
+ * entry, like the Edge Function does when the AI cannot identify a product.
+ * GS1 codes are looked up by GTIN and keep their printed expiry date and lot.
+ * Confirmed products are added to the table. Photos read as
+ * `printedExpiryDate` (two weeks out by default).
+ */
+export function createFakeProductAnalyzer(options: FakeProductAnalyzerOptions = {}): ProductAnalyzer {
+  // Keyed by lookup code, so a UPC-A and its EAN-13/GTIN-14 form match
+  const products: Record<string, FakeProduct> = Object.fromEntries(
+    Object.entries(options.products || {}).map(([code, product]) => [toLookupCode(code), product])
+  );
+
+  return {
+    async analyze({ barcode, barcodeType, code }) {
+      const rawCode = barcode || code || '';
+      const gs1 = rawCode ? parseGS1(rawCode) : null;
+      const lookupCode = toLookupCode(gs1?.gtin || rawCode, gs1 ? null : barcodeType);
+      const today = options.today || new Date();
+      const product = products[lookupCode];
+
+      const result: ProductAnalysisResult = product
+        ? {
+            name: product.name,
+            category: product.category,
+            shelfLifeDays: product.shelfLifeDays,
+            confidenceScore: product.confidenceScore ?? 0.9,
+            expiryDate: addDays(today, product.shelfLifeDays),
+            openedShelfLifeDays: product.openedShelfLifeDays ?? null,
+            productCode: lookupCode,
+            source: 'master_list',
+          }
+        : {
+            name: 'Unknown Product',
+            category: 'Unknown',
+            shelfLifeDays: 7,
+            confidenceScore: 0,
+            manualEntryRequired: true,
+            productCode: lookupCode,
+            source: 'manual',
+            aiStatus: 'unsure',
+          };
+
+      const printedExpiryDate = getGS1ExpiryDate(gs1);
+      if (gs1) {
+        result.gtin = gs1.gtin;
+        result.lotNumber = gs1.lot;
+      }
+      if (printedExpiryDate) {
+        const [year, month, day] = printedExpiryDate.split('-').map(Number);
+        const start = new Date(today);
+        start.setHours(0, 0, 0, 0);
+        result.expiryDate = printedExpiryDate;
+        result.expiryFromBarcode = true;
+        result.expiryDateType = getGS1ExpiryDateType(gs1);
+        result.shelfLifeDays = Math.round((new Date(year, month - 1, day).getTime() - start.getTime()) / 86400000);
+      }
+
+      return result;
+    },
+    async readExpiryDate() {
+      const date =
+        options.printedExpiryDate !== undefined
+          ? options.printedExpiryDate
+          : addDays(options.today || new Date(), 14);
+      const result: PrintedDateResult = date
+        ? { date, text: `BEST BEFORE ${date}`, boundingBox: null, confidence: 0.9, label: 'best_before', aiStatus: 'confident' }
+        : { date: null, confidence: 0, aiStatus: 'unsure' };
+      return result;
+    },
+    isConfigured() {
+      return true;
+    },
+    // A single confirmation is enough here: the product is known from now on
+    async confirmProduct(confirmation: ProductConfirmation) {
+      products[toLookupCode(confirmation.code)] = {
+        name: confirmation.name,
+        category: confirmation.category || 'General',
+        shelfLifeDays: confirmation.shelfLifeDays ?? 7,
+      };
+      return true;
+    },
+  };
+}
@@ -0,0 +1,326 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { HouseholdMemberWithEmailRow, HouseholdRole, HouseholdRow, MyHouseholdRow } from '../types/supabase';
+
+// AsyncStorage keys of the cached household list and the selected household,
+// so the app knows both offline
+const HOUSEHOLDS_KEY = 'expiryscanner:households';
+const CURRENT_HOUSEHOLD_KEY = 'expiryscanner:current-household';
+
+const DEFAULT_HOUSEHOLD_NAME = 'My Household';
+
+/**
+ * A household the current user belongs to
+ */
+export interface Household {
+  id: string;
+  name: string;
+  inviteCode: string;
+  role: HouseholdRole; // The current user's role
+  memberCount: number;
+}
+
+/**
+ * Labels and descriptions of the member roles, for the UI
+ */
+export const HOUSEHOLD_ROLES: { value: HouseholdRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Manages the household and its members' },
+  { value: 'editor', label: 'Editor', description: 'Adds, changes and removes items' },
+  { value: 'viewer', label: 'Viewer', description: 'Can only look' },
+];
+
+type HouseholdsListener = () => void;
+
+let households: Household[] = [];
+let currentId: string | null = null;
+let hydration: Promise<void> | null = null;
+const listeners = new Set<HouseholdsListener>();
+
+function requireSupabase(): void {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+}
+
+/**
+ * Loads the cached list and selection into memory (once)
+ */
+function hydrate(): Promise<void> {
+  if (!hydration) {
+    hydration = (async () => {
+      const [storedHouseholds, storedCurrent] = await Promise.all([
+        AsyncStorage.getItem(HOUSEHOLDS_KEY),
+        AsyncStorage.getItem(CURRENT_HOUSEHOLD_KEY),
+      ]);
+      households = storedHouseholds ? JSON.parse(storedHouseholds) : [];
+      currentId = storedCurrent;
+    })().catch((error) => {
+      hydration = null;
+      throw error;
+    });
+  }
+  return hydration;
+}
+
+async function persist(): Promise<void> {
+  await Promise.all([
+    AsyncStorage.setItem(HOUSEHOLDS_KEY, JSON.stringify(households)),
+    currentId ? AsyncStorage.setItem(CURRENT_HOUSEHOLD_KEY, currentId) : AsyncStorage.removeItem(CURRENT_HOUSEHOLD_KEY),
+  ]);
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function toHousehold(row: MyHouseholdRow): Household {
+  return {
+    id: row.id,
+    name: row.name,
+    inviteCode: row.invite_code,
+    role: row.role,
+    memberCount: Number(row.member_count),
+  };
+}
+
+/**
+ * Get the households the current user belongs to, as last fetched
+ */
+export async function getHouseholds(): Promise<Household[]> {
+  await hydrate();
+  return [...households];
+}
+
+/**
+ * Get the household the inventory screens show and new items go to
+ */
+export async function getCurrentHousehold(): Promise<Household | null> {
+  await hydrate();
+  return households.find((household) => household.id === currentId) || null;
+}
+
+/**
+ * Id of the current household, or null if it is not known yet (first
+ * start offline, or Supabase not configured)
+ */
+export async function getCurrentHouseholdId(): Promise<string | null> {
+  await hydrate();
+  return currentId;
+}
+
+/**
+ * Switch to another of the user's households
+ */
+export async function setCurrentHousehold(id: string): Promise<void> {
+  await hydrate();
+  if (!households.some((household) => household.id === id)) {
+    throw new Error('Failed to switch household: not a member');
+  }
+
+  currentId = id;
+  await persist();
+  notify();
+}
+
+/**
+ * Returns true if the current user may change items in the household
+ * (owners and editors). Households not fetched yet are assumed editable;
+ * Supabase rejects the write on sync if they are not.
+ */
+export async function canEditHousehold(id: string | null): Promise<boolean> {
+  await hydrate();
+  const household = households.find((candidate) => candidate.id === id);
+  return !household || household.role !== 'viewer';
+}
+
+/**
+ * Fetch the user's households from Supabase and keep the selection valid
+ * A user without any household (e.g. a new account) gets a personal one.
+ */
+export async function refreshHouseholds(): Promise<Household[]> {
+  requireSupabase();
+  await hydrate();
+
+  const { data, error } = await supabase.rpc('get_my_households');
+  if (error) {
+    throw new Error(`Failed to fetch households: ${error.message}`);
+  }
+
+  const rows: MyHouseholdRow[] = data || [];
+  if (rows.length === 0) {
+    await createHousehold(DEFAULT_HOUSEHOLD_NAME);
+    return getHouseholds();
+  }
+
+  households = rows.map(toHousehold);
+  if (!households.some((household) => household.id === currentId)) {
+    currentId = households[0].id;
+  }
+  await persist();
+  notify();
+  return [...households];
+}
+
+/**
+ * Create a household owned by the current user and switch to it
+ */
+export async function createHousehold(name: string): Promise<HouseholdRow> {
+  requireSupabase();
+
+  const { data, error } = await supabase.rpc('create_household', { household_name: name.trim() });
+  if (error) {
+    throw new Error(`Failed to create household: ${error.message}`);
+  }
+
+  currentId = data.id;
+  await refreshHouseholds();
+  return data;
+}
+
+/**
+ * Join a household with its invite code and switch to it
+ */
+export async function joinHousehold(code: string): Promise<HouseholdRow> {
+  requireSupabase();
+
+  const { data, error } = await supabase.rpc('join_household', { code: code.trim() });
+  if (error) {
+    throw new Error(`Failed to join household: ${error.message}`);
+  }
+
+  currentId = data.id;
+  await refreshHouseholds();
+  return data;
+}
+
+/**
+ * Leave a household
+ * The last owner has to make another member owner first, or delete the
+ * household instead.
+ */
+export async function leaveHousehold(id: string): Promise<void> {
+  requireSupabase();
+  await hydrate();
+
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user.id;
+  if (!userId) {
+    throw new Error('Failed to leave household: not signed in');
+  }
+
+  if (households.find((household) => household.id === id)?.role === 'owner') {
+    const members = await getHouseholdMembers(id);
+    if (!members.some((member) => member.role === 'owner' && member.user_id !== userId)) {
+      throw new Error('Make another member owner before leaving, or delete the household');
+    }
+  }
+
+  await removeHouseholdMember(id, userId);
+  await refreshHouseholds();
+}
+
+/**
+ * Delete a household and everything in it (owners only)
+ */
+export async function deleteHousehold(id: string): Promise<void> {
+  requireSupabase();
+
+  const { error } = await supabase
+    .from('households')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete household: ${error.message}`);
+  }
+
+  await refreshHouseholds();
+}
+
+/**
+ * Replace the household's invite code (owners only); the old code stops working
+ *
+ * @returns The new code
+ */
+export async function resetInviteCode(id: string): Promise<string> {
+  requireSupabase();
+
+  const { data, error } = await supabase.rpc('reset_household_invite_code', { target_household: id });
+  if (error) {
+    throw new Error(`Failed to reset invite code: ${error.message}`);
+  }
+
+  await refreshHouseholds();
+  return data;
+}
+
+/**
+ * Get the members of a household, oldest membership first
+ */
+export async function getHouseholdMembers(id: string): Promise<HouseholdMemberWithEmailRow[]> {
+  requireSupabase();
+
+  const { data, error } = await supabase.rpc('get_household_members', { target_household: id });
+  if (error) {
+    throw new Error(`Failed to fetch household members: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Change another member's role (owners only)
+ */
+export async function setHouseholdMemberRole(householdId: string, userId: string, role: HouseholdRole): Promise<void> {
+  requireSupabase();
+
+  const { error } = await supabase
+    .from('household_members')
+    .update({ role })
+    .eq('household_id', householdId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to change member role: ${error.message}`);
+  }
+}
+
+/**
+ * Remove a member from a household (owners remove others, members remove
+ * themselves)
+ */
+export async function removeHouseholdMember(householdId: string, userId: string): Promise<void> {
+  requireSupabase();
+
+  const { error } = await supabase
+    .from('household_members')
+    .delete()
+    .eq('household_id', householdId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to remove member: ${error.message}`);
+  }
+}
+
+/**
+ * Forget the cached households, e.g. after signing out
+ */
+export async function clearHouseholds(): Promise<void> {
+  await hydrate();
+  households = [];
+  currentId = null;
+  await persist();
+  notify();
+}
+
+/**
+ * Subscribe to changes of the household list or the current household
+ * @returns Function that removes the listener
+ */
+export function subscribeToHouseholds(listener: HouseholdsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,227 @@
+import { InventoryEventRow, InventoryRow, InventoryUpdate } from '../types/supabase';
+import type { InventoryRepository } from './inventoryRepository';
+import type { InventoryEventScope } from './inventoryEvents';
+import {
+  buildInventoryRow,
+  normalizeItemBarcode,
+  getConsumeUpdate,
+  getRestoreUpdate,
+  getOpenedUpdate,
+  matchesSearch,
+  getActiveItems,
+  getClosedItems,
+} from '../utils/inventoryItems';
+import { toISODate } from '../utils/shelfLife';
+
+// Only type imports from the Supabase side, so tests can use this module
+// without a Supabase project, AsyncStorage or notifications
+
+const DEFAULT_PAGE_SIZE = 20; // As in inventoryEvents.ts
+
+export interface InMemoryInventoryOptions {
+  items?: InventoryRow[]; // Initial contents
+  userId?: string; // user_id given to new items
+  now?: () => Date; // Clock, for deterministic timestamps
+}
+
+/**
+ * Repository that keeps everything in memory, for tests and previews
+ * New items get sequential ids (item-1, item-2, ...) so runs are repeatable.
+ */
+export function createInMemoryInventoryRepository(
+  options: InMemoryInventoryOptions = {}
+): InventoryRepository {
+  const items = new Map<string, InventoryRow>(
+    (options.items || []).map((item) => [item.id, { ...item }])
+  );
+  const listeners = new Set<() => void>();
+  const userId = options.userId || 'local-user';
+  const now = () => (options.now ? options.now() : new Date()).toISOString();
+  let nextId = 1;
+  const events: InventoryEventRow[] = []; // Oldest first
+  let nextEventId = 1;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  // Logs a change like the inventory_events trigger: the whole row for an
+  // insert or delete, only the changed columns for an update
+  const record = (before: InventoryRow | null, after: InventoryRow | null, undoes: number | null = null) => {
+    let oldValues: Partial<InventoryRow> | null = before && { ...before };
+    let newValues: Partial<InventoryRow> | null = after && { ...after };
+    if (before && after) {
+      const changed = (Object.keys(after) as (keyof InventoryRow)[]).filter(
+        (key) => key !== 'updated_at' && before[key] !== after[key]
+      );
+      if (changed.length === 0) return;
+      oldValues = Object.fromEntries(changed.map((key) => [key, before[key]]));
+      newValues = Object.fromEntries(changed.map((key) => [key, after[key]]));
+    }
+
+    const row = (after || before) as InventoryRow;
+    events.push({
+      id: nextEventId++,
+      inventory_id: row.id,
+      household_id: row.household_id,
+      actor_id: userId,
+      operation: before && after ? 'update' : after ? 'insert' : 'delete',
+      old_values: oldValues,
+      new_values: newValues,
+      undoes,
+      undone_at: null,
+      created_at: now(),
+    });
+  };
+
+  const inScope = (event: InventoryEventRow, scope: InventoryEventScope): boolean =>
+    'itemId' in scope ? event.inventory_id === scope.itemId : event.household_id === scope.householdId;
+
+  const getExisting = (id: string, action: string): InventoryRow => {
+    const item = items.get(id);
+    if (!item) {
+      throw new Error(`${action}: item not found`);
+    }
+    return item;
+  };
+
+  const update = (id: string, updates: InventoryUpdate, action: string): InventoryRow => {
+    const current = getExisting(id, action);
+    const updated = { ...current, ...updates, updated_at: now() } as InventoryRow;
+    items.set(id, updated);
+    record(current, updated);
+    notify();
+    return { ...updated };
+  };
+
+  return {
+    async getItems() {
+      return getActiveItems([...items.values()]);
+    },
+    async getItem(id) {
+      const item = items.get(id);
+      return item ? { ...item } : null;
+    },
+    async getHistory() {
+      return getClosedItems([...items.values()]);
+    },
+    async search(query) {
+      return getActiveItems([...items.values()]).filter((item) => matchesSearch(item, query));
+    },
+    async addItem(item) {
+      const id = item.id || `item-${nextId++}`;
+      const row = buildInventoryRow(normalizeItemBarcode(item), id, item.user_id || userId, now());
+      items.set(id, row);
+      record(null, row);
+      notify();
+      return { ...row };
+    },
+    async addItems(newItems) {
+      const rows = newItems.map((item) => {
+        const id = item.id || `item-${nextId++}`;
+        return buildInventoryRow(normalizeItemBarcode(item), id, item.user_id || userId, now());
+      });
+      rows.forEach((row) => {
+        items.set(row.id, row);
+        record(null, row);
+      });
+      notify();
+      return rows.map((row) => ({ ...row }));
+    },
+    async updateItem(id, updates) {
+      return update(id, normalizeItemBarcode(updates), 'Failed to update inventory item');
+    },
+    async consumeItem(id, amount = 1) {
+      const current = getExisting(id, 'Failed to consume inventory item');
+      return update(id, getConsumeUpdate(current, amount, now()), 'Failed to consume inventory item');
+    },
+    async markOpened(id) {
+      const current = getExisting(id, 'Failed to mark inventory item opened');
+      const today = toISODate(options.now ? options.now() : new Date());
+      return update(id, getOpenedUpdate(current, today), 'Failed to mark inventory item opened');
+    },
+    async setStatus(id, status, reason) {
+      return update(
+        id,
+        { status, status_changed_at: now(), status_reason: reason || null },
+        'Failed to update inventory item status'
+      );
+    },
+    async restoreItem(id) {
+      const current = getExisting(id, 'Failed to restore inventory item');
+      return update(id, getRestoreUpdate(current, now()), 'Failed to restore inventory item');
+    },
+    async deleteItem(id) {
+      const item = items.get(id);
+      if (item) {
+        items.delete(id);
+        record(item, null);
+      }
+      notify();
+    },
+    async getPendingItemIds() {
+      return new Set<string>();
+    },
+    async sync() {
+      return { pushed: 0, pending: 0, online: true };
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    // Nothing changes it from elsewhere, and every write is accepted
+    subscribeToRemoteChanges() {
+      return () => {};
+    },
+    subscribeToRejectedChanges() {
+      return () => {};
+    },
+    async listEvents(scope, pageOptions = {}) {
+      const limit = pageOptions.limit ?? DEFAULT_PAGE_SIZE;
+      const rows = events
+        .filter((event) => inScope(event, scope) && (pageOptions.before == null || event.id < pageOptions.before))
+        .reverse()
+        .slice(0, limit + 1);
+      const page = rows.slice(0, limit).map((event) => ({ ...event }));
+      return {
+        events: page,
+        nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+      };
+    },
+    // Same rules as undo_inventory_event: the latest change that is neither
+    // undone nor an undo itself is reversed, and the reversal is logged
+    async undoEvent(scope) {
+      const event = [...events].reverse().find(
+        (candidate) => inScope(candidate, scope) && candidate.undone_at === null && candidate.undoes === null
+      );
+      if (!event) return null;
+
+      const current = items.get(event.inventory_id) || null;
+      if (event.operation === 'insert') {
+        if (current) {
+          items.delete(current.id);
+          record(current, null, event.id);
+        }
+      } else if (event.operation === 'update') {
+        if (!current) {
+          throw new Error('Failed to undo change: the item no longer exists');
+        }
+        const restored = { ...current, ...event.old_values, updated_at: now() } as InventoryRow;
+        items.set(current.id, restored);
+        record(current, restored, event.id);
+      } else if (!current) {
+        const restored = { ...event.old_values, updated_at: now() } as InventoryRow;
+        items.set(restored.id, restored);
+        record(null, restored, event.id);
+      }
+
+      event.undone_at = now();
+      notify();
+      return { ...event };
+    },
+    // Only the local user, whom the screens already call "You"
+    async getMembers() {
+      return [];
+    },
+  };
+}
@@ -1,45 +1,185 @@
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
-import { InventoryRow, InventoryInsert, InventoryUpdate } from '../types/supabase';
+import { supabase } from '../lib/supabase';
+import {
+  InventoryRow,
+  InventoryInsert,
+  InventoryUpdate,
+  InventoryStatus,
+} from '../types/supabase';
+import { syncItemReminders, cancelItemReminders } from '../utils/notifications';
+import {
+  InventoryOwner,
+  LocalChange,
+  claimLocalInventory,
+  createItemId,
+  getLocalItems,
+  getLocalItem,
+  recordLocalChange,
+  recordLocalChanges,
+} from './inventoryStore';
+import { requestInventorySync } from './inventorySync';
+import { canEditHousehold, clearHouseholds, getCurrentHouseholdId } from './households';
+import {
+  buildInventoryRow,
+  normalizeItemBarcode,
+  getConsumeUpdate,
+  getRestoreUpdate,
+  getOpenedUpdate,
+  matchesSearch,
+  getActiveItems,
+  getClosedItems,
+  isInHousehold,
+  toCarryOverInsert,
+} from '../utils/inventoryItems';
+import { toISODate } from '../utils/shelfLife';
+
+// Reads are served from the local store and writes are queued in its outbox,
+// so the inventory keeps working offline; see inventorySync.ts for how the
+// outbox is replayed against Supabase.
+
+// Kept here for existing imports; screens import them from utils/inventoryItems
+export { INVENTORY_UNITS, WASTE_REASONS } from '../utils/inventoryItems';
+
+async function getCurrentUserId(): Promise<string | null> {
+  try {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user.id ?? null;
+  } catch {
+    return null;
+  }
+}
 
 /**
- * Get all inventory items for the current user
+ * Viewers cannot change a household's items; fail before the write is
+ * queued rather than when Supabase rejects it
  */
-export async function getInventoryItems(): Promise<InventoryRow[]> {
-  if (!isSupabaseConfigured()) {
-    throw new Error('Supabase is not configured');
+async function requireEditableHousehold(householdId: string | null, action: string): Promise<void> {
+  if (!(await canEditHousehold(householdId))) {
+    throw new Error(`${action}: you can only view this household`);
   }
+}
 
-  const { data, error } = await supabase
-    .from('inventory')
-    .select('*')
-    .order('created_at', { ascending: false });
+/**
+ * Items of the current household
+ */
+async function getHouseholdItems(): Promise<InventoryRow[]> {
+  const householdId = await getCurrentHouseholdId();
+  return (await getLocalItems()).filter((item) => isInHousehold(item, householdId));
+}
 
-  if (error) {
-    throw new Error(`Failed to fetch inventory: ${error.message}`);
+/**
+ * Apply an update locally, queue it for sync and refresh the item's reminders
+ */
+async function applyLocalUpdate(
+  id: string,
+  updates: InventoryUpdate,
+  action: string
+): Promise<InventoryRow> {
+  const current = await getLocalItem(id);
+  if (!current) {
+    throw new Error(`${action}: item not found`);
+  }
+  await requireEditableHousehold(current.household_id, action);
+  if (updates.household_id) {
+    await requireEditableHousehold(updates.household_id, action);
   }
 
-  return data || [];
+  const changes: InventoryUpdate = { ...updates, updated_at: new Date().toISOString() };
+  const row: InventoryRow = { ...current, ...changes } as InventoryRow;
+
+  await recordLocalChange('update', id, row, changes);
+  requestInventorySync();
+  await syncItemReminders(row);
+
+  return row;
+}
+
+/**
+ * Get all active inventory items of the current household
+ */
+export async function getInventoryItems(): Promise<InventoryRow[]> {
+  return getActiveItems(await getHouseholdItems());
+}
+
+/**
+ * Get a single inventory item (active or closed)
+ */
+export async function getInventoryItem(id: string): Promise<InventoryRow | null> {
+  return getLocalItem(id);
+}
+
+/**
+ * Local row and insert payload for a new item
+ */
+function prepareInsert(
+  item: InventoryInsert,
+  currentUserId: string | null,
+  currentHouseholdId: string | null,
+  now: string
+): LocalChange & { row: InventoryRow } {
+  const id = item.id || createItemId();
+  const userId = item.user_id || currentUserId;
+  const householdId = item.household_id || currentHouseholdId;
+
+  const changes: InventoryInsert = {
+    ...normalizeItemBarcode(item),
+    id,
+    created_at: item.created_at || now,
+    updated_at: now,
+  };
+  // Without a known user or household, Supabase fills in auth.uid() and the
+  // user's own household on sync
+  if (userId) {
+    changes.user_id = userId;
+  }
+  if (householdId) {
+    changes.household_id = householdId;
+  }
+
+  return { operation: 'insert', itemId: id, row: buildInventoryRow(changes, id, userId, now), changes };
 }
 
 /**
  * Add a new item to inventory
+ * The item is saved locally right away and synced when Supabase is reachable.
  */
 export async function addInventoryItem(item: InventoryInsert): Promise<InventoryRow> {
-  if (!isSupabaseConfigured()) {
-    throw new Error('Supabase is not configured');
-  }
+  const now = new Date().toISOString();
+  const householdId = await getCurrentHouseholdId();
+  const insert = prepareInsert(item, item.user_id ? null : await getCurrentUserId(), householdId, now);
+  await requireEditableHousehold(insert.row.household_id || null, 'Failed to add inventory item');
+
+  await recordLocalChange('insert', insert.itemId, insert.row, insert.changes);
+  requestInventorySync();
+  await syncItemReminders(insert.row);
+
+  return insert.row;
+}
 
-  const { data, error } = await supabase
-    .from('inventory')
-    .insert(item)
-    .select()
-    .single();
+/**
+ * Add several items at once (e.g. a batch scanning session)
+ * All items are saved locally in one write and reach Supabase as one bulk
+ * insert when it is reachable.
+ *
+ * @returns The new rows, in the order given
+ */
+export async function addInventoryItems(items: InventoryInsert[]): Promise<InventoryRow[]> {
+  if (items.length === 0) return [];
 
-  if (error) {
-    throw new Error(`Failed to add inventory item: ${error.message}`);
+  const now = new Date().toISOString();
+  const currentUserId = await getCurrentUserId();
+  const householdId = await getCurrentHouseholdId();
+  const inserts = items.map((item) => prepareInsert(item, currentUserId, householdId, now));
+  for (const insert of inserts) {
+    await requireEditableHousehold(insert.row.household_id || null, 'Failed to add inventory items');
   }
 
-  return data;
+  await recordLocalChanges(inserts);
+  requestInventorySync();
+  for (const insert of inserts) {
+    await syncItemReminders(insert.row);
+  }
+
+  return inserts.map((insert) => insert.row);
 }
 
 /**
@@ -49,80 +189,159 @@ export async function updateInventoryItem(
   id: string,
   updates: InventoryUpdate
 ): Promise<InventoryRow> {
-  if (!isSupabaseConfigured()) {
-    throw new Error('Supabase is not configured');
+  return applyLocalUpdate(id, normalizeItemBarcode(updates), 'Failed to update inventory item');
+}
+
+/**
+ * Consume part of an inventory item
+ * Reduces the quantity by `amount`; once it reaches zero the item is
+ * closed as consumed and no longer appears in the active inventory list.
+ */
+export async function consumeInventoryItem(
+  id: string,
+  amount: number = 1
+): Promise<InventoryRow> {
+  const current = await getLocalItem(id);
+  if (!current) {
+    throw new Error('Failed to consume inventory item: item not found');
   }
 
-  const { data, error } = await supabase
-    .from('inventory')
-    .update(updates)
-    .eq('id', id)
-    .select()
-    .single();
+  const updates = getConsumeUpdate(current, amount, new Date().toISOString());
+  return applyLocalUpdate(id, updates, 'Failed to consume inventory item');
+}
 
-  if (error) {
-    throw new Error(`Failed to update inventory item: ${error.message}`);
+/**
+ * Mark an inventory item as opened today
+ * Its deadline becomes the earlier of the printed date and today plus its
+ * "after opening, use within N days" window.
+ */
+export async function markInventoryItemOpened(id: string): Promise<InventoryRow> {
+  const current = await getLocalItem(id);
+  if (!current) {
+    throw new Error('Failed to mark inventory item opened: item not found');
   }
 
-  return data;
+  return applyLocalUpdate(id, getOpenedUpdate(current, toISODate(new Date())), 'Failed to mark inventory item opened');
 }
 
 /**
- * Delete an inventory item
+ * Change the lifecycle status of an inventory item
+ * Records when and why the status changed.
  */
-export async function deleteInventoryItem(id: string): Promise<void> {
-  if (!isSupabaseConfigured()) {
-    throw new Error('Supabase is not configured');
-  }
+export async function setInventoryItemStatus(
+  id: string,
+  status: InventoryStatus,
+  reason?: string | null
+): Promise<InventoryRow> {
+  return applyLocalUpdate(
+    id,
+    {
+      status,
+      status_changed_at: new Date().toISOString(),
+      status_reason: reason || null,
+    },
+    'Failed to update inventory item status'
+  );
+}
 
-  const { error } = await supabase
-    .from('inventory')
-    .delete()
-    .eq('id', id);
+/**
+ * Close an item as consumed (eaten / used up)
+ */
+export async function markItemConsumed(id: string, reason?: string): Promise<InventoryRow> {
+  return setInventoryItemStatus(id, 'consumed', reason);
+}
 
-  if (error) {
-    throw new Error(`Failed to delete inventory item: ${error.message}`);
-  }
+/**
+ * Close an item as wasted (thrown away)
+ */
+export async function markItemWasted(id: string, reason?: string): Promise<InventoryRow> {
+  return setInventoryItemStatus(id, 'wasted', reason);
 }
 
 /**
- * Search inventory items by product name or barcode
+ * Close an item as donated (given away)
  */
-export async function searchInventoryItems(query: string): Promise<InventoryRow[]> {
-  if (!isSupabaseConfigured()) {
-    throw new Error('Supabase is not configured');
+export async function markItemDonated(id: string, reason?: string): Promise<InventoryRow> {
+  return setInventoryItemStatus(id, 'donated', reason);
+}
+
+/**
+ * Reopen a closed item, putting it back in the active list
+ * Items that were used up come back with a quantity of 1.
+ */
+export async function restoreInventoryItem(id: string): Promise<InventoryRow> {
+  const current = await getLocalItem(id);
+  if (!current) {
+    throw new Error('Failed to restore inventory item: item not found');
   }
 
-  const { data, error } = await supabase
-    .from('inventory')
-    .select('*')
-    .or(`product_name.ilike.%${query}%,barcode.ilike.%${query}%`)
-    .order('created_at', { ascending: false });
+  return applyLocalUpdate(id, getRestoreUpdate(current, new Date().toISOString()), 'Failed to restore inventory item');
+}
 
-  if (error) {
-    throw new Error(`Failed to search inventory: ${error.message}`);
-  }
+/**
+ * Get closed (consumed, wasted, donated) items, most recently closed first
+ */
+export async function getInventoryHistory(): Promise<InventoryRow[]> {
+  return getClosedItems(await getHouseholdItems());
+}
+
+/**
+ * Permanently delete an inventory item
+ * Prefer the status transitions above so the item stays in the history.
+ */
+export async function deleteInventoryItem(id: string): Promise<void> {
+  const current = await getLocalItem(id);
+  await requireEditableHousehold(current?.household_id || null, 'Failed to delete inventory item');
+  await recordLocalChange('delete', id, null, null);
+  requestInventorySync();
+  await cancelItemReminders(id);
+}
 
-  return data || [];
+/**
+ * Search inventory items by product name or barcode
+ */
+export async function searchInventoryItems(query: string): Promise<InventoryRow[]> {
+  const items = getActiveItems(await getHouseholdItems());
+  return items.filter((item) => matchesSearch(item, query));
 }
 
 /**
  * Filter inventory items by category
  */
 export async function filterInventoryByCategory(category: string): Promise<InventoryRow[]> {
-  if (!isSupabaseConfigured()) {
-    throw new Error('Supabase is not configured');
-  }
+  const items = getActiveItems(await getHouseholdItems());
+  return items.filter((item) => item.category === category);
+}
 
-  const { data, error } = await supabase
-    .from('inventory')
-    .select('*')
-    .eq('category', category)
-    .order('created_at', { ascending: false });
+/**
+ * Hand the local inventory to the user who just signed in (or to nobody
+ * after signing out)
+ * Another user's items are removed from this device along with their
+ * reminders. If that user was a guest, their active items are added to
+ * the new account instead of being lost.
+ *
+ * @returns Number of guest items carried over
+ */
+export async function switchInventoryUser(next: InventoryOwner | null): Promise<number> {
+  const { changed, dropped, fromGuest } = await claimLocalInventory(next);
+  for (const item of dropped) {
+    await cancelItemReminders(item.id);
+  }
+  // The households cached are the previous user's; the carried over items
+  // go to the new user's own household
+  if (changed) {
+    await clearHouseholds();
+  }
 
-  if (error) {
-    throw new Error(`Failed to filter inventory: ${error.message}`);
+  if (!next) {
+    return 0;
   }
 
-  return data || [];
+  const carried = fromGuest ? getActiveItems(dropped) : [];
+  if (carried.length > 0) {
+    await addInventoryItems(carried.map((item) => toCarryOverInsert(item, next.userId)));
+  } else {
+    requestInventorySync();
+  }
+  return carried.length;
 }
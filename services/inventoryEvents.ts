@@ -0,0 +1,119 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { InventoryEventRow } from '../types/supabase';
+import { getPendingItemIds } from './inventoryStore';
+import { syncInventory } from './inventorySync';
+
+/**
+ * Whose events to read or undo: one item's, or a whole household's
+ */
+export type InventoryEventScope = { itemId: string } | { householdId: string };
+
+/**
+ * One page of events, newest first
+ */
+export interface InventoryEventPage {
+  events: InventoryEventRow[];
+  nextCursor: number | null; // Pass as `before` to get the next page; null on the last page
+}
+
+export interface InventoryEventPageOptions {
+  before?: number | null; // Only events older than this event id
+  limit?: number; // Events per page (default 20)
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+function requireSupabase(): void {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+}
+
+function scopeFilter(scope: InventoryEventScope): [column: string, value: string] {
+  return 'itemId' in scope ? ['inventory_id', scope.itemId] : ['household_id', scope.householdId];
+}
+
+/**
+ * Page through the audit log of an item or a household, newest first
+ * The log lives in Supabase only, so this needs a connection.
+ */
+export async function getInventoryEvents(
+  scope: InventoryEventScope,
+  options: InventoryEventPageOptions = {}
+): Promise<InventoryEventPage> {
+  requireSupabase();
+
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const [column, value] = scopeFilter(scope);
+
+  // One extra row tells whether there is another page
+  let query = supabase
+    .from('inventory_events')
+    .select('*')
+    .eq(column, value)
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (options.before != null) {
+    query = query.lt('id', options.before);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch inventory changes: ${error.message}`);
+  }
+
+  const rows: InventoryEventRow[] = data || [];
+  const events = rows.slice(0, limit);
+  return {
+    events,
+    nextCursor: rows.length > limit ? events[events.length - 1].id : null,
+  };
+}
+
+/**
+ * Undo the most recent change of an item or a household by replaying its
+ * inverse (deleting an added item, restoring changed values, re-adding a
+ * deleted item). Calling it again undoes the change before that.
+ * Local changes are synced first, so the undo applies to the latest state;
+ * the result comes back into the local copy with a sync.
+ *
+ * @returns The undone event, or null if there is nothing to undo
+ */
+export async function undoLastInventoryChange(scope: InventoryEventScope): Promise<InventoryEventRow | null> {
+  requireSupabase();
+
+  const synced = await syncInventory();
+  if (!synced.online) {
+    throw new Error('Failed to undo change: you are offline');
+  }
+
+  const pendingIds = await getPendingItemIds();
+  if ('itemId' in scope ? pendingIds.has(scope.itemId) : pendingIds.size > 0) {
+    throw new Error('Failed to undo change: some changes have not been synced yet');
+  }
+
+  const [column, value] = scopeFilter(scope);
+  const { data: latest, error: fetchError } = await supabase
+    .from('inventory_events')
+    .select('*')
+    .eq(column, value)
+    .is('undone_at', null)
+    .is('undoes', null)
+    .order('id', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to undo change: ${fetchError.message}`);
+  }
+  if (!latest) return null;
+
+  const { data, error } = await supabase.rpc('undo_inventory_event', { target_event: latest.id });
+  if (error) {
+    throw new Error(`Failed to undo change: ${error.message}`);
+  }
+
+  await syncInventory();
+  return data;
+}
@@ -0,0 +1,95 @@
+import {
+  InventoryRow,
+  InventoryInsert,
+  InventoryUpdate,
+  InventoryStatus,
+  InventoryEventRow,
+  HouseholdMemberWithEmailRow,
+} from '../types/supabase';
+import * as inventory from './inventory';
+import { getPendingItemIds, subscribeToInventoryStore } from './inventoryStore';
+import {
+  RejectedChange,
+  SyncResult,
+  subscribeToRejectedInventoryChanges,
+  subscribeToRemoteInventoryChanges,
+  syncInventory,
+} from './inventorySync';
+import {
+  InventoryEventPage,
+  InventoryEventPageOptions,
+  InventoryEventScope,
+  getInventoryEvents,
+  undoLastInventoryChange,
+} from './inventoryEvents';
+import { getCurrentHousehold, getHouseholdMembers, subscribeToHouseholds } from './households';
+
+/**
+ * Everything screens need to read and change the inventory
+ * Screens get an implementation from ServicesContext instead of importing
+ * services/inventory.ts, so they can run against the in-memory backend
+ * (inMemoryInventoryRepository.ts).
+ */
+export interface InventoryRepository {
+  getItems(): Promise<InventoryRow[]>; // Active items, newest first
+  getItem(id: string): Promise<InventoryRow | null>;
+  getHistory(): Promise<InventoryRow[]>; // Closed items, most recently closed first
+  search(query: string): Promise<InventoryRow[]>;
+  addItem(item: InventoryInsert): Promise<InventoryRow>;
+  addItems(items: InventoryInsert[]): Promise<InventoryRow[]>; // One bulk write, rows in the order given
+  updateItem(id: string, updates: InventoryUpdate): Promise<InventoryRow>;
+  consumeItem(id: string, amount?: number): Promise<InventoryRow>;
+  markOpened(id: string): Promise<InventoryRow>; // Opened today; starts the "after opening" window
+  setStatus(id: string, status: InventoryStatus, reason?: string | null): Promise<InventoryRow>;
+  restoreItem(id: string): Promise<InventoryRow>;
+  deleteItem(id: string): Promise<void>;
+  getPendingItemIds(): Promise<Set<string>>; // Items with changes not synced yet
+  sync(): Promise<SyncResult>;
+  subscribe(listener: () => void): () => void; // Returns an unsubscribe function
+  subscribeToRemoteChanges(listener: (itemIds: string[]) => void): () => void; // Items changed on other devices
+  subscribeToRejectedChanges(listener: (changes: RejectedChange[]) => void): () => void; // Local writes Supabase refused
+  listEvents(scope: InventoryEventScope, options?: InventoryEventPageOptions): Promise<InventoryEventPage>; // Change log, newest first
+  undoEvent(scope: InventoryEventScope): Promise<InventoryEventRow | null>; // Undoes the latest change; null if none is left
+  getMembers(): Promise<HouseholdMemberWithEmailRow[]>; // Members of the current household, to name who made a change
+}
+
+/**
+ * Repository backed by the offline-first inventory service, which syncs
+ * with Supabase
+ */
+export function createSupabaseInventoryRepository(): InventoryRepository {
+  return {
+    getItems: inventory.getInventoryItems,
+    getItem: inventory.getInventoryItem,
+    getHistory: inventory.getInventoryHistory,
+    search: inventory.searchInventoryItems,
+    addItem: inventory.addInventoryItem,
+    addItems: inventory.addInventoryItems,
+    updateItem: inventory.updateInventoryItem,
+    consumeItem: inventory.consumeInventoryItem,
+    markOpened: inventory.markInventoryItemOpened,
+    setStatus: inventory.setInventoryItemStatus,
+    restoreItem: inventory.restoreInventoryItem,
+    deleteItem: inventory.deleteInventoryItem,
+    getPendingItemIds,
+    sync: syncInventory,
+    // Switching household changes which items the reads return
+    subscribe: (listener) => {
+      const unsubscribeStore = subscribeToInventoryStore(listener);
+      const unsubscribeHouseholds = subscribeToHouseholds(listener);
+      return () => {
+        unsubscribeStore();
+        unsubscribeHouseholds();
+      };
+    },
+    subscribeToRemoteChanges: subscribeToRemoteInventoryChanges,
+    subscribeToRejectedChanges: subscribeToRejectedInventoryChanges,
+    // The change log lives in Supabase only, so these need a connection
+    listEvents: getInventoryEvents,
+    undoEvent: undoLastInventoryChange,
+    getMembers: async () => {
+      const household = await getCurrentHousehold();
+      return household ? getHouseholdMembers(household.id) : [];
+    },
+  };
+}
@@ -0,0 +1,381 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { InventoryRow, InventoryInsert, InventoryUpdate } from '../types/supabase';
+
+// AsyncStorage keys of the local inventory copy and the pending-write outbox
+const ITEMS_KEY = 'expiryscanner:inventory';
+const OUTBOX_KEY = 'expiryscanner:inventory-outbox';
+const OWNER_KEY = 'expiryscanner:inventory-owner';
+
+export type OutboxOperation = 'insert' | 'update' | 'delete';
+
+/**
+ * A local write waiting to be replayed against Supabase
+ */
+export interface OutboxEntry {
+  id: string; // UUID of the entry itself
+  operation: OutboxOperation;
+  itemId: string; // UUID of the inventory item
+  changes: InventoryInsert | InventoryUpdate | null; // null for deletes
+  queuedAt: string; // Timestamp the write was made on this device
+  attempts: number;
+  lastError: string | null;
+}
+
+/**
+ * One local write, as passed to recordLocalChanges
+ */
+export interface LocalChange {
+  operation: OutboxOperation;
+  itemId: string; // Item the write applies to
+  row: InventoryRow | null; // New local state of the item, null when it was deleted
+  changes: InventoryInsert | InventoryUpdate | null; // Payload to replay (insert row or update fields)
+}
+
+/**
+ * Outcome of replaying one outbox entry, as passed to completeOutboxEntries
+ */
+export interface CompletedEntry {
+  entryId: string;
+  itemId: string;
+  serverRow: InventoryRow | null; // Item as Supabase has it, null if it no longer exists there
+}
+
+/**
+ * A change made on another device, as Supabase Realtime reports it
+ */
+export interface RemoteChange {
+  itemId: string;
+  row: InventoryRow | null; // New state of the item, null when it was deleted
+}
+
+/**
+ * User the local copy belongs to
+ */
+export interface InventoryOwner {
+  userId: string;
+  isGuest: boolean; // Anonymous session
+}
+
+/**
+ * What changed when the local copy was claimed by another user
+ */
+export interface ClaimResult {
+  changed: boolean; // The copy now belongs to someone else
+  dropped: InventoryRow[]; // Items of the previous user, now removed
+  fromGuest: boolean; // The previous user was a guest
+}
+
+type StoreListener = () => void;
+
+let items: Record<string, InventoryRow> = {};
+let outbox: OutboxEntry[] = [];
+let owner: InventoryOwner | null = null;
+let hydration: Promise<void> | null = null;
+let persistQueue: Promise<unknown> = Promise.resolve();
+const listeners = new Set<StoreListener>();
+
+/**
+ * Loads the persisted store into memory (once)
+ */
+function hydrate(): Promise<void> {
+  if (!hydration) {
+    hydration = (async () => {
+      const [storedItems, storedOutbox, storedOwner] = await Promise.all([
+        AsyncStorage.getItem(ITEMS_KEY),
+        AsyncStorage.getItem(OUTBOX_KEY),
+        AsyncStorage.getItem(OWNER_KEY),
+      ]);
+      items = storedItems ? JSON.parse(storedItems) : {};
+      outbox = storedOutbox ? JSON.parse(storedOutbox) : [];
+      owner = storedOwner ? JSON.parse(storedOwner) : null;
+    })().catch((error) => {
+      hydration = null;
+      throw error;
+    });
+  }
+  return hydration;
+}
+
+/**
+ * Writes the in-memory store to AsyncStorage, one write at a time
+ * Resolves once this change is on disk, so a queued write survives restarts.
+ */
+function persist(): Promise<void> {
+  const itemsSnapshot = JSON.stringify(items);
+  const outboxSnapshot = JSON.stringify(outbox);
+  const ownerSnapshot = owner ? JSON.stringify(owner) : null;
+  const write = persistQueue.then(() =>
+    Promise.all([
+      AsyncStorage.multiSet([
+        [ITEMS_KEY, itemsSnapshot],
+        [OUTBOX_KEY, outboxSnapshot],
+      ]),
+      ownerSnapshot ? AsyncStorage.setItem(OWNER_KEY, ownerSnapshot) : AsyncStorage.removeItem(OWNER_KEY),
+    ]).then(() => undefined)
+  );
+  persistQueue = write.catch(() => undefined);
+  return write;
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Generate a UUID for a new inventory item, so the local row and the
+ * Supabase row share the same id
+ */
+export function createItemId(): string {
+  return Crypto.randomUUID();
+}
+
+/**
+ * Get every locally known inventory item (active and closed)
+ */
+export async function getLocalItems(): Promise<InventoryRow[]> {
+  await hydrate();
+  return Object.values(items);
+}
+
+/**
+ * Get a single locally known inventory item
+ */
+export async function getLocalItem(id: string): Promise<InventoryRow | null> {
+  await hydrate();
+  return items[id] || null;
+}
+
+/**
+ * Apply a local write and queue it for Supabase in one step
+ *
+ * @param operation - Write to replay
+ * @param itemId - Item the write applies to
+ * @param row - New local state of the item, null when it was deleted
+ * @param changes - Payload to replay (insert row or update fields)
+ */
+export async function recordLocalChange(
+  operation: OutboxOperation,
+  itemId: string,
+  row: InventoryRow | null,
+  changes: InventoryInsert | InventoryUpdate | null
+): Promise<void> {
+  return recordLocalChanges([{ operation, itemId, row, changes }]);
+}
+
+/**
+ * Apply several local writes and queue them, with a single write to disk
+ * and a single change notification (e.g. saving a batch of scans)
+ */
+export async function recordLocalChanges(changes: LocalChange[]): Promise<void> {
+  await hydrate();
+
+  const queuedAt = new Date().toISOString();
+  for (const change of changes) {
+    if (change.row) {
+      items[change.itemId] = change.row;
+    } else {
+      delete items[change.itemId];
+    }
+
+    outbox.push({
+      id: Crypto.randomUUID(),
+      operation: change.operation,
+      itemId: change.itemId,
+      changes: change.changes,
+      queuedAt,
+      attempts: 0,
+      lastError: null,
+    });
+  }
+
+  await persist();
+  notify();
+}
+
+/**
+ * Get the writes still waiting to be synced, oldest first
+ */
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  await hydrate();
+  return [...outbox];
+}
+
+/**
+ * Ids of items with local changes that have not reached Supabase yet
+ */
+export async function getPendingItemIds(): Promise<Set<string>> {
+  await hydrate();
+  return new Set(outbox.map((entry) => entry.itemId));
+}
+
+/**
+ * Remove a replayed write from the outbox and store the item as Supabase
+ * now has it (null if it no longer exists there)
+ */
+export async function completeOutboxEntry(entryId: string, serverRow: InventoryRow | null, itemId: string): Promise<void> {
+  return completeOutboxEntries([{ entryId, itemId, serverRow }]);
+}
+
+/**
+ * completeOutboxEntry for several replayed writes at once
+ */
+export async function completeOutboxEntries(completed: CompletedEntry[]): Promise<void> {
+  await hydrate();
+
+  const completedIds = new Set(completed.map((entry) => entry.entryId));
+  outbox = outbox.filter((entry) => !completedIds.has(entry.id));
+
+  for (const { itemId, serverRow } of completed) {
+    // Later queued writes for the item are already applied locally
+    const stillPending = outbox.some((entry) => entry.itemId === itemId);
+    if (!stillPending) {
+      if (serverRow) {
+        items[itemId] = serverRow;
+      } else {
+        delete items[itemId];
+      }
+    }
+  }
+
+  await persist();
+  notify();
+}
+
+/**
+ * Record a failed replay attempt; the entry stays in the outbox
+ */
+export async function failOutboxEntry(entryId: string, message: string): Promise<void> {
+  await hydrate();
+
+  outbox = outbox.map((entry) =>
+    entry.id === entryId
+      ? { ...entry, attempts: entry.attempts + 1, lastError: message }
+      : entry
+  );
+
+  await persist();
+  notify();
+}
+
+/**
+ * Replace the local copy with the rows pulled from Supabase
+ * Items with pending writes keep their local state until those are replayed.
+ *
+ * @returns The items that were added, changed or removed locally
+ */
+export async function replaceLocalItems(serverRows: InventoryRow[]): Promise<RemoteChange[]> {
+  await hydrate();
+
+  const pending = new Set(outbox.map((entry) => entry.itemId));
+  const next: Record<string, InventoryRow> = {};
+
+  for (const row of serverRows) {
+    next[row.id] = row;
+  }
+  for (const id of pending) {
+    if (items[id]) {
+      next[id] = items[id];
+    } else {
+      delete next[id]; // Deleted locally, delete not replayed yet
+    }
+  }
+
+  const changed: RemoteChange[] = [];
+  for (const [id, row] of Object.entries(next)) {
+    const local = items[id];
+    if (!local || new Date(local.updated_at).getTime() !== new Date(row.updated_at).getTime()) {
+      changed.push({ itemId: id, row });
+    }
+  }
+  for (const id of Object.keys(items)) {
+    if (!next[id]) {
+      changed.push({ itemId: id, row: null });
+    }
+  }
+
+  items = next;
+  await persist();
+  notify();
+  return changed;
+}
+
+/**
+ * Merge changes made elsewhere into the local copy
+ * Items with pending writes keep their local state (the replay resolves the
+ * conflict), and events older than the local row or repeating it (e.g. the
+ * echo of this device's own sync) are ignored.
+ *
+ * @returns The changes that were applied, one per item
+ */
+export async function applyRemoteChanges(changes: RemoteChange[]): Promise<RemoteChange[]> {
+  await hydrate();
+
+  const pending = new Set(outbox.map((entry) => entry.itemId));
+  const applied = new Map<string, RemoteChange>();
+
+  for (const { itemId, row } of changes) {
+    if (pending.has(itemId)) continue;
+
+    const local = items[itemId];
+    if (!row) {
+      if (!local) continue;
+      delete items[itemId];
+    } else {
+      // Compared as times: Realtime and PostgREST format timestamps differently
+      if (local && new Date(local.updated_at).getTime() >= new Date(row.updated_at).getTime()) continue;
+      items[itemId] = row;
+    }
+    applied.set(itemId, { itemId, row });
+  }
+
+  if (applied.size === 0) return [];
+
+  await persist();
+  notify();
+  return [...applied.values()];
+}
+
+/**
+ * Make the local copy belong to the signed-in user
+ * If it belonged to another user (another account signed in on this
+ * device before), their items and unsynced writes are removed and returned.
+ * A copy made before anyone signed in is kept for the first user.
+ *
+ * @param next - Signed-in user, or null after signing out
+ */
+export async function claimLocalInventory(next: InventoryOwner | null): Promise<ClaimResult> {
+  await hydrate();
+  const previous = owner;
+
+  if (previous && next && previous.userId === next.userId) {
+    // Same user; a guest may have upgraded to a full account
+    if (previous.isGuest !== next.isGuest) {
+      owner = next;
+      await persist();
+    }
+    return { changed: false, dropped: [], fromGuest: false };
+  }
+
+  const dropped = previous ? Object.values(items) : [];
+  if (previous) {
+    items = {};
+    outbox = [];
+  }
+  owner = next;
+
+  await persist();
+  notify();
+  return { changed: true, dropped, fromGuest: !!previous?.isGuest };
+}
+
+/**
+ * Subscribe to changes of the local inventory or outbox
+ * @returns Function that removes the listener
+ */
+export function subscribeToInventoryStore(listener: StoreListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
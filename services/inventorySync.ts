@@ -0,0 +1,453 @@
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { InventoryRow, InventoryUpdate } from '../types/supabase';
+import { syncItemReminders, cancelItemReminders } from '../utils/notifications';
+import {
+  CompletedEntry,
+  OutboxEntry,
+  OutboxOperation,
+  RemoteChange,
+  applyRemoteChanges,
+  getOutbox,
+  completeOutboxEntry,
+  completeOutboxEntries,
+  failOutboxEntry,
+  getLocalItem,
+  replaceLocalItems,
+} from './inventoryStore';
+
+export interface SyncResult {
+  pushed: number; // Outbox entries replayed
+  pending: number; // Outbox entries still waiting
+  online: boolean; // False if Supabase could not be reached
+}
+
+/**
+ * A local write Supabase would not take; it was dropped and the item put
+ * back the way Supabase has it
+ */
+export interface RejectedChange {
+  itemId: string;
+  operation: OutboxOperation;
+  productName: string | null;
+  message: string; // Why the last attempt failed
+}
+
+interface ReplayOutcome {
+  serverRow: InventoryRow | null; // Item as Supabase has it after the replay
+}
+
+/**
+ * Raised when Supabase cannot be reached; replay stops and resumes later
+ */
+class OfflineError extends Error {}
+
+/**
+ * Raised when Supabase fails to handle a request (5xx, timeouts, rate
+ * limits); replay stops like when offline, but the attempt is counted
+ */
+class ServerError extends OfflineError {}
+
+/**
+ * Raised when Supabase refuses a write (RLS, a constraint, a bad value);
+ * sending it again cannot succeed
+ */
+class RejectedWriteError extends Error {}
+
+type RemoteChangeListener = (itemIds: string[]) => void;
+type RejectedChangeListener = (changes: RejectedChange[]) => void;
+
+let currentSync: Promise<SyncResult> | null = null;
+let queuedRemoteChanges: RemoteChange[] = [];
+let remoteFlushTimer: ReturnType<typeof setTimeout> | null = null;
+const remoteChangeListeners = new Set<RemoteChangeListener>();
+const rejectedChangeListeners = new Set<RejectedChangeListener>();
+
+// Most inserts sent to Supabase in one request
+const MAX_BULK_INSERT = 100;
+
+// A write that failed on the server this often is given up on
+const MAX_REPLAY_ATTEMPTS = 5;
+
+// Realtime events arriving this close together are merged in one write
+const REMOTE_CHANGE_BATCH_MS = 250;
+
+/**
+ * Network failures come back with status 0, and 401 means an expired
+ * session; both clear up by themselves. 5xx, 408 and 429 are worth a few
+ * more tries. Anything else is a rejected write.
+ */
+function checkResponse(
+  response: { error: { message: string } | null; status: number },
+  action: string
+): void {
+  if (!response.error) return;
+
+  const { status, error } = response;
+  if (status === 0 || status === 401) {
+    throw new OfflineError(`${action}: ${error.message}`);
+  }
+  if (status >= 500 || status === 408 || status === 429) {
+    throw new ServerError(`${action}: ${error.message}`);
+  }
+  throw new RejectedWriteError(`${action}: ${error.message}`);
+}
+
+/**
+ * True if a failed entry should be dropped rather than retried: Supabase
+ * refused it, or it kept failing for another reason. Being offline never
+ * uses up attempts.
+ */
+function isPermanentFailure(entry: OutboxEntry, error: unknown): boolean {
+  if (error instanceof RejectedWriteError) return true;
+  if (error instanceof OfflineError && !(error instanceof ServerError)) return false;
+  return entry.attempts + 1 >= MAX_REPLAY_ATTEMPTS;
+}
+
+/**
+ * Drop a write Supabase will not take and put the item back the way
+ * Supabase has it
+ */
+async function rejectOutboxEntry(entry: OutboxEntry, message: string): Promise<RejectedChange> {
+  const serverRow = await fetchServerRow(entry.itemId);
+  const localRow = await getLocalItem(entry.itemId);
+  await completeOutboxEntry(entry.id, serverRow, entry.itemId);
+  await updateRemindersForChanges([{ itemId: entry.itemId, row: serverRow }]);
+  return {
+    itemId: entry.itemId,
+    operation: entry.operation,
+    productName: localRow?.product_name ?? serverRow?.product_name ?? null,
+    message,
+  };
+}
+
+async function fetchServerRow(id: string): Promise<InventoryRow | null> {
+  const response = await supabase
+    .from('inventory')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  checkResponse(response, 'Failed to fetch inventory item');
+  return response.data;
+}
+
+/**
+ * Replays one outbox entry. Conflicts are resolved last-write-wins on
+ * updated_at: a queued update or delete only applies if the Supabase row
+ * has not been changed more recently (ties go to Supabase); otherwise the
+ * local change is dropped and the Supabase row is kept.
+ */
+async function replayEntry(entry: OutboxEntry): Promise<ReplayOutcome> {
+  switch (entry.operation) {
+    case 'insert': {
+      // Idempotent: a retried insert that already landed is ignored
+      const response = await supabase
+        .from('inventory')
+        .upsert({ ...entry.changes, id: entry.itemId }, { onConflict: 'id', ignoreDuplicates: true });
+      checkResponse(response, 'Failed to add inventory item');
+      return { serverRow: await fetchServerRow(entry.itemId) };
+    }
+
+    case 'update': {
+      const changes = entry.changes as InventoryUpdate;
+      const changedAt = changes.updated_at || entry.queuedAt;
+      const response = await supabase
+        .from('inventory')
+        .update({ ...changes, updated_at: changedAt })
+        .eq('id', entry.itemId)
+        .lt('updated_at', changedAt)
+        .select();
+      checkResponse(response, 'Failed to update inventory item');
+
+      if (response.data && response.data.length > 0) {
+        return { serverRow: response.data[0] };
+      }
+      // Newer on Supabase, or deleted there: keep Supabase's version
+      return { serverRow: await fetchServerRow(entry.itemId) };
+    }
+
+    case 'delete': {
+      const response = await supabase
+        .from('inventory')
+        .delete()
+        .eq('id', entry.itemId)
+        .lte('updated_at', entry.queuedAt);
+      checkResponse(response, 'Failed to delete inventory item');
+      // Still there if it was changed elsewhere after the delete
+      return { serverRow: await fetchServerRow(entry.itemId) };
+    }
+  }
+}
+
+/**
+ * Replays consecutive insert entries (e.g. a saved batch of scans) as one
+ * bulk upsert. Idempotent like a single insert; columns an item leaves out
+ * get their table defaults.
+ */
+async function replayInserts(entries: OutboxEntry[]): Promise<CompletedEntry[]> {
+  const ids = entries.map((entry) => entry.itemId);
+  const response = await supabase
+    .from('inventory')
+    .upsert(
+      entries.map((entry) => ({ ...entry.changes, id: entry.itemId })),
+      { onConflict: 'id', ignoreDuplicates: true, defaultToNull: false }
+    );
+  checkResponse(response, 'Failed to add inventory items');
+
+  const fetched = await supabase.from('inventory').select('*').in('id', ids);
+  checkResponse(fetched, 'Failed to fetch inventory items');
+
+  const rows = new Map<string, InventoryRow>((fetched.data || []).map((row: InventoryRow) => [row.id, row]));
+  return entries.map((entry) => ({
+    entryId: entry.id,
+    itemId: entry.itemId,
+    serverRow: rows.get(entry.itemId) || null,
+  }));
+}
+
+/**
+ * Takes the run of insert entries at the start of `entries`
+ */
+function takeInsertRun(entries: OutboxEntry[]): OutboxEntry[] {
+  const run: OutboxEntry[] = [];
+  for (const entry of entries) {
+    if (entry.operation !== 'insert' || run.length >= MAX_BULK_INSERT) break;
+    run.push(entry);
+  }
+  return run;
+}
+
+/**
+ * Replay the outbox in order, stopping at the first network or server failure
+ * Writes Supabase rejects (e.g. a constraint violation), and writes that
+ * failed MAX_REPLAY_ATTEMPTS times, are dropped without blocking the
+ * writes behind them; rejected-change listeners hear about them.
+ */
+async function pushOutbox(): Promise<{ pushed: number; online: boolean }> {
+  let pushed = 0;
+  const entries = await getOutbox();
+  const rejected: RejectedChange[] = [];
+  let oneByOneUntil = 0; // Entries before this index are replayed singly
+
+  const reportRejected = () => {
+    if (rejected.length > 0) {
+      rejectedChangeListeners.forEach((listener) => listener(rejected));
+    }
+  };
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+
+    // Several inserts in a row go up together; if Supabase rejects the
+    // batch, they are replayed one by one below so one bad row cannot
+    // hold back the rest
+    const inserts = index >= oneByOneUntil ? takeInsertRun(entries.slice(index)) : [];
+    if (inserts.length > 1) {
+      try {
+        await completeOutboxEntries(await replayInserts(inserts));
+        pushed += inserts.length;
+        index += inserts.length - 1;
+        continue;
+      } catch (error) {
+        if (error instanceof OfflineError && !(error instanceof ServerError)) {
+          await failOutboxEntry(entry.id, error.message);
+          reportRejected();
+          return { pushed, online: false };
+        }
+        // The single replays below count the attempts
+        console.warn('Bulk insert failed, retrying items one by one:', error);
+        oneByOneUntil = index + inserts.length;
+      }
+    }
+
+    try {
+      const { serverRow } = await replayEntry(entry);
+      await completeOutboxEntry(entry.id, serverRow, entry.itemId);
+      pushed++;
+    } catch (error) {
+      let failure = error;
+      if (isPermanentFailure(entry, failure)) {
+        const message = failure instanceof Error ? failure.message : String(failure);
+        console.error('Inventory change rejected by Supabase, dropping it:', message);
+        try {
+          rejected.push(await rejectOutboxEntry(entry, message));
+          continue;
+        } catch (rejectError) {
+          // Could not fetch the item to put back; try again next sync
+          failure = rejectError;
+        }
+      }
+
+      await failOutboxEntry(entry.id, failure instanceof Error ? failure.message : String(failure));
+      if (failure instanceof OfflineError) {
+        reportRejected();
+        return { pushed, online: false };
+      }
+    }
+  }
+
+  reportRejected();
+  return { pushed, online: true };
+}
+
+/**
+ * Bring the local reminders in line with items changed on another device
+ * (edits, closes and deletes by household members, undos) or put back
+ * after a rejected write; reminders of items that are no longer active
+ * are cancelled
+ */
+async function updateRemindersForChanges(changes: RemoteChange[]): Promise<void> {
+  for (const { itemId, row } of changes) {
+    if (row) {
+      await syncItemReminders(row);
+    } else {
+      await cancelItemReminders(itemId);
+    }
+  }
+}
+
+/**
+ * Refresh the local copy with every inventory row from Supabase
+ */
+async function pullInventory(): Promise<void> {
+  const response = await supabase
+    .from('inventory')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  checkResponse(response, 'Failed to fetch inventory');
+  await updateRemindersForChanges(await replaceLocalItems(response.data || []));
+}
+
+/**
+ * Push queued local writes to Supabase, then pull the latest rows
+ * Concurrent calls share the same run. Never throws for connectivity
+ * problems; check `online` in the result instead.
+ */
+export function syncInventory(): Promise<SyncResult> {
+  if (!currentSync) {
+    currentSync = (async (): Promise<SyncResult> => {
+      if (!isSupabaseConfigured()) {
+        return { pushed: 0, pending: (await getOutbox()).length, online: false };
+      }
+
+      const { pushed, online } = await pushOutbox();
+      let reachable = online;
+      if (online) {
+        try {
+          await pullInventory();
+        } catch (error) {
+          if (!(error instanceof OfflineError)) throw error;
+          reachable = false;
+        }
+      }
+
+      return { pushed, pending: (await getOutbox()).length, online: reachable };
+    })().finally(() => {
+      currentSync = null;
+    });
+  }
+  return currentSync;
+}
+
+/**
+ * Start a sync without waiting for it (e.g. right after a local write)
+ */
+export function requestInventorySync(): void {
+  syncInventory().catch((error) => console.error('Inventory sync failed:', error));
+}
+
+async function flushRemoteChanges(): Promise<void> {
+  remoteFlushTimer = null;
+  const changes = queuedRemoteChanges;
+  queuedRemoteChanges = [];
+
+  const applied = await applyRemoteChanges(changes);
+  if (applied.length === 0) return;
+
+  const changedIds = applied.map((change) => change.itemId);
+  remoteChangeListeners.forEach((listener) => listener(changedIds));
+  await updateRemindersForChanges(applied);
+}
+
+function handleRealtimeChange(payload: RealtimePostgresChangesPayload<InventoryRow>): void {
+  if (payload.eventType === 'DELETE') {
+    if (!payload.old.id) return;
+    queuedRemoteChanges.push({ itemId: payload.old.id, row: null });
+  } else {
+    queuedRemoteChanges.push({ itemId: payload.new.id, row: payload.new });
+  }
+
+  if (!remoteFlushTimer) {
+    remoteFlushTimer = setTimeout(() => {
+      flushRemoteChanges().catch((error) => console.error('Failed to apply realtime inventory changes:', error));
+    }, REMOTE_CHANGE_BATCH_MS);
+  }
+}
+
+/**
+ * Subscribe to inventory changes made on other devices (e.g. by another
+ * household member) once they are in the local copy
+ * @returns Function that removes the listener
+ */
+export function subscribeToRemoteInventoryChanges(listener: RemoteChangeListener): () => void {
+  remoteChangeListeners.add(listener);
+  return () => {
+    remoteChangeListeners.delete(listener);
+  };
+}
+
+/**
+ * Subscribe to local writes that were dropped because Supabase would not
+ * take them (the item is back to Supabase's version), to tell the user
+ * @returns Function that removes the listener
+ */
+export function subscribeToRejectedInventoryChanges(listener: RejectedChangeListener): () => void {
+  rejectedChangeListeners.add(listener);
+  return () => {
+    rejectedChangeListeners.delete(listener);
+  };
+}
+
+/**
+ * Sync whenever connectivity returns or the app comes to the foreground,
+ * and merge changes made elsewhere as Supabase Realtime reports them
+ * @returns Function that stops listening
+ */
+export function startInventorySync(): () => void {
+  const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      requestInventorySync();
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      requestInventorySync();
+    }
+  });
+
+  // Realtime only sends rows the signed-in user can see (RLS); events missed
+  // while disconnected are caught up with a sync when the channel rejoins
+  const channel = isSupabaseConfigured()
+    ? supabase
+        .channel('inventory-changes')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'inventory' }, handleRealtimeChange)
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            requestInventorySync();
+          }
+        })
+    : null;
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+    if (channel) {
+      supabase.removeChannel(channel);
+    }
+  };
+}
@@ -0,0 +1,182 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  InventoryRow,
+  StorageKind,
+  StorageLocationRow,
+  StorageLocationInsert,
+} from '../types/supabase';
+import { computeExpiryAfterMove } from '../utils/shelfLife';
+import { canEditHousehold, getCurrentHouseholdId } from './households';
+
+/**
+ * Locations created for households that have not set up any of their own
+ */
+export const DEFAULT_STORAGE_LOCATIONS: StorageLocationInsert[] = [
+  { name: 'Fridge', kind: 'fridge' },
+  { name: 'Freezer', kind: 'freezer' },
+  { name: 'Pantry', kind: 'pantry' },
+];
+
+/**
+ * Get all storage locations of the current household
+ */
+export async function getStorageLocations(): Promise<StorageLocationRow[]> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  let query = supabase
+    .from('storage_locations')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  // Until the households are known, RLS limits this to the user's households
+  const householdId = await getCurrentHouseholdId();
+  if (householdId) {
+    query = query.eq('household_id', householdId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch storage locations: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Get the current household's storage locations, creating the defaults
+ * (Fridge, Freezer, Pantry) the first time
+ */
+export async function ensureDefaultStorageLocations(): Promise<StorageLocationRow[]> {
+  const existing = await getStorageLocations();
+  const householdId = await getCurrentHouseholdId();
+  if (existing.length > 0 || !householdId || !(await canEditHousehold(householdId))) {
+    return existing;
+  }
+
+  const { data, error } = await supabase
+    .from('storage_locations')
+    .insert(DEFAULT_STORAGE_LOCATIONS.map((location) => ({ ...location, household_id: householdId })))
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to create default storage locations: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Add a new storage location to the current household
+ */
+export async function addStorageLocation(
+  name: string,
+  kind: StorageKind = 'custom'
+): Promise<StorageLocationRow> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const householdId = await getCurrentHouseholdId();
+  const { data, error } = await supabase
+    .from('storage_locations')
+    .insert({ name: name.trim(), kind, ...(householdId ? { household_id: householdId } : {}) })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to add storage location: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Delete a storage location
+ * Items stored there keep existing without a location
+ */
+export async function deleteStorageLocation(id: string): Promise<void> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { error } = await supabase
+    .from('storage_locations')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete storage location: ${error.message}`);
+  }
+}
+
+/**
+ * Look up the shelf life for a kind of storage
+ * A per-product value in product_master_list wins over the category rule.
+ *
+ * @returns number | null - Shelf life in days, or null if there is no rule
+ */
+export async function getShelfLifeDays(
+  kind: StorageKind,
+  category: string | null,
+  barcode?: string | null
+): Promise<number | null> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  if (kind === 'custom') {
+    return null;
+  }
+
+  if (barcode) {
+    const { data: product } = await supabase
+      .from('product_master_list')
+      .select('fridge_shelf_life_days, freezer_shelf_life_days, pantry_shelf_life_days')
+      .eq('code', barcode)
+      .maybeSingle();
+
+    const productDays = product?.[`${kind}_shelf_life_days`];
+    if (productDays !== null && productDays !== undefined) {
+      return productDays;
+    }
+  }
+
+  const { data: rule, error } = await supabase
+    .from('shelf_life_rules')
+    .select('shelf_life_days')
+    .eq('category', category || 'General')
+    .eq('storage_kind', kind)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch shelf life rule: ${error.message}`);
+  }
+
+  return rule ? rule.shelf_life_days : null;
+}
+
+/**
+ * Work out the expiry date an item gets when placed in a location
+ *
+ * @param item - Item being placed (category, barcode and current expiry are used)
+ * @param fromLocation - Where the item is now, null if it had no location
+ * @param toLocation - Where the item is going
+ * @returns string | null - New ISO expiry date
+ */
+export async function getExpiryForLocation(
+  item: Pick<InventoryRow, 'category' | 'barcode' | 'expiry_date'>,
+  fromLocation: StorageLocationRow | null,
+  toLocation: StorageLocationRow
+): Promise<string | null> {
+  const shelfLifeDays = await getShelfLifeDays(toLocation.kind, item.category, item.barcode);
+
+  return computeExpiryAfterMove({
+    currentExpiry: item.expiry_date,
+    fromKind: fromLocation ? fromLocation.kind : null,
+    toKind: toLocation.kind,
+    shelfLifeDays,
+  });
+}
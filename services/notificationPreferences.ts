@@ -0,0 +1,107 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  NotificationPreferences,
+  getDefaultNotificationPreferences,
+  isValidTimeZone,
+} from '../utils/reminderPreferences';
+
+// Preferences of the current user, shared by every reminder path
+let cachedPreferences: NotificationPreferences | null = null;
+
+function toPreferences(row: Partial<NotificationPreferences>): NotificationPreferences {
+  const defaults = getDefaultNotificationPreferences();
+  return {
+    default_lead_days: row.default_lead_days ?? defaults.default_lead_days,
+    category_lead_days: row.category_lead_days ?? defaults.category_lead_days,
+    delivery_mode: row.delivery_mode ?? defaults.delivery_mode,
+    reminder_hour: row.reminder_hour ?? defaults.reminder_hour,
+    quiet_start_hour: row.quiet_start_hour ?? null,
+    quiet_end_hour: row.quiet_end_hour ?? null,
+    timezone: row.timezone ?? defaults.timezone,
+  };
+}
+
+/**
+ * Get the current user's notification preferences
+ * Returns the defaults if the user has not saved any yet.
+ *
+ * @param refresh - Bypass the in-memory cache
+ */
+export async function getNotificationPreferences(refresh: boolean = false): Promise<NotificationPreferences> {
+  if (cachedPreferences && !refresh) {
+    return cachedPreferences;
+  }
+
+  if (!isSupabaseConfigured()) {
+    return getDefaultNotificationPreferences();
+  }
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+  }
+
+  cachedPreferences = toPreferences(data || {});
+  return cachedPreferences;
+}
+
+/**
+ * Check preferences before saving
+ * @returns An error message, or null if the preferences are valid
+ */
+export function validateNotificationPreferences(prefs: NotificationPreferences): string | null {
+  const isLeadDays = (days: number) => Number.isInteger(days) && days >= 0 && days <= 30;
+  const isHour = (hour: number | null) => hour === null || (Number.isInteger(hour) && hour >= 0 && hour <= 23);
+
+  if (!isLeadDays(prefs.default_lead_days)) {
+    return 'Lead time must be between 0 and 30 days';
+  }
+  for (const [category, days] of Object.entries(prefs.category_lead_days)) {
+    if (!isLeadDays(days)) {
+      return `Lead time for ${category} must be between 0 and 30 days`;
+    }
+  }
+  if (!isHour(prefs.reminder_hour) || !isHour(prefs.quiet_start_hour) || !isHour(prefs.quiet_end_hour)) {
+    return 'Hours must be between 0 and 23';
+  }
+  if ((prefs.quiet_start_hour === null) !== (prefs.quiet_end_hour === null)) {
+    return 'Quiet hours need both a start and an end';
+  }
+  if (!isValidTimeZone(prefs.timezone)) {
+    return `Unknown time zone: ${prefs.timezone}`;
+  }
+  return null;
+}
+
+/**
+ * Save the current user's notification preferences
+ */
+export async function saveNotificationPreferences(
+  prefs: NotificationPreferences
+): Promise<NotificationPreferences> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const validationError = validateNotificationPreferences(prefs);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert(prefs, { onConflict: 'user_id' })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save notification preferences: ${error.message}`);
+  }
+
+  cachedPreferences = toPreferences(data);
+  return cachedPreferences;
+}
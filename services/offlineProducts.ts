@@ -0,0 +1,36 @@
+import productSubset from '../assets/product-subset.json';
+
+/**
+ * A product from the bundled subset of product_master_list
+ */
+export interface OfflineProduct {
+  name: string;
+  category: string;
+  shelfLifeDays: number;
+}
+
+// Compact format written by scripts/import-open-food-facts.js --subset
+interface ProductSubsetFile {
+  version: number;
+  products: Record<string, [name: string, category: string, shelfLifeDays: number]>;
+}
+
+// JSON imports type arrays loosely, hence the cast
+const { products } = productSubset as unknown as ProductSubsetFile;
+
+/**
+ * Look up a code in the product subset bundled with the app, so common
+ * products resolve without any network access
+ *
+ * @param code - Lookup code (GTINs normalized to GTIN-14 with toLookupCode)
+ * @returns The product, or null if the code is not in the subset
+ */
+export function lookupOfflineProduct(code: string): OfflineProduct | null {
+  const entry = products[code.trim()];
+  if (!entry) {
+    return null;
+  }
+
+  const [name, category, shelfLifeDays] = entry;
+  return { name, category, shelfLifeDays };
+}
@@ -0,0 +1,50 @@
+import {
+  AnalyzeProductOptions,
+  PrintedDateResult,
+  ProductAnalysisResult,
+  analyzeProduct,
+  isAIAnalysisConfigured,
+  readExpiryDateFromImage,
+} from './aiAnalysis';
+import { ProductConfirmation, submitProduct } from './productSubmissions';
+
+/**
+ * Identifies a scanned product and estimates its shelf life
+ * Screens get an implementation from ServicesContext, so the scan flow can
+ * run against the deterministic fake (fakeProductAnalyzer.ts).
+ */
+export interface ProductAnalyzer {
+  analyze(options: AnalyzeProductOptions): Promise<ProductAnalysisResult>;
+  // Read the expiry date printed on the package from a base64 JPEG photo
+  readExpiryDate(imageBase64: string): Promise<PrintedDateResult>;
+  isConfigured(): boolean;
+  // Feed back a mapping the user confirmed; true if it is now a known product
+  confirmProduct(confirmation: ProductConfirmation): Promise<boolean>;
+}
+
+/**
+ * Confirm a product without waiting for it; a failed confirmation (e.g.
+ * offline) only costs a vote, so it is logged rather than reported
+ */
+export function confirmProductInBackground(analyzer: ProductAnalyzer, confirmation: ProductConfirmation): void {
+  const shelfLifeDays = confirmation.shelfLifeDays;
+  analyzer
+    .confirmProduct({
+      ...confirmation,
+      // Expired or absurd values say nothing about the shelf life
+      shelfLifeDays: shelfLifeDays != null && shelfLifeDays >= 0 && shelfLifeDays <= 3650 ? shelfLifeDays : null,
+    })
+    .catch((error) => console.error('Error confirming product:', error));
+}
+
+/**
+ * Analyzer backed by the analyze-product Supabase Edge Function
+ */
+export function createEdgeFunctionProductAnalyzer(): ProductAnalyzer {
+  return {
+    analyze: analyzeProduct,
+    readExpiryDate: readExpiryDateFromImage,
+    isConfigured: isAIAnalysisConfigured,
+    confirmProduct: submitProduct,
+  };
+}
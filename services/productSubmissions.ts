@@ -0,0 +1,39 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { toLookupCode } from '../utils/barcode';
+
+/**
+ * A product mapping the user confirmed by saving a scan or entering it
+ * manually
+ */
+export interface ProductConfirmation {
+  code: string; // Barcode / lookup code
+  name: string;
+  category?: string | null;
+  shelfLifeDays?: number | null;
+}
+
+/**
+ * Record a confirmed barcode -> product mapping for the current user
+ * Once enough users agree on a mapping it is promoted into
+ * product_master_list, so the next scan of the code needs no AI call.
+ *
+ * @returns True if this confirmation promoted the product
+ */
+export async function submitProduct(confirmation: ProductConfirmation): Promise<boolean> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { data, error } = await supabase.rpc('submit_product', {
+    product_code: toLookupCode(confirmation.code),
+    product_name: confirmation.name,
+    product_category: confirmation.category ?? null,
+    product_shelf_life_days: confirmation.shelfLifeDays ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to submit product: ${error.message}`);
+  }
+
+  return data === true;
+}
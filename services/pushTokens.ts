@@ -0,0 +1,44 @@
+import { Platform } from 'react-native';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+
+/**
+ * Register this device's Expo push token for the current user so the
+ * server-side reminder job can reach it. Re-registering an existing token
+ * refreshes it and moves it to the current user.
+ *
+ * @param token - Expo push token (ExponentPushToken[...])
+ */
+export async function savePushToken(token: string): Promise<void> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { error } = await supabase.rpc('register_push_token', {
+    push_token: token,
+    device_platform: Platform.OS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save push token: ${error.message}`);
+  }
+}
+
+/**
+ * Remove a push token, e.g. when the user turns reminders off on this device
+ *
+ * @param token - Expo push token to remove
+ */
+export async function removePushToken(token: string): Promise<void> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase is not configured');
+  }
+
+  const { error } = await supabase
+    .from('push_tokens')
+    .delete()
+    .eq('token', token);
+
+  if (error) {
+    throw new Error(`Failed to remove push token: ${error.message}`);
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Barcode normalization and check digit validation
+ *
+ * Retail barcodes (EAN-8, EAN-13, UPC-A, UPC-E) and GTIN-14 all identify a
+ * product by a GTIN. The same product scanned as UPC-A (12 digits) or as
+ * EAN-13 (leading zero) is one GTIN, so every GTIN is stored and looked up
+ * zero-padded to 14 digits.
+ *
+ * Shared by the app (re-exported from utils/barcode.ts) and the Edge
+ * Functions, so it must not use Deno or React Native APIs.
+ */
+
+/**
+ * Barcode formats that carry a GTIN; the names match expo-camera's
+ * barcode types
+ */
+export type GTINFormat = 'ean8' | 'ean13' | 'upc_a' | 'upc_e' | 'gtin14';
+
+export type BarcodeResult =
+  // A GTIN with a valid check digit
+  | { kind: 'gtin'; gtin: string; format: GTINFormat }
+  // Looked like a GTIN but failed validation - most likely a misread
+  | { kind: 'invalid'; reason: 'check_digit' | 'length'; code: string }
+  // Not a GTIN (batch code, QR text, ...); used as is
+  | { kind: 'other'; code: string };
+
+const LENGTH_FORMATS: Record<number, GTINFormat> = {
+  8: 'ean8',
+  12: 'upc_a',
+  13: 'ean13',
+  14: 'gtin14',
+};
+
+/**
+ * True if the scanner reported UPC-E; expo-camera says 'upc_e', while some
+ * platforms report 'org.gs1.UPC-E'
+ */
+function isUPCEType(scannedType?: string | null): boolean {
+  return !!scannedType && /upc[_-]?e$/i.test(scannedType);
+}
+
+/**
+ * True if the scanner reported a retail GTIN type (EAN or UPC)
+ */
+function isGTINType(scannedType?: string | null): boolean {
+  return !!scannedType && /(ean|upc)/i.test(scannedType);
+}
+
+/**
+ * True if the scanner reported a symbology that does not carry a GTIN as
+ * plain digits (QR, Code 128, Code 39, ...)
+ */
+function isNonGTINType(scannedType?: string | null): boolean {
+  return !!scannedType && !/(ean|upc|itf|gtin|databar)/i.test(scannedType);
+}
+
+/**
+ * Computes the GS1 check digit for the digits before it
+ * Weights alternate 3, 1, ... starting from the rightmost digit.
+ */
+export function computeCheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = body.charCodeAt(body.length - 1 - i) - 48;
+    sum += digit * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Returns true if the last digit is the correct check digit for the rest
+ */
+export function hasValidCheckDigit(digits: string): boolean {
+  if (!/^\d{2,}$/.test(digits)) return false;
+  return computeCheckDigit(digits.slice(0, -1)) === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Expands a UPC-E code to the equivalent UPC-A
+ * Accepts the 6 digit body (number system 0 assumed), 7 digits (number
+ * system + body) or all 8 digits with the check digit, which is validated.
+ *
+ * @returns 12 digit UPC-A, or null if the code is not valid UPC-E
+ */
+export function expandUPCE(code: string): string | null {
+  if (!/^\d{6,8}$/.test(code)) return null;
+
+  const numberSystem = code.length === 6 ? '0' : code[0];
+  if (numberSystem !== '0' && numberSystem !== '1') return null;
+
+  const body = code.length === 6 ? code : code.slice(1, 7);
+  const [d1, d2, d3, d4, d5, d6] = body;
+
+  let manufacturerAndProduct: string;
+  switch (d6) {
+    case '0':
+    case '1':
+    case '2':
+      manufacturerAndProduct = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+      break;
+    case '3':
+      manufacturerAndProduct = `${d1}${d2}${d3}00000${d4}${d5}`;
+      break;
+    case '4':
+      manufacturerAndProduct = `${d1}${d2}${d3}${d4}00000${d5}`;
+      break;
+    default:
+      manufacturerAndProduct = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+
+  const upcaBody = numberSystem + manufacturerAndProduct;
+  const checkDigit = String(computeCheckDigit(upcaBody));
+  if (code.length === 8 && code[7] !== checkDigit) return null;
+  return upcaBody + checkDigit;
+}
+
+/**
+ * Normalizes a scanned or typed code
+ * Digits-only codes of a GTIN length (8, 12, 13 or 14) are validated and
+ * zero-padded to GTIN-14; anything else, and any code read from a
+ * symbology that does not carry GTINs, is returned as 'other'.
+ *
+ * @param raw - Code as scanned or typed
+ * @param scannedType - Barcode type reported by the scanner, if known;
+ *   needed to tell UPC-E from EAN-8 (both 8 digits), and numbers printed
+ *   as e.g. Code 128 from GTINs
+ */
+export function normalizeBarcode(raw: string, scannedType?: string | null): BarcodeResult {
+  const code = (raw || '').trim();
+  // Spaces and dashes are common when typing a code off a package
+  const digits = code.replace(/[\s-]/g, '');
+
+  if (!/^\d+$/.test(digits) || isNonGTINType(scannedType)) {
+    return { kind: 'other', code };
+  }
+
+  // Already expanded codes (e.g. a GTIN-14 sent on with its type) are
+  // checked by length below
+  if (isUPCEType(scannedType) && digits.length <= 8) {
+    const upca = expandUPCE(digits);
+    return upca
+      ? { kind: 'gtin', gtin: upca.padStart(14, '0'), format: 'upc_e' }
+      : { kind: 'invalid', reason: 'check_digit', code: digits };
+  }
+
+  const format = LENGTH_FORMATS[digits.length];
+  if (!format) {
+    // A scanner only reports GTIN types for GTIN lengths; a typed number
+    // of another length is some other kind of code
+    return isGTINType(scannedType)
+      ? { kind: 'invalid', reason: 'length', code: digits }
+      : { kind: 'other', code };
+  }
+
+  if (!hasValidCheckDigit(digits)) {
+    return { kind: 'invalid', reason: 'check_digit', code: digits };
+  }
+
+  return { kind: 'gtin', gtin: digits.padStart(14, '0'), format };
+}
+
+/**
+ * Code to store and look up products by: the GTIN-14 for valid GTINs,
+ * otherwise the trimmed input (including codes with a bad check digit,
+ * which callers that can ask for a rescan should check first)
+ */
+export function toLookupCode(raw: string, scannedType?: string | null): string {
+  const result = normalizeBarcode(raw, scannedType);
+  return result.kind === 'gtin' ? result.gtin : result.code;
+}
@@ -0,0 +1,454 @@
+/**
+ * Free-text expiry date parsing
+ *
+ * Reads the dates printed on packaging or typed by users: "BB 12 MAR 2025",
+ * "EXP 03/25", "12.03.25", "2025-03-12", "USE BY 12MAR", Julian pack dates
+ * ("25071") and so on. Numeric dates are ambiguous ("03/04/25" is 3 April or
+ * 4 March), so every plausible reading is returned as a candidate with a
+ * confidence, preferred day/month order first. Prints that match no known
+ * pattern, or only allow an unlikely reading, give no date rather than a
+ * guess.
+ *
+ * Shared by the app (re-exported from utils/expiryDate.ts) and the Edge
+ * Functions, so it must not use Deno or React Native APIs.
+ */
+
+/**
+ * Order of day, month and year in numeric dates: 12/03/25 is 12 March in
+ * DMY locales, 3 December in MDY (US) and 25 March 2012 in YMD ones
+ */
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+/**
+ * What the label in front of the date says it is
+ */
+export type DateLabel = 'best_before' | 'use_by' | 'expiry' | 'sell_by';
+
+export interface DateCandidate {
+  date: string; // YYYY-MM-DD
+  confidence: number; // 0-1
+  format: string; // How the input was read, e.g. 'DD/MM/YY'
+}
+
+export interface ParsedExpiryDate {
+  label: DateLabel | null; // From a label such as "BB" or "USE BY" in front of the date
+  candidates: DateCandidate[]; // Most likely first; empty if nothing parsed
+  date: string | null; // The most likely date
+  ambiguous: boolean; // True if another candidate is nearly as likely, or the likeliest is far off
+}
+
+export interface ParseExpiryDateOptions {
+  order?: DateOrder; // Preferred order for numeric dates (default DMY)
+  today?: Date; // Reference for two digit years and dates without a year
+}
+
+const MONTHS: Record<string, number> = {
+  JAN: 1, JANUARY: 1,
+  FEB: 2, FEBRUARY: 2,
+  MAR: 3, MARCH: 3,
+  APR: 4, APRIL: 4,
+  MAY: 5,
+  JUN: 6, JUNE: 6,
+  JUL: 7, JULY: 7,
+  AUG: 8, AUGUST: 8,
+  SEP: 9, SEPT: 9, SEPTEMBER: 9,
+  OCT: 10, OCTOBER: 10,
+  NOV: 11, NOVEMBER: 11,
+  DEC: 12, DECEMBER: 12,
+};
+
+const MONTH_PATTERN = Object.keys(MONTHS)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+// Found anywhere in the text ("LOT 1234 EXP 12/26"); the first label wins,
+// and longer labels come before their prefixes
+const LABELS: [RegExp, DateLabel][] = [
+  [/(?<![A-Z0-9])(BEST\s+BEFORE(\s+END)?|BEST\s+BY|BBE|BB(\s+END)?)\b/, 'best_before'],
+  [/(?<![A-Z0-9])(USE\s+BY|USE\s+BEFORE)\b/, 'use_by'],
+  [/(?<![A-Z0-9])(SELL\s+BY|DISPLAY\s+UNTIL)\b/, 'sell_by'],
+  [/(?<![A-Z0-9])(EXPIRY(\s+DATE)?|EXPIRES(\s+ON)?|EXP(\s+DATE)?|EXP\.?)(?=[\s:./-]|\d|$)/, 'expiry'],
+];
+
+// Readings less likely than this are dropped: a date that only the
+// unlikeliest reading allows ("31.02.26" as YY/MM/DD) is more likely a
+// misprint or a lot code than an expiry date
+const MIN_CONFIDENCE = 0.25;
+
+// Dates more than this far from today are flagged for the user to confirm
+const PAST_DAYS_PLAUSIBLE = 365;
+const FUTURE_YEARS_PLAUSIBLE = 10;
+
+/**
+ * Returns true for a real calendar date written as YYYY-MM-DD
+ */
+export function isISODate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Number of days in a month (1-12)
+ */
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Formats a calendar date as YYYY-MM-DD, or null if it does not exist
+ */
+export function formatISODate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    return null;
+  }
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Resolves a two digit year with the GS1 sliding window: -49/+50 years
+ * around the current year
+ */
+export function resolveTwoDigitYear(yy: number, today: Date = new Date()): number {
+  const currentYear = today.getFullYear();
+  const diff = yy - (currentYear % 100);
+  let year = Math.floor(currentYear / 100) * 100 + yy;
+  if (diff >= 51) {
+    year -= 100;
+  } else if (diff <= -50) {
+    year += 100;
+  }
+  return year;
+}
+
+/**
+ * Day/month order used by a BCP 47 locale, e.g. 'en-US' -> 'MDY'
+ */
+export function getDateOrderForLocale(locale: string): DateOrder {
+  const [language, ...rest] = locale.replace('_', '-').split('-');
+  const region = rest.find((part) => /^[A-Za-z]{2}$/.test(part))?.toUpperCase();
+
+  if (['zh', 'ja', 'ko', 'hu', 'lt', 'mn'].includes(language.toLowerCase())) {
+    return 'YMD';
+  }
+  if (region && ['US', 'PH', 'FM', 'MH', 'PW', 'AS', 'GU', 'PR', 'UM', 'VI'].includes(region)) {
+    return 'MDY';
+  }
+  return 'DMY';
+}
+
+interface ParseContext {
+  order: DateOrder;
+  today: Date;
+  todayISO: string;
+}
+
+type RawCandidate = { year: number; month: number; day: number; confidence: number; format: string };
+
+const dayNumber = (iso: string): number => Date.parse(`${iso}T00:00:00Z`) / 86400000;
+
+/**
+ * Year for a day and month printed without one: this year, unless that
+ * date is more than a month gone, then next year
+ */
+function inferYear(month: number, day: number, context: ParseContext): number {
+  const year = context.today.getFullYear();
+  const thisYear = formatISODate(year, month, Math.min(day, daysInMonth(year, month)));
+  return thisYear && dayNumber(thisYear) < dayNumber(context.todayISO) - 31 ? year + 1 : year;
+}
+
+function toYear(value: string, context: ParseContext): number {
+  return value.length === 2 ? resolveTwoDigitYear(Number(value), context.today) : Number(value);
+}
+
+/**
+ * Returns false for dates far in the past or future; an expiry date years
+ * ago may be a misreading, but also an old item, so it is not reordered
+ */
+function isPlausible(date: string, context: ParseContext): boolean {
+  const days = dayNumber(date) - dayNumber(context.todayISO);
+  return days >= -PAST_DAYS_PLAUSIBLE && days <= FUTURE_YEARS_PLAUSIBLE * 365;
+}
+
+/**
+ * Readings of a numeric date with three parts, e.g. 12.03.25 or 03/12/2025
+ */
+function readNumericTriple(a: string, b: string, c: string, context: ParseContext): RawCandidate[] {
+  if (a.length === 4) {
+    return [{ year: Number(a), month: Number(b), day: Number(c), confidence: 0.95, format: 'YYYY/MM/DD' }];
+  }
+  if (a.length > 2 || b.length > 2 || (c.length !== 2 && c.length !== 4)) {
+    return [];
+  }
+
+  const yearPart = c.length === 4 ? 'YYYY' : 'YY';
+  const fullYear = c.length === 4;
+  const readings: { order: DateOrder; candidate: RawCandidate }[] = [
+    {
+      order: 'DMY',
+      candidate: { year: toYear(c, context), month: Number(b), day: Number(a), confidence: 0, format: `DD/MM/${yearPart}` },
+    },
+    {
+      order: 'MDY',
+      candidate: { year: toYear(c, context), month: Number(a), day: Number(b), confidence: 0, format: `MM/DD/${yearPart}` },
+    },
+  ];
+  if (!fullYear) {
+    readings.push({
+      order: 'YMD',
+      candidate: { year: toYear(a, context), month: Number(b), day: Number(c), confidence: 0, format: 'YY/MM/DD' },
+    });
+  }
+
+  const valid = readings.filter(({ candidate }) => formatISODate(candidate.year, candidate.month, candidate.day));
+  const dayMonthValid = valid.filter(({ order }) => order !== 'YMD').length;
+  return valid.map(({ order, candidate }) => {
+    let confidence: number;
+    if (order === 'YMD') {
+      // YY/MM/DD is rare outside YMD locales
+      confidence = context.order === 'YMD' ? 0.75 : 0.2;
+    } else if (dayMonthValid === 1) {
+      confidence = 0.9; // Only one way to read day and month
+    } else {
+      confidence = order === context.order ? 0.75 : 0.45;
+    }
+    return { ...candidate, confidence: fullYear ? confidence + 0.05 : confidence };
+  });
+}
+
+/**
+ * Readings of a numeric date with two parts: month and year ("03/25",
+ * "03/2025") or day and month without a year ("12/03")
+ */
+function readNumericPair(a: string, b: string, context: ParseContext): RawCandidate[] {
+  const candidates: RawCandidate[] = [];
+  const first = Number(a);
+  const second = Number(b);
+
+  if (b.length === 4) {
+    // MM/YYYY: the last day of the month
+    return [{ year: second, month: first, day: daysInMonth(second, first || 1), confidence: 0.9, format: 'MM/YYYY' }];
+  }
+  if (a.length > 2 || b.length !== 2) {
+    return [];
+  }
+
+  if (first >= 1 && first <= 12) {
+    const year = toYear(b, context);
+    candidates.push({ year, month: first, day: daysInMonth(year, first), confidence: 0.7, format: 'MM/YY' });
+  }
+
+  const dayMonth = { day: first, month: second };
+  const monthDay = { day: second, month: first };
+  const preferred = context.order === 'MDY' ? monthDay : dayMonth;
+  const other = context.order === 'MDY' ? dayMonth : monthDay;
+  for (const [reading, confidence, format] of [
+    [preferred, 0.4, context.order === 'MDY' ? 'MM/DD' : 'DD/MM'],
+    [other, 0.25, context.order === 'MDY' ? 'DD/MM' : 'MM/DD'],
+  ] as const) {
+    if (reading.month >= 1 && reading.month <= 12 && reading.day >= 1) {
+      const year = inferYear(reading.month, reading.day, context);
+      candidates.push({ year, month: reading.month, day: reading.day, confidence, format });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Readings of a run of digits without separators: YYYYMMDD, DDMMYYYY,
+ * DDMMYY, MMYY and Julian dates (YYDDD, day of the year)
+ */
+function readDigits(digits: string, context: ParseContext): RawCandidate[] {
+  const candidates: RawCandidate[] = [];
+  const julian = (year: number, dayOfYear: number, confidence: number, format: string) => {
+    if (dayOfYear < 1 || dayOfYear > 366) return;
+    const date = new Date(Date.UTC(year, 0, dayOfYear));
+    if (date.getUTCFullYear() !== year) return;
+    candidates.push({ year, month: date.getUTCMonth() + 1, day: date.getUTCDate(), confidence, format });
+  };
+
+  switch (digits.length) {
+    case 8:
+      candidates.push(
+        { year: Number(digits.slice(0, 4)), month: Number(digits.slice(4, 6)), day: Number(digits.slice(6)), confidence: 0.85, format: 'YYYYMMDD' },
+        ...readNumericTriple(digits.slice(0, 2), digits.slice(2, 4), digits.slice(4), context).map((candidate) => ({
+          ...candidate,
+          confidence: candidate.confidence * 0.7,
+          format: candidate.format.replace(/\//g, ''),
+        }))
+      );
+      break;
+    case 6:
+      candidates.push(
+        ...readNumericTriple(digits.slice(0, 2), digits.slice(2, 4), digits.slice(4), context).map((candidate) => ({
+          ...candidate,
+          confidence: candidate.confidence * 0.6,
+          format: candidate.format.replace(/\//g, ''),
+        }))
+      );
+      break;
+    case 5:
+      julian(resolveTwoDigitYear(Number(digits.slice(0, 2)), context.today), Number(digits.slice(2)), 0.5, 'YYDDD');
+      break;
+    case 4: {
+      // Anything else (a lone year, YDDD lot codes) is too likely a misreading
+      const month = Number(digits.slice(0, 2));
+      if (month >= 1 && month <= 12) {
+        const year = toYear(digits.slice(2), context);
+        candidates.push({ year, month, day: daysInMonth(year, month), confidence: 0.45, format: 'MMYY' });
+      }
+      break;
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Readings of dates with a month name: 12 MAR 2025, 12MAR25, MAR 12 2025,
+ * 12 MAR, MAR 2025, MAR 25
+ */
+function readMonthName(text: string, context: ParseContext): RawCandidate[] | null {
+  const dayFirst = text.match(new RegExp(`(\\d{1,2})\\s*(?:ST|ND|RD|TH)?[\\s./-]*(${MONTH_PATTERN})\\b[\\s.,/-]*(\\d{4}|\\d{2})?(?!\\d)`));
+  if (dayFirst) {
+    const [, day, monthName, year] = dayFirst;
+    const month = MONTHS[monthName];
+    if (year) {
+      return [{ year: toYear(year, context), month, day: Number(day), confidence: year.length === 4 ? 0.98 : 0.92, format: `DD MMM ${year.length === 4 ? 'YYYY' : 'YY'}` }];
+    }
+    return [{ year: inferYear(month, Number(day), context), month, day: Number(day), confidence: 0.75, format: 'DD MMM' }];
+  }
+
+  const monthFirst = text.match(new RegExp(`\\b(${MONTH_PATTERN})[\\s./-]*(\\d{1,4})(?:\\s*(?:ST|ND|RD|TH))?(?:[\\s.,/-]+(\\d{4}|\\d{2}))?(?!\\d)`));
+  if (!monthFirst) {
+    return null;
+  }
+
+  const [, monthName, first, second] = monthFirst;
+  const month = MONTHS[monthName];
+  if (second) {
+    // MAR 12, 2025
+    return [{ year: toYear(second, context), month, day: Number(first), confidence: second.length === 4 ? 0.97 : 0.9, format: 'MMM DD YYYY' }];
+  }
+  if (first.length === 4) {
+    const year = Number(first);
+    return [{ year, month, day: daysInMonth(year, month), confidence: 0.9, format: 'MMM YYYY' }];
+  }
+  if (first.length === 2) {
+    // MAR 25: March 2025 (month and year prints are common) or 25 March
+    const year = toYear(first, context);
+    return [
+      { year, month, day: daysInMonth(year, month), confidence: 0.6, format: 'MMM YY' },
+      { year: inferYear(month, Number(first), context), month, day: Number(first), confidence: 0.45, format: 'MMM DD' },
+    ];
+  }
+  return [{ year: inferYear(month, Number(first), context), month, day: Number(first), confidence: 0.7, format: 'MMM D' }];
+}
+
+/**
+ * Reads all plausible dates from the text, without the label
+ */
+function readCandidates(text: string, context: ParseContext): RawCandidate[] {
+  const iso = text.match(/(?<!\d)(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/);
+  if (iso) {
+    return [{ year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]), confidence: 1, format: 'YYYY-MM-DD' }];
+  }
+
+  const named = readMonthName(text, context);
+  if (named) {
+    return named;
+  }
+
+  // YYYY-MM: the last day of the month
+  const yearMonth = text.match(/(?<!\d)(\d{4})\s*[-/.]\s*(\d{1,2})(?![-/.]?\d)/);
+  if (yearMonth) {
+    const [year, month] = [Number(yearMonth[1]), Number(yearMonth[2])];
+    return month >= 1 && month <= 12
+      ? [{ year, month, day: daysInMonth(year, month), confidence: 0.9, format: 'YYYY-MM' }]
+      : [];
+  }
+
+  const triple = text.match(/(?<!\d)(\d{1,4})\s*[-/.]\s*(\d{1,2})\s*[-/.]\s*(\d{2}|\d{4})(?!\d)/);
+  if (triple) {
+    return readNumericTriple(triple[1], triple[2], triple[3], context);
+  }
+
+  // Space separated: 12 03 25
+  const spaced = text.match(/(?<!\d)(\d{1,2})\s+(\d{1,2})\s+(\d{2}|\d{4})(?!\d)/);
+  if (spaced) {
+    return readNumericTriple(spaced[1], spaced[2], spaced[3], context);
+  }
+
+  // Space separated month and year: 03 2026
+  const spacedPair = text.match(/(?<!\d)(\d{1,2})\s+(\d{4})(?!\d)/);
+  if (spacedPair) {
+    return readNumericPair(spacedPair[1], spacedPair[2], context);
+  }
+
+  const pair = text.match(/(?<!\d)(\d{1,2})\s*[-/.]\s*(\d{2}|\d{4})(?!\d)/);
+  if (pair) {
+    return readNumericPair(pair[1], pair[2], context);
+  }
+
+  const digits = text.match(/(?<!\d)J?(\d{4,8})(?!\d)/);
+  if (digits) {
+    return readDigits(digits[1], context);
+  }
+
+  return [];
+}
+
+/**
+ * Parses a printed or typed expiry date
+ *
+ * @param input - Free text, e.g. "BB 12 MAR 2025" or "EXP 03/25"
+ * @param options - Preferred day/month order and the reference date
+ * @returns The label and the candidate dates, most likely first
+ */
+export function parseExpiryDate(input: string, options: ParseExpiryDateOptions = {}): ParsedExpiryDate {
+  const today = options.today || new Date();
+  const context: ParseContext = {
+    order: options.order || 'DMY',
+    today,
+    todayISO: formatISODate(today.getFullYear(), today.getMonth() + 1, today.getDate()) as string,
+  };
+
+  let text = (input || '').toUpperCase().replace(/\s+/g, ' ').trim();
+  let label: DateLabel | null = null;
+  let labelMatch: RegExpMatchArray | null = null;
+  for (const [pattern, value] of LABELS) {
+    const match = text.match(pattern);
+    if (match && (!labelMatch || match.index! < labelMatch.index!)) {
+      label = value;
+      labelMatch = match;
+    }
+  }
+  if (labelMatch) {
+    // The date follows its label; text before it (a lot code) is only read
+    // if nothing follows
+    const after = text.slice(labelMatch.index! + labelMatch[0].length).replace(/^[\s:.-]+/, '');
+    text = after || text.slice(0, labelMatch.index).trim();
+  }
+
+  // Keep the most confident reading of each date
+  const byDate = new Map<string, DateCandidate>();
+  for (const raw of readCandidates(text, context)) {
+    const date = formatISODate(raw.year, raw.month, raw.day);
+    const confidence = Math.round(Math.min(raw.confidence, 1) * 100) / 100;
+    if (!date || confidence < MIN_CONFIDENCE) continue;
+    const existing = byDate.get(date);
+    if (!existing || existing.confidence < confidence) {
+      byDate.set(date, { date, confidence, format: raw.format });
+    }
+  }
+
+  // A far off first reading keeps its place, but the user is asked to pick
+  const candidates = [...byDate.values()].sort((a, b) => b.confidence - a.confidence);
+  return {
+    label,
+    candidates,
+    date: candidates[0]?.date ?? null,
+    ambiguous: candidates.length > 1 && (
+      candidates[1].confidence >= candidates[0].confidence * 0.5 || !isPlausible(candidates[0].date, context)
+    ),
+  };
+}
@@ -0,0 +1,147 @@
+import {
+  CompletionRequest,
+  LLMProvider,
+  ProviderError,
+  completeWithRetries,
+  createFixtureProvider,
+  createOpenAICompatibleProvider,
+} from '../providers';
+
+const REQUEST: CompletionRequest = {
+  task: 'product',
+  code: '4006381333931',
+  messages: [{ role: 'user', content: 'Barcode: 4006381333931' }],
+  temperature: 0,
+  maxTokens: 200,
+};
+
+const POLICY = { timeoutMs: 50, maxRetries: 2, backoffMs: 1 };
+
+// Provider that fails with the given errors in turn, then answers
+function createFlakyProvider(failures: Error[]): LLMProvider & { calls: number } {
+  const provider = {
+    name: 'Flaky',
+    model: 'test',
+    calls: 0,
+    async complete() {
+      const failure = failures[provider.calls++];
+      if (failure) throw failure;
+      return '{"ok":true}';
+    },
+  };
+  return provider;
+}
+
+// Stands in for fetch with one canned chat completions response
+function mockFetch(status: number, body: unknown) {
+  const text = JSON.stringify(body);
+  global.fetch = jest.fn(async () => ({
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => text,
+    json: async () => body,
+  })) as unknown as typeof fetch;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('completeWithRetries', () => {
+  it('retries retryable errors and returns the first answer', async () => {
+    const provider = createFlakyProvider([
+      new ProviderError('busy', 'SERVICE_UNAVAILABLE', true, 503),
+      new ProviderError('slow down', 'RATE_LIMIT_EXCEEDED', true, 429),
+    ]);
+
+    await expect(completeWithRetries(provider, REQUEST, POLICY)).resolves.toBe('{"ok":true}');
+    expect(provider.calls).toBe(3);
+  });
+
+  it('gives up after maxRetries with the last error', async () => {
+    const provider = createFlakyProvider([
+      new ProviderError('busy', 'SERVICE_UNAVAILABLE', true, 503),
+      new ProviderError('busy', 'SERVICE_UNAVAILABLE', true, 503),
+      new ProviderError('still busy', 'SERVICE_UNAVAILABLE', true, 503),
+    ]);
+
+    await expect(completeWithRetries(provider, REQUEST, POLICY)).rejects.toMatchObject({ message: 'still busy' });
+    expect(provider.calls).toBe(3);
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    const provider = createFlakyProvider([new ProviderError('bad key', 'INVALID_API_KEY', false, 401)]);
+
+    await expect(completeWithRetries(provider, REQUEST, POLICY)).rejects.toMatchObject({ code: 'INVALID_API_KEY' });
+    expect(provider.calls).toBe(1);
+  });
+
+  it('aborts attempts that take longer than the timeout and retries them', async () => {
+    let calls = 0;
+    const provider: LLMProvider = {
+      name: 'Slow',
+      model: 'test',
+      complete: (_request, signal) => {
+        calls++;
+        return new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        });
+      },
+    };
+
+    await expect(completeWithRetries(provider, REQUEST, { ...POLICY, maxRetries: 1 })).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      retryable: true,
+    });
+    expect(calls).toBe(2);
+  });
+});
+
+describe('chat completions errors', () => {
+  const provider = createOpenAICompatibleProvider('http://localhost:8080/v1', 'local-model');
+
+  it('marks rate limits and server errors as retryable', async () => {
+    mockFetch(429, { error: { type: 'rate_limit', message: 'Too many requests' } });
+    await expect(provider.complete(REQUEST)).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', retryable: true });
+
+    mockFetch(502, {});
+    await expect(provider.complete(REQUEST)).rejects.toMatchObject({ code: 'SERVICE_UNAVAILABLE', retryable: true });
+  });
+
+  it('does not retry bad keys or an exhausted quota', async () => {
+    mockFetch(401, { error: { message: 'Invalid key' } });
+    await expect(provider.complete(REQUEST)).rejects.toMatchObject({ code: 'INVALID_API_KEY', retryable: false });
+
+    mockFetch(429, { error: { type: 'insufficient_quota' } });
+    await expect(provider.complete(REQUEST)).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED', retryable: false });
+  });
+
+  it('returns the message content of a successful answer', async () => {
+    mockFetch(200, { choices: [{ message: { content: '{"productName":"Milk"}' } }] });
+    await expect(provider.complete(REQUEST)).resolves.toBe('{"productName":"Milk"}');
+  });
+});
+
+describe('fixture provider', () => {
+  const provider = createFixtureProvider({}, () => new Date('2026-10-19T12:00:00Z'));
+
+  it('answers known codes in any GTIN form', async () => {
+    const answer = JSON.parse(await provider.complete({ ...REQUEST, code: '04006381333931' }));
+    expect(answer).toEqual({
+      productName: 'Cheddar Cheese',
+      category: 'Dairy',
+      expiryDate: '2026-11-18',
+      confidenceScore: 0.8,
+    });
+  });
+
+  it('answers unknown codes with a low-confidence unknown product', async () => {
+    const answer = JSON.parse(await provider.complete({ ...REQUEST, code: '036000291452' }));
+    expect(answer).toMatchObject({ productName: 'Unknown Product', confidenceScore: 0.2 });
+  });
+});
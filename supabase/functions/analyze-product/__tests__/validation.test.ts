@@ -0,0 +1,68 @@
+import { validateProductAnswer } from '../validation';
+
+const TODAY = '2026-10-19';
+
+function answer(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    productName: 'Whole Milk',
+    category: 'Dairy',
+    expiryDate: '2026-10-26',
+    confidenceScore: 0.9,
+    ...overrides,
+  });
+}
+
+describe('validateProductAnswer', () => {
+  it('accepts a complete answer and trims the product name', () => {
+    expect(validateProductAnswer(answer({ productName: '  Whole Milk ' }), TODAY)).toEqual({
+      errors: [],
+      answer: { productName: 'Whole Milk', category: 'Dairy', expiryDate: '2026-10-26', confidenceScore: 0.9 },
+    });
+  });
+
+  it('accepts an expiry date of today', () => {
+    expect(validateProductAnswer(answer({ expiryDate: TODAY }), TODAY).answer).not.toBeNull();
+  });
+
+  it('rejects content that is not a single JSON object', () => {
+    expect(validateProductAnswer('```json\n{}\n```', TODAY).errors).toEqual(['Response is not valid JSON']);
+    expect(validateProductAnswer('[]', TODAY).errors).toEqual(['Response is not a JSON object']);
+    expect(validateProductAnswer('null', TODAY).errors).toEqual(['Response is not a JSON object']);
+  });
+
+  it('rejects categories without shelf life rules', () => {
+    const result = validateProductAnswer(answer({ category: 'Frozen' }), TODAY);
+    expect(result.answer).toBeNull();
+    expect(result.errors).toEqual([expect.stringMatching(/^category must be one of/)]);
+  });
+
+  it('rejects malformed and past expiry dates', () => {
+    expect(validateProductAnswer(answer({ expiryDate: '26.10.2026' }), TODAY).errors).toEqual([
+      'expiryDate must be a date in YYYY-MM-DD format',
+    ]);
+    expect(validateProductAnswer(answer({ expiryDate: '2026-02-30' }), TODAY).errors).toEqual([
+      'expiryDate must be a date in YYYY-MM-DD format',
+    ]);
+    expect(validateProductAnswer(answer({ expiryDate: '2026-10-18' }), TODAY).errors).toEqual([
+      'expiryDate must not be in the past',
+    ]);
+  });
+
+  it('rejects confidence scores outside 0 to 1', () => {
+    expect(validateProductAnswer(answer({ confidenceScore: 1.5 }), TODAY).errors).toEqual([
+      'confidenceScore must be between 0 and 1',
+    ]);
+    expect(validateProductAnswer(answer({ confidenceScore: '0.9' }), TODAY).errors).toEqual([
+      'confidenceScore must be a number',
+    ]);
+  });
+
+  it('reports every problem at once, including unexpected fields', () => {
+    const result = validateProductAnswer(
+      JSON.stringify({ productName: '', category: 'Dairy', expiryDate: '2026-10-26', confidenceScore: 0.5, brand: 'Acme' }),
+      TODAY
+    );
+    expect(result.answer).toBeNull();
+    expect(result.errors).toEqual(['Unexpected fields: brand', 'productName must be a non-empty string']);
+  });
+});
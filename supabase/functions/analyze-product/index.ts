@@ -1,23 +1,65 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  CompletionRequest,
+  ConfiguredProvider,
+  LLMProvider,
+  ProviderError,
+  completeWithRetries,
+  getProviderFromEnv,
+} from './providers.ts';
+import { normalizeBarcode } from '../_shared/barcode.ts';
+import {
+  MAX_IMAGE_BASE64_LENGTH,
+  PrintedDateAnswer,
+  buildPrintedDateRequest,
+  reconcilePrintedDate,
+  validatePrintedDateAnswer,
+} from './printedDate.ts';
+import { DateOrder } from '../_shared/expiryDate.ts';
+import { ALLOWED_CATEGORIES, PRODUCT_ANSWER_SCHEMA, ProductAnswer, validateProductAnswer } from './validation.ts';
 
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
 interface AnalyzeRequest {
-  code: string;
-  imageUri?: string; // Optional: For future image-based analysis
+  code?: string; // Required unless imageUri is sent
+  barcodeType?: string; // Symbology the app scanned `code` as (e.g. 'ean13', 'code128'); absent for typed codes
+  // Photo of the printed expiry date: a data: URL or bare base64 JPEG. When
+  // present, the date is read from it and `code` is ignored.
+  imageUri?: string;
+  dateOrder?: DateOrder; // Day/month order of the user's locale, for numeric date prints
 }
 
+// Where the product data came from
+type AnalysisSource = 'master_list' | 'cache' | 'ai' | 'manual';
+
+// What came of asking the LLM:
+// - confident: a valid answer that was used
+// - unsure: a valid answer with low confidence or an unknown product
+// - invalid_response: an answer that failed validation (see validationErrors)
+// - unavailable: no answer (provider error or timeout)
+type AIStatus = 'confident' | 'unsure' | 'invalid_response' | 'unavailable';
+
 interface AnalyzeResponse {
   productName: string;
   category: string;
   expiryDate: string;
   confidenceScore: number;
+  openedShelfLifeDays?: number | null; // "After opening, use within N days"; master list only
   manualEntryRequired?: boolean;
+  source: AnalysisSource; // 'manual' when manualEntryRequired
+  aiStatus?: AIStatus; // Absent when the AI was not asked (master list or cache hit)
+  validationErrors?: string[]; // Only for invalid_response
+}
+
+// Answer to a photo: the printed date, or printedDate null if none was read
+interface ReadDateResponse {
+  printedDate: PrintedDateAnswer | null;
+  aiStatus: AIStatus; // 'unsure' when the photo had no readable date
+  validationErrors?: string[];
 }
 
 interface ProductMasterListRow {
@@ -26,6 +68,202 @@ interface ProductMasterListRow {
   name: string;
   category: string | null;
   shelf_life_days: number | null;
+  opened_shelf_life_days: number | null;
+}
+
+interface ProductAnalysisCacheRow {
+  code: string;
+  product_name: string;
+  category: string;
+  shelf_life_days: number;
+  confidence_score: number;
+  provider: string;
+  model: string;
+  expires_at: string;
+}
+
+// Days a confident AI answer is reused for the same code; 0 disables the cache
+const CACHE_TTL_DAYS = Number(Deno.env.get('ANALYSIS_CACHE_TTL_DAYS') ?? 30);
+
+/**
+ * Prompt asking the LLM for the product details as JSON
+ */
+function buildCompletionRequest(code: string): CompletionRequest {
+  const today = new Date().toISOString().split('T')[0];
+  return {
+    task: 'product',
+    code,
+    messages: [
+      {
+        role: 'system',
+        content: `You are a product information assistant. Based on a barcode or product code, estimate product details. 
+        Return a JSON object with: productName (string), category (one of ${ALLOWED_CATEGORIES.join(', ')}), 
+        expiryDate (ISO date string YYYY-MM-DD, estimate based on typical shelf life, not before ${today}), and confidenceScore (float 0-1). 
+        If uncertain, use "Unknown Product" for productName, "General" for category and a low confidenceScore. Make realistic estimates for expiry dates based on product type.`,
+      },
+      {
+        role: 'user',
+        content: `Guess the product details based on this barcode/text: ${code}. Return ONLY the JSON object.`,
+      },
+    ],
+    temperature: 0.7,
+    maxTokens: 200,
+    responseSchema: PRODUCT_ANSWER_SCHEMA,
+  };
+}
+
+const jsonResponse = (body: AnalyzeResponse | ReadDateResponse): Response =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+
+const daysFromToday = (days: number): string =>
+  new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+/**
+ * Service role client for the lookups, or null if the function has no
+ * Supabase credentials (lookups are then skipped)
+ */
+function getServiceClient(): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.warn('Supabase credentials not configured, skipping database lookups');
+    return null;
+  }
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Exact match in product_master_list, or null if the code is unknown or the
+ * database cannot be reached
+ */
+async function lookupMasterList(client: SupabaseClient, code: string): Promise<ProductMasterListRow | null> {
+  try {
+    const { data, error } = await client
+      .from('product_master_list')
+      .select('id, code, name, category, shelf_life_days, opened_shelf_life_days')
+      .eq('code', code)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error during database lookup:', error);
+      return null;
+    }
+    return data;
+  } catch (dbLookupError) {
+    console.error('Error during database lookup:', dbLookupError);
+    return null;
+  }
+}
+
+/**
+ * Unexpired cached AI answer for the code, or null
+ */
+async function lookupCache(client: SupabaseClient, code: string): Promise<ProductAnalysisCacheRow | null> {
+  if (CACHE_TTL_DAYS <= 0) return null;
+
+  try {
+    const { data, error } = await client
+      .from('product_analysis_cache')
+      .select('*')
+      .eq('code', code)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error during cache lookup:', error);
+      return null;
+    }
+    return data;
+  } catch (cacheError) {
+    console.error('Error during cache lookup:', cacheError);
+    return null;
+  }
+}
+
+/**
+ * Store a confident AI answer; failures are logged, the answer is still returned
+ */
+async function saveToCache(
+  client: SupabaseClient,
+  code: string,
+  answer: ProductAnswer,
+  provider: LLMProvider
+): Promise<void> {
+  if (CACHE_TTL_DAYS <= 0) return;
+
+  const today = new Date().toISOString().split('T')[0];
+  const shelfLifeDays = Math.round(
+    (Date.parse(`${answer.expiryDate}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / (24 * 60 * 60 * 1000)
+  );
+
+  const { error } = await client.from('product_analysis_cache').upsert(
+    {
+      code,
+      product_name: answer.productName,
+      category: answer.category,
+      shelf_life_days: shelfLifeDays,
+      confidence_score: answer.confidenceScore,
+      provider: provider.name,
+      model: provider.model,
+      created_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + CACHE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    },
+    { onConflict: 'code' }
+  );
+
+  if (error) {
+    console.error('Failed to cache AI answer:', error);
+  }
+}
+
+/**
+ * Reads the expiry date printed in a photo with the configured provider
+ * The provider must support image input (e.g. gpt-4o-mini); the fixture
+ * provider stands in with a fixed date.
+ */
+async function readPrintedDate(imageUri: string, dateOrder?: DateOrder): Promise<Response> {
+  let configured: ConfiguredProvider;
+  try {
+    configured = getProviderFromEnv();
+  } catch (configError) {
+    return new Response(
+      JSON.stringify({ error: configError.message }),
+      {
+        status: 500,
+        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+  const { provider, retryPolicy } = configured;
+
+  const imageUrl = /^(data|https):/.test(imageUri) ? imageUri : `data:image/jpeg;base64,${imageUri}`;
+
+  let content: string;
+  try {
+    content = await completeWithRetries(provider, buildPrintedDateRequest(imageUrl), retryPolicy);
+  } catch (providerError) {
+    if (!(providerError instanceof ProviderError)) throw providerError;
+    console.log(`${provider.name} could not read the photo (${providerError.code})`);
+    return jsonResponse({ printedDate: null, aiStatus: 'unavailable' });
+  }
+
+  const validation = validatePrintedDateAnswer(content);
+  if (!validation.answer) {
+    console.error('Printed date response failed validation:', validation.errors, content);
+    return jsonResponse({ printedDate: null, aiStatus: 'invalid_response', validationErrors: validation.errors });
+  }
+  const answer = reconcilePrintedDate(validation.answer, dateOrder);
+
+  // A low-confidence reading is not worth replacing the shelf life estimate
+  if (!answer.date || answer.confidence < 0.6) {
+    return jsonResponse({ printedDate: null, aiStatus: 'unsure' });
+  }
+
+  return jsonResponse({ printedDate: answer, aiStatus: 'confident' });
 }
 
 serve(async (req) => {
@@ -36,7 +274,30 @@ serve(async (req) => {
 
   try {
     // Parse request body
-    const { code }: AnalyzeRequest = await req.json();
+    const { code, barcodeType, imageUri, dateOrder }: AnalyzeRequest = await req.json();
+
+    if (imageUri !== undefined) {
+      if (typeof imageUri !== 'string' || imageUri.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'imageUri must be a non-empty string' }),
+          {
+            status: 400,
+            headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      if (imageUri.length > MAX_IMAGE_BASE64_LENGTH) {
+        return new Response(
+          JSON.stringify({ error: 'Image is too large; send a smaller photo' }),
+          {
+            status: 413,
+            headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      const order = dateOrder && ['DMY', 'MDY', 'YMD'].includes(dateOrder) ? dateOrder : undefined;
+      return await readPrintedDate(imageUri, order);
+    }
 
     if (!code || typeof code !== 'string' || code.trim().length === 0) {
       return new Response(
@@ -48,211 +309,116 @@ serve(async (req) => {
       );
     }
 
-    if (!OPENAI_API_KEY) {
+    // GTINs are stored as GTIN-14; a bad check digit on a code scanned as a
+    // GTIN is a misread the app should rescan, not something to ask the AI
+    // about. Without a type, a number failing the check digit may just be
+    // another kind of code (the app checks typed GTINs itself).
+    const scannedType = typeof barcodeType === 'string' ? barcodeType : null;
+    const barcode = normalizeBarcode(code, scannedType);
+    if (barcode.kind === 'invalid' && scannedType) {
       return new Response(
-        JSON.stringify({ error: 'OpenAI API key is not configured' }),
+        JSON.stringify({ error: 'Invalid barcode check digit, please rescan', code: 'INVALID_BARCODE' }),
         {
-          status: 500,
+          status: 400,
           headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
         }
       );
     }
 
-    // Call OpenAI to analyze product
-    const openAIResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a product information assistant. Based on a barcode or product code, estimate product details. 
-            Return a JSON object with: productName (string), category (string like "Dairy", "Meat", "Produce", "Beverages", "Snacks", etc.), 
-            expiryDate (ISO date string YYYY-MM-DD, estimate based on typical shelf life), and confidenceScore (float 0-1). 
-            If uncertain, use "Unknown Product" for productName and a generic category. Make realistic estimates for expiry dates based on product type.`,
-          },
-          {
-            role: 'user',
-            content: `Guess the product details based on this barcode/text: ${code}. Return ONLY valid JSON in this exact format: {"productName": "...", "category": "...", "expiryDate": "YYYY-MM-DD", "confidenceScore": 0.0-1.0}`,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 200,
-      }),
-    });
+    const lookupCode = barcode.kind === 'gtin' ? barcode.gtin : barcode.code;
+    const client = getServiceClient();
 
-    if (!openAIResponse.ok) {
-      const errorData = await openAIResponse.text();
-      console.error('OpenAI API error:', errorData);
-      
-      // Try to parse error details for better error messages
-      let errorMessage = 'Failed to analyze product with AI';
-      let errorCode = 'OPENAI_API_ERROR';
-      
-      try {
-        const errorJson = JSON.parse(errorData);
-        const openAIError = errorJson.error || {};
-        const errorType = openAIError.type || '';
-        const errorCodeValue = openAIError.code || '';
-        
-        // Provide more specific error messages based on error type
-        if (openAIResponse.status === 401) {
-          errorMessage = 'OpenAI API key is invalid or expired';
-          errorCode = 'INVALID_API_KEY';
-        } else if (openAIResponse.status === 429) {
-          errorMessage = 'OpenAI API rate limit exceeded. Please try again later';
-          errorCode = 'RATE_LIMIT_EXCEEDED';
-        } else if (openAIResponse.status === 500 || openAIResponse.status === 503) {
-          errorMessage = 'OpenAI service temporarily unavailable. Please try again later';
-          errorCode = 'SERVICE_UNAVAILABLE';
-        } else if (errorType === 'insufficient_quota' || errorCodeValue === 'insufficient_quota') {
-          errorMessage = 'OpenAI API quota exceeded. Please check your account credits';
-          errorCode = 'QUOTA_EXCEEDED';
-        } else if (errorType === 'invalid_request_error') {
-          errorMessage = 'Invalid request to OpenAI API';
-          errorCode = 'INVALID_REQUEST';
-        }
-        
-        console.error('OpenAI error details:', {
-          status: openAIResponse.status,
-          type: errorType,
-          code: errorCodeValue,
-          message: openAIError.message,
-        });
-      } catch (parseError) {
-        // If we can't parse the error, use the raw error data for logging
-        console.error('Could not parse OpenAI error response:', errorData);
-      }
-      
-      // Instead of returning 500 immediately, try database fallback first
-      // This allows the app to still work even if OpenAI is down
-      console.log('OpenAI API failed, attempting database fallback...');
-      
-      // Continue to database fallback logic below instead of returning error
-      // This will be handled in the fallback section
-    } else {
-      // OpenAI API call succeeded - process the response
-      const openAIData = await openAIResponse.json();
-      const aiContent = openAIData.choices[0]?.message?.content;
-
-      if (!aiContent) {
-        console.error('OpenAI returned empty response');
-        // Continue to fallback
-      } else {
-        // Parse AI response - extract JSON from markdown code blocks if present
-        let parsedResponse: AnalyzeResponse;
-        try {
-          // Try to extract JSON from markdown code blocks
-          const jsonMatch = aiContent.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/) || aiContent.match(/\{[\s\S]*\}/);
-          const jsonString = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : aiContent;
-          parsedResponse = JSON.parse(jsonString.trim());
-        } catch (parseError) {
-          console.error('Failed to parse AI response:', aiContent);
-          // Fallback response
-          parsedResponse = {
-            productName: 'Unknown Product',
-            category: 'General',
-            expiryDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 7 days from now
-            confidenceScore: 0.3,
-          };
-        }
+    // Known products first: no LLM call for codes in product_master_list
+    // (seed data, community-confirmed and admin-approved products)
+    const dbProduct = client ? await lookupMasterList(client, lookupCode) : null;
+    if (dbProduct) {
+      // Database match found - prioritize DB data (100% accurate)
+      return jsonResponse({
+        productName: dbProduct.name,
+        category: dbProduct.category || 'General',
+        expiryDate: daysFromToday(dbProduct.shelf_life_days ?? 7), // Default 7 days if shelf_life_days is null
+        confidenceScore: 1.0, // 100% confidence for database matches
+        openedShelfLifeDays: dbProduct.opened_shelf_life_days,
+        source: 'master_list',
+      });
+    }
+
+    // Then an earlier AI answer for the same code
+    const cached = client ? await lookupCache(client, lookupCode) : null;
+    if (cached) {
+      return jsonResponse({
+        productName: cached.product_name,
+        category: cached.category,
+        expiryDate: daysFromToday(cached.shelf_life_days),
+        confidenceScore: Number(cached.confidence_score),
+        source: 'cache',
+      });
+    }
 
-        // Validate and normalize AI response
-        const aiResponse: AnalyzeResponse = {
-          productName: parsedResponse.productName || 'Unknown Product',
-          category: parsedResponse.category || 'General',
-          expiryDate: parsedResponse.expiryDate || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          confidenceScore: Math.max(0, Math.min(1, parsedResponse.confidenceScore || 0.5)),
-        };
-
-        // Validation: Check if AI response is reliable
-        // Trigger fallback if confidenceScore < 0.6 OR productName is "Unknown Product"
-        const shouldUseFallback = 
-          aiResponse.confidenceScore < 0.6 || 
-          aiResponse.productName.toLowerCase().includes('unknown');
-
-        if (!shouldUseFallback) {
-          // AI response is reliable - return it
-          return new Response(
-            JSON.stringify(aiResponse),
-            {
-              status: 200,
-              headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
-            }
-          );
+    let configured: ConfiguredProvider;
+    try {
+      configured = getProviderFromEnv();
+    } catch (configError) {
+      return new Response(
+        JSON.stringify({ error: configError.message }),
+        {
+          status: 500,
+          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
         }
-        // Otherwise continue to database fallback
-      }
+      );
     }
-    
-    // Fallback: Database Lookup (runs if OpenAI failed or AI response was unreliable)
+    const { provider, retryPolicy } = configured;
+
+    // Ask the configured LLM to analyze the product
+    let aiStatus: AIStatus = 'unavailable';
+    let validationErrors: string[] | undefined;
+    let aiContent: string | null = null;
     try {
-      // Create Supabase client for database access
-      const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
-      const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
-      
-      if (!supabaseUrl || !supabaseServiceKey) {
-        console.warn('Supabase credentials not configured, skipping database fallback');
+      aiContent = await completeWithRetries(provider, buildCompletionRequest(lookupCode), retryPolicy);
+    } catch (providerError) {
+      if (!(providerError instanceof ProviderError)) throw providerError;
+      // Fall through to manual entry rather than returning 500
+      console.log(`${provider.name} failed (${providerError.code}), requiring manual entry`);
+    }
+
+    if (aiContent) {
+      const validation = validateProductAnswer(aiContent, new Date().toISOString().split('T')[0]);
+      const { answer } = validation;
+
+      if (!answer) {
+        // The model answered, but not with a usable product
+        aiStatus = 'invalid_response';
+        validationErrors = validation.errors;
+        console.error('AI response failed validation:', validation.errors, aiContent);
       } else {
-        const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
-        
-        // Query product_master_list table
-        const { data: dbProduct, error: dbError } = await supabaseClient
-          .from('product_master_list')
-          .select('code, name, category, shelf_life_days')
-          .eq('code', code.trim())
-          .single();
-
-        if (!dbError && dbProduct) {
-          // Database match found - prioritize DB data (100% accurate)
-          const dbExpiryDate = dbProduct.shelf_life_days 
-            ? new Date(Date.now() + dbProduct.shelf_life_days * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
-            : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]; // Default 7 days if shelf_life_days is null
-
-          const response: AnalyzeResponse = {
-            productName: dbProduct.name,
-            category: dbProduct.category || 'General',
-            expiryDate: dbExpiryDate,
-            confidenceScore: 1.0, // 100% confidence for database matches
-          };
-
-          return new Response(
-            JSON.stringify(response),
-            {
-              status: 200,
-              headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
-            }
-          );
-        } else {
-          // Database lookup failed - return manual entry flag
-          console.log('Database lookup failed for code:', code);
+        // Require manual entry if confidenceScore < 0.6 OR productName is "Unknown Product"
+        const isUnsure =
+          answer.confidenceScore < 0.6 ||
+          answer.productName.toLowerCase().includes('unknown');
+
+        if (!isUnsure) {
+          // AI response is reliable - cache and return it
+          if (client) {
+            await saveToCache(client, lookupCode, answer, provider);
+          }
+          return jsonResponse({ ...answer, source: 'ai', aiStatus: 'confident' });
         }
+        aiStatus = 'unsure';
       }
-    } catch (dbLookupError) {
-      console.error('Error during database fallback lookup:', dbLookupError);
-      // Continue to manual entry fallback
+      // Otherwise continue to manual entry
     }
-
-    // Both AI and DB failed - require manual entry
-    const response: AnalyzeResponse = {
+    
+    // Unknown product and no usable AI answer - require manual entry
+    return jsonResponse({
       productName: 'Unknown Product',
       category: 'General',
-      expiryDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      expiryDate: daysFromToday(7),
       confidenceScore: 0,
       manualEntryRequired: true,
-    };
-
-    return new Response(
-      JSON.stringify(response),
-      {
-        status: 200,
-        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
-      }
-    );
+      source: 'manual',
+      aiStatus,
+      validationErrors,
+    });
   } catch (error) {
     console.error('Error in analyze-product function:', error);
     return new Response(
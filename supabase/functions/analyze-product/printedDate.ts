@@ -0,0 +1,184 @@
+// Reading the expiry date printed on a package from a photo
+// The photo goes to the configured provider as a vision request; the answer
+// is the printed text, the date it represents, where it is in the photo and
+// how sure the model is. Validated as strictly as product answers.
+
+import { DateCandidate, DateLabel, DateOrder, isISODate, parseExpiryDate } from '../_shared/expiryDate.ts';
+import { CompletionRequest } from './providers.ts';
+
+// Position of the date print, as fractions (0-1) of the photo's size
+export interface BoundingBox {
+  x: number; // Left edge
+  y: number; // Top edge
+  width: number;
+  height: number;
+}
+
+export interface PrintedDateAnswer {
+  text: string; // The date print as written, e.g. "BB 12 MAR 2025"
+  date: string | null; // YYYY-MM-DD, or null if no date could be read
+  boundingBox: BoundingBox | null;
+  confidence: number; // 0-1
+  label?: DateLabel | null; // What the print says the date is, from its text
+  candidates?: DateCandidate[]; // Other readings of the text, if it is ambiguous
+}
+
+export const PRINTED_DATE_SCHEMA = {
+  name: 'printed_date',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['text', 'date', 'boundingBox', 'confidence'],
+    properties: {
+      text: { type: 'string', description: 'The printed date text exactly as written, or "" if none is visible' },
+      date: {
+        type: ['string', 'null'],
+        description: 'The expiry / best before / use by date as YYYY-MM-DD, or null if none is readable',
+      },
+      boundingBox: {
+        type: ['object', 'null'],
+        additionalProperties: false,
+        required: ['x', 'y', 'width', 'height'],
+        description: 'Box around the date print, as fractions (0-1) of the image width and height',
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number' },
+          height: { type: 'number' },
+        },
+      },
+      confidence: { type: 'number', description: 'Confidence from 0 to 1 that the date was read correctly' },
+    },
+  },
+};
+
+export interface PrintedDateValidationResult {
+  answer: PrintedDateAnswer | null; // null if the content failed validation
+  errors: string[];
+}
+
+// Largest photo accepted, as base64 characters (~3 MB of JPEG)
+export const MAX_IMAGE_BASE64_LENGTH = 4 * 1024 * 1024;
+
+/**
+ * Vision prompt asking for the printed date in the photo as JSON
+ *
+ * @param imageUrl - data: URL (base64 JPEG) or https: URL of the photo
+ */
+export function buildPrintedDateRequest(imageUrl: string): CompletionRequest {
+  return {
+    task: 'printed_date',
+    code: '',
+    messages: [
+      {
+        role: 'system',
+        content: `You read expiry dates printed on food packaging. Find the expiry, best before or use by date in the photo.
+        Return a JSON object with: text (the date print exactly as written), date (YYYY-MM-DD, or null if unreadable;
+        two digit years are 20xx, dates without a day mean the last day of the month), boundingBox (x, y, width, height
+        as fractions of the image size, or null) and confidence (float 0-1). Ignore production/packed-on dates.`,
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Read the expiry date printed on this package. Return ONLY the JSON object.' },
+          { type: 'image_url', image_url: { url: imageUrl } },
+        ],
+      },
+    ],
+    temperature: 0,
+    maxTokens: 200,
+    responseSchema: PRINTED_DATE_SCHEMA,
+  };
+}
+
+const isFraction = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+/**
+ * Parses and validates the raw content returned for a printed date request
+ * Past dates are valid here: the package may simply be expired.
+ */
+export function validatePrintedDateAnswer(content: string): PrintedDateValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.trim());
+  } catch (_parseError) {
+    return { answer: null, errors: ['Response is not valid JSON'] };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { answer: null, errors: ['Response is not a JSON object'] };
+  }
+
+  const answer = parsed as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const unexpected = Object.keys(answer).filter(
+    (key) => !(key in PRINTED_DATE_SCHEMA.schema.properties)
+  );
+  if (unexpected.length > 0) {
+    errors.push(`Unexpected fields: ${unexpected.join(', ')}`);
+  }
+
+  const { text, date, boundingBox, confidence } = answer;
+
+  if (typeof text !== 'string') {
+    errors.push('text must be a string');
+  }
+
+  if (date !== null && (typeof date !== 'string' || !isISODate(date))) {
+    errors.push('date must be a date in YYYY-MM-DD format or null');
+  }
+
+  if (boundingBox !== null) {
+    const box = boundingBox as Record<string, unknown> | undefined;
+    if (!box || typeof box !== 'object' || !['x', 'y', 'width', 'height'].every((key) => isFraction(box[key]))) {
+      errors.push('boundingBox must be null or x, y, width and height between 0 and 1');
+    }
+  }
+
+  if (!isFraction(confidence)) {
+    errors.push('confidence must be a number between 0 and 1');
+  }
+
+  if (errors.length > 0) {
+    return { answer: null, errors };
+  }
+
+  return {
+    errors: [],
+    answer: {
+      text: (text as string).trim(),
+      date: date as string | null,
+      boundingBox: boundingBox as BoundingBox | null,
+      confidence: confidence as number,
+    },
+  };
+}
+
+/**
+ * Checks the model's date against the expiry date parser's reading of the
+ * printed text. The model's date is kept if it is one of the parser's
+ * readings; otherwise (or if it gave none) the parser's best reading is
+ * used, at the lower of the two confidences.
+ *
+ * @param order - Day/month order of the user's locale, for numeric prints
+ */
+export function reconcilePrintedDate(answer: PrintedDateAnswer, order?: DateOrder): PrintedDateAnswer {
+  const parsed = parseExpiryDate(answer.text, { order });
+  if (!parsed.date) {
+    return answer;
+  }
+
+  const reconciled: PrintedDateAnswer = {
+    ...answer,
+    label: parsed.label,
+    candidates: parsed.ambiguous ? parsed.candidates : undefined,
+  };
+  if (!answer.date || !parsed.candidates.some((candidate) => candidate.date === answer.date)) {
+    const [best] = parsed.candidates;
+    reconciled.date = best.date;
+    reconciled.confidence = Math.min(answer.confidence, best.confidence);
+  }
+  return reconciled;
+}
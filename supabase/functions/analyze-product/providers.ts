@@ -0,0 +1,385 @@
+// LLM providers for analyze-product
+// The provider is chosen with LLM_PROVIDER: 'openai' (default),
+// 'openai-compatible' (e.g. a local llama.cpp or Ollama server) or 'fixture'
+// (canned answers, no network). Each provider has its own timeout and retry
+// defaults, overridable with LLM_TIMEOUT_MS / LLM_MAX_RETRIES.
+
+import { toLookupCode } from '../_shared/barcode.ts';
+
+// Message content is text, or text and images for vision models
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }; // https: or data: URL
+
+export interface ChatMessage {
+  role: 'system' | 'user';
+  content: string | ChatContentPart[];
+}
+
+// What the request asks for: product details for a code, or the date
+// printed in a photo (used by the fixture provider to pick its answer)
+export type CompletionTask = 'product' | 'printed_date';
+
+export interface CompletionRequest {
+  task: CompletionTask;
+  code: string; // Product code being analyzed (used by the fixture provider)
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  responseSchema?: { name: string; schema: Record<string, unknown> }; // Structured output
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  // Returns the raw message content; parsing is up to the caller
+  complete(request: CompletionRequest, signal?: AbortSignal): Promise<string>;
+}
+
+export interface RetryPolicy {
+  timeoutMs: number; // Per attempt
+  maxRetries: number; // Attempts after the first one
+  backoffMs: number; // Doubled after every retry
+}
+
+/**
+ * A provider call that failed; `retryable` errors (timeouts, network
+ * failures, 429 and 5xx responses) are retried by completeWithRetries
+ */
+export class ProviderError extends Error {
+  code: string;
+  status?: number;
+  retryable: boolean;
+
+  constructor(message: string, code: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.code = code;
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+const DEFAULT_RETRY_POLICIES: Record<string, RetryPolicy> = {
+  openai: { timeoutMs: 15000, maxRetries: 2, backoffMs: 500 },
+  // Local models are slow to answer but rarely rate limited
+  'openai-compatible': { timeoutMs: 60000, maxRetries: 1, backoffMs: 1000 },
+  fixture: { timeoutMs: 1000, maxRetries: 0, backoffMs: 0 },
+};
+
+/**
+ * Turns a failed chat completions response into a ProviderError, with the
+ * OpenAI error types mapped to specific codes
+ */
+async function toProviderError(response: Response, providerName: string): Promise<ProviderError> {
+  const errorData = await response.text();
+  const { status } = response;
+
+  let errorType = '';
+  let errorCodeValue = '';
+  let detail = '';
+  try {
+    const errorJson = JSON.parse(errorData);
+    const apiError = errorJson.error || {};
+    errorType = apiError.type || '';
+    errorCodeValue = apiError.code || '';
+    detail = apiError.message || '';
+  } catch (_parseError) {
+    detail = errorData;
+  }
+
+  console.error(`${providerName} API error details:`, { status, type: errorType, code: errorCodeValue, message: detail });
+
+  if (status === 401) {
+    return new ProviderError(`${providerName} API key is invalid or expired`, 'INVALID_API_KEY', false, status);
+  }
+  if (errorType === 'insufficient_quota' || errorCodeValue === 'insufficient_quota') {
+    return new ProviderError(`${providerName} API quota exceeded. Please check your account credits`, 'QUOTA_EXCEEDED', false, status);
+  }
+  if (status === 429) {
+    return new ProviderError(`${providerName} API rate limit exceeded. Please try again later`, 'RATE_LIMIT_EXCEEDED', true, status);
+  }
+  if (status >= 500) {
+    return new ProviderError(`${providerName} service temporarily unavailable. Please try again later`, 'SERVICE_UNAVAILABLE', true, status);
+  }
+  if (errorType === 'invalid_request_error') {
+    return new ProviderError(`Invalid request to ${providerName} API`, 'INVALID_REQUEST', false, status);
+  }
+  return new ProviderError(`${providerName} API request failed with status ${status}`, 'PROVIDER_API_ERROR', false, status);
+}
+
+interface ChatCompletionsConfig {
+  name: string;
+  baseUrl: string; // Up to and including /v1
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions API
+ */
+function createChatCompletionsProvider(config: ChatCompletionsConfig): LLMProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: config.name,
+    model: config.model,
+    async complete(request, signal) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers,
+          signal,
+          body: JSON.stringify({
+            model: config.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            ...(request.responseSchema && {
+              response_format: {
+                type: 'json_schema',
+                json_schema: { ...request.responseSchema, strict: true },
+              },
+            }),
+          }),
+        });
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          throw error;
+        }
+        throw new ProviderError(`Could not reach ${config.name}: ${error.message}`, 'NETWORK_ERROR', true);
+      }
+
+      if (!response.ok) {
+        throw await toProviderError(response, config.name);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new ProviderError(`${config.name} returned an empty response`, 'EMPTY_RESPONSE', true);
+      }
+      return content;
+    },
+  };
+}
+
+export function createOpenAIProvider(apiKey: string, model = 'gpt-4o-mini'): LLMProvider {
+  return createChatCompletionsProvider({
+    name: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    model,
+    apiKey,
+  });
+}
+
+/**
+ * Provider for a self-hosted OpenAI-compatible server, e.g.
+ * llama.cpp (`http://localhost:8080/v1`) or Ollama (`http://localhost:11434/v1`)
+ */
+export function createOpenAICompatibleProvider(baseUrl: string, model: string, apiKey?: string): LLMProvider {
+  return createChatCompletionsProvider({
+    name: 'Local LLM',
+    baseUrl,
+    model,
+    apiKey,
+  });
+}
+
+export interface FixtureProduct {
+  productName: string;
+  category: string;
+  shelfLifeDays: number;
+  confidenceScore: number;
+}
+
+// Codes the fixture provider knows out of the box (123456789 is the README example)
+const FIXTURE_PRODUCTS: Record<string, FixtureProduct> = {
+  '123456789': { productName: 'Organic Milk', category: 'Dairy', shelfLifeDays: 7, confidenceScore: 0.9 },
+  '5901234123457': { productName: 'Whole Wheat Bread', category: 'Bakery', shelfLifeDays: 5, confidenceScore: 0.85 },
+  '4006381333931': { productName: 'Cheddar Cheese', category: 'Dairy', shelfLifeDays: 30, confidenceScore: 0.8 },
+  '0012000161155': { productName: 'Sparkling Water', category: 'Beverages', shelfLifeDays: 365, confidenceScore: 0.9 },
+};
+
+// Days after today the fixture provider "reads" from any photo
+const FIXTURE_PRINTED_DATE_DAYS = 14;
+
+/**
+ * Provider that answers from a fixed table without any network access,
+ * for local development and tests. Known codes return the same product
+ * every time; unknown codes return a low-confidence "Unknown Product" so the
+ * database and manual entry fallbacks can be exercised too. A string entry
+ * is returned verbatim, to exercise response validation.
+ *
+ * It also stands in for OCR: every photo reads as a best before date two
+ * weeks out, so the capture flow works without a vision model.
+ *
+ * @param extraProducts - Added to / overriding the built-in table
+ * @param today - Date expiry dates are counted from (defaults to now)
+ */
+export function createFixtureProvider(
+  extraProducts: Record<string, FixtureProduct | string> = {},
+  today?: () => Date
+): LLMProvider {
+  // Keyed by lookup code, so fixtures match whichever GTIN form was sent
+  const products: Record<string, FixtureProduct | string> = {};
+  for (const [code, product] of Object.entries({ ...FIXTURE_PRODUCTS, ...extraProducts })) {
+    products[toLookupCode(code)] = product;
+  }
+
+  return {
+    name: 'Fixture',
+    model: 'fixture',
+    complete(request) {
+      const base = today ? today() : new Date();
+      const toISODate = (days: number) =>
+        new Date(base.getTime() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+      if (request.task === 'printed_date') {
+        const date = toISODate(FIXTURE_PRINTED_DATE_DAYS);
+        return Promise.resolve(
+          JSON.stringify({
+            text: `BEST BEFORE ${date}`,
+            date,
+            boundingBox: { x: 0.3, y: 0.45, width: 0.4, height: 0.1 },
+            confidence: 0.9,
+          })
+        );
+      }
+
+      const entry = products[toLookupCode(request.code)];
+      if (typeof entry === 'string') {
+        return Promise.resolve(entry);
+      }
+
+      const product = entry;
+      const expiryDate = toISODate(product ? product.shelfLifeDays : 7);
+
+      return Promise.resolve(
+        JSON.stringify({
+          productName: product ? product.productName : 'Unknown Product',
+          category: product ? product.category : 'General',
+          expiryDate,
+          confidenceScore: product ? product.confidenceScore : 0.2,
+        })
+      );
+    },
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Calls the provider with a timeout per attempt, retrying retryable errors
+ * with exponential backoff
+ */
+export async function completeWithRetries(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  policy: RetryPolicy
+): Promise<string> {
+  let lastError: ProviderError | null = null;
+
+  for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+    if (attempt > 0) {
+      await sleep(policy.backoffMs * 2 ** (attempt - 1));
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+    try {
+      return await provider.complete(request, controller.signal);
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        lastError = error;
+      } else if (error instanceof DOMException && error.name === 'AbortError') {
+        lastError = new ProviderError(`${provider.name} did not answer within ${policy.timeoutMs}ms`, 'TIMEOUT', true);
+      } else {
+        throw error;
+      }
+
+      console.warn(`${provider.name} attempt ${attempt + 1} failed:`, lastError.code, lastError.message);
+      if (!lastError.retryable) break;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
+
+function readNumberEnv(name: string): number | undefined {
+  const value = Deno.env.get(name);
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+export interface ConfiguredProvider {
+  provider: LLMProvider;
+  retryPolicy: RetryPolicy;
+}
+
+/**
+ * Builds the provider selected by the environment
+ * @throws ProviderError with code PROVIDER_NOT_CONFIGURED if a required
+ *   variable is missing or LLM_PROVIDER is unknown
+ */
+export function getProviderFromEnv(): ConfiguredProvider {
+  const kind = (Deno.env.get('LLM_PROVIDER') || 'openai').trim().toLowerCase();
+  let provider: LLMProvider;
+
+  switch (kind) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new ProviderError('OpenAI API key is not configured', 'PROVIDER_NOT_CONFIGURED', false);
+      }
+      provider = createOpenAIProvider(apiKey, Deno.env.get('OPENAI_MODEL') || undefined);
+      break;
+    }
+
+    case 'openai-compatible': {
+      const baseUrl = Deno.env.get('LLM_BASE_URL');
+      const model = Deno.env.get('LLM_MODEL');
+      if (!baseUrl || !model) {
+        throw new ProviderError('LLM_BASE_URL and LLM_MODEL are required for the openai-compatible provider', 'PROVIDER_NOT_CONFIGURED', false);
+      }
+      provider = createOpenAICompatibleProvider(baseUrl, model, Deno.env.get('LLM_API_KEY') || undefined);
+      break;
+    }
+
+    case 'fixture': {
+      const fixtures = Deno.env.get('LLM_FIXTURES');
+      let extraProducts: Record<string, FixtureProduct | string> = {};
+      if (fixtures) {
+        try {
+          extraProducts = JSON.parse(fixtures);
+        } catch (_parseError) {
+          throw new ProviderError('LLM_FIXTURES must be a JSON object keyed by product code', 'PROVIDER_NOT_CONFIGURED', false);
+        }
+      }
+      provider = createFixtureProvider(extraProducts);
+      break;
+    }
+
+    default:
+      throw new ProviderError(`Unknown LLM_PROVIDER "${kind}"`, 'PROVIDER_NOT_CONFIGURED', false);
+  }
+
+  const defaults = DEFAULT_RETRY_POLICIES[kind];
+  return {
+    provider,
+    retryPolicy: {
+      timeoutMs: readNumberEnv('LLM_TIMEOUT_MS') ?? defaults.timeoutMs,
+      maxRetries: readNumberEnv('LLM_MAX_RETRIES') ?? defaults.maxRetries,
+      backoffMs: defaults.backoffMs,
+    },
+  };
+}
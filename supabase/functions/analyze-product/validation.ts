@@ -0,0 +1,117 @@
+// Schema for the LLM's product answer and strict validation of it
+// The schema is sent as structured output (response_format json_schema), and
+// every answer is validated again here: not every provider enforces the
+// schema, and it cannot express ranges or "not in the past".
+
+import { isISODate } from '../_shared/expiryDate.ts';
+
+// Categories the app has shelf life rules for (shelf_life_rules); anything
+// else should be answered as 'General'
+export const ALLOWED_CATEGORIES = [
+  'Meat',
+  'Seafood',
+  'Dairy',
+  'Produce',
+  'Bakery',
+  'Beverages',
+  'Snacks',
+  'General',
+] as const;
+
+export type ProductCategory = typeof ALLOWED_CATEGORIES[number];
+
+export interface ProductAnswer {
+  productName: string;
+  category: ProductCategory;
+  expiryDate: string; // YYYY-MM-DD, today or later
+  confidenceScore: number; // 0-1
+}
+
+export const PRODUCT_ANSWER_SCHEMA = {
+  name: 'product_answer',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['productName', 'category', 'expiryDate', 'confidenceScore'],
+    properties: {
+      productName: { type: 'string', description: 'Product name, or "Unknown Product" if not identified' },
+      category: { type: 'string', enum: [...ALLOWED_CATEGORIES] },
+      expiryDate: { type: 'string', description: 'Estimated expiry date, YYYY-MM-DD, not before today' },
+      confidenceScore: { type: 'number', description: 'Confidence from 0 to 1' },
+    },
+  },
+};
+
+export interface ValidationResult {
+  answer: ProductAnswer | null; // null if the content failed validation
+  errors: string[];
+}
+
+/**
+ * Parses and validates the raw content returned by the LLM
+ * The content must be a single JSON object matching PRODUCT_ANSWER_SCHEMA;
+ * no extraction from markdown or surrounding text, and no defaults filled in.
+ *
+ * @param content - Raw message content
+ * @param today - YYYY-MM-DD; expiry dates before it are rejected
+ */
+export function validateProductAnswer(content: string, today: string): ValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.trim());
+  } catch (_parseError) {
+    return { answer: null, errors: ['Response is not valid JSON'] };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { answer: null, errors: ['Response is not a JSON object'] };
+  }
+
+  const answer = parsed as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const unexpected = Object.keys(answer).filter(
+    (key) => !(key in PRODUCT_ANSWER_SCHEMA.schema.properties)
+  );
+  if (unexpected.length > 0) {
+    errors.push(`Unexpected fields: ${unexpected.join(', ')}`);
+  }
+
+  const { productName, category, expiryDate, confidenceScore } = answer;
+
+  if (typeof productName !== 'string' || productName.trim().length === 0) {
+    errors.push('productName must be a non-empty string');
+  } else if (productName.length > 200) {
+    errors.push('productName must be at most 200 characters');
+  }
+
+  if (typeof category !== 'string' || !(ALLOWED_CATEGORIES as readonly string[]).includes(category)) {
+    errors.push(`category must be one of ${ALLOWED_CATEGORIES.join(', ')}`);
+  }
+
+  if (typeof expiryDate !== 'string' || !isISODate(expiryDate)) {
+    errors.push('expiryDate must be a date in YYYY-MM-DD format');
+  } else if (expiryDate < today) {
+    errors.push('expiryDate must not be in the past');
+  }
+
+  if (typeof confidenceScore !== 'number' || !Number.isFinite(confidenceScore)) {
+    errors.push('confidenceScore must be a number');
+  } else if (confidenceScore < 0 || confidenceScore > 1) {
+    errors.push('confidenceScore must be between 0 and 1');
+  }
+
+  if (errors.length > 0) {
+    return { answer: null, errors };
+  }
+
+  return {
+    errors: [],
+    answer: {
+      productName: (productName as string).trim(),
+      category: category as ProductCategory,
+      expiryDate: expiryDate as string,
+      confidenceScore: confidenceScore as number,
+    },
+  };
+}
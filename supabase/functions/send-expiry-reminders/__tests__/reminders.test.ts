@@ -0,0 +1,97 @@
+import { PendingReminder, buildMessages, chunk, isAuthorizedCaller, isDue } from '../reminders';
+
+function request(headers: Record<string, string>) {
+  const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  return { headers: { get: (name: string) => lower[name.toLowerCase()] ?? null } } as unknown as Request;
+}
+
+function reminder(overrides: Partial<PendingReminder> = {}): PendingReminder {
+  return {
+    id: 'item-1',
+    user_id: 'user-1',
+    product_name: 'Milk',
+    category: 'Dairy',
+    expiry_date: '2026-10-21',
+    quantity: 1,
+    unit: 'pcs',
+    days_until_expiry: 2,
+    lead_days: 3,
+    delivery_mode: 'per_item',
+    reminder_hour: 9,
+    quiet_start_hour: null,
+    quiet_end_hour: null,
+    timezone: 'Europe/Berlin',
+    local_hour: 9,
+    ...overrides,
+  };
+}
+
+describe('isAuthorizedCaller', () => {
+  it('accepts the service role key as a bearer token', () => {
+    expect(isAuthorizedCaller(request({ Authorization: 'Bearer service-key' }), 'service-key')).toBe(true);
+  });
+
+  it('accepts the cron secret only when one is set', () => {
+    const req = request({ 'x-cron-secret': 'cron-secret' });
+    expect(isAuthorizedCaller(req, 'service-key', 'cron-secret')).toBe(true);
+    expect(isAuthorizedCaller(req, 'service-key')).toBe(false);
+  });
+
+  it('rejects anon keys, wrong secrets and requests without credentials', () => {
+    expect(isAuthorizedCaller(request({ Authorization: 'Bearer anon-key' }), 'service-key', 'cron-secret')).toBe(false);
+    expect(isAuthorizedCaller(request({ 'x-cron-secret': 'guess' }), 'service-key', 'cron-secret')).toBe(false);
+    expect(isAuthorizedCaller(request({}), 'service-key', 'cron-secret')).toBe(false);
+  });
+});
+
+describe('isDue', () => {
+  it('waits for the reminder hour', () => {
+    expect(isDue(reminder({ local_hour: 8 }))).toBe(false);
+    expect(isDue(reminder({ local_hour: 9 }))).toBe(true);
+  });
+
+  it('moves a reminder hour inside quiet hours to their end, across midnight', () => {
+    const quiet = { reminder_hour: 6, quiet_start_hour: 22, quiet_end_hour: 7 };
+    expect(isDue(reminder({ ...quiet, local_hour: 6 }))).toBe(false);
+    expect(isDue(reminder({ ...quiet, local_hour: 7 }))).toBe(true);
+    expect(isDue(reminder({ ...quiet, local_hour: 23 }))).toBe(false);
+  });
+});
+
+describe('buildMessages', () => {
+  it('sends one message per item and device to per-item users', () => {
+    const outgoing = buildMessages(
+      [reminder(), reminder({ id: 'item-2', product_name: 'Bread', days_until_expiry: 1 })],
+      new Map([['user-1', ['token-a', 'token-b']]])
+    );
+
+    expect(outgoing).toHaveLength(4);
+    expect(outgoing[0].message).toMatchObject({ to: 'token-a', body: 'Milk expires in 2 days' });
+    expect(outgoing[3].message).toMatchObject({ to: 'token-b', body: 'Bread expires tomorrow' });
+    expect(outgoing[3].reminders.map((r) => r.id)).toEqual(['item-2']);
+  });
+
+  it('sends one digest per device to digest users', () => {
+    const outgoing = buildMessages(
+      [reminder({ delivery_mode: 'digest' }), reminder({ id: 'item-2', product_name: null, delivery_mode: 'digest', days_until_expiry: 0 })],
+      new Map([['user-1', ['token-a']]])
+    );
+
+    expect(outgoing).toHaveLength(1);
+    expect(outgoing[0].message).toMatchObject({
+      title: '2 items expiring soon',
+      body: 'Milk (in 2 days), Unknown item (today)',
+      data: { inventoryIds: ['item-1', 'item-2'] },
+    });
+  });
+
+  it('builds nothing for users without a device', () => {
+    expect(buildMessages([reminder()], new Map())).toEqual([]);
+  });
+});
+
+describe('chunk', () => {
+  it('splits messages into Expo-sized batches', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+});
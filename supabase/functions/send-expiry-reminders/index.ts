@@ -0,0 +1,289 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  ExpoPushMessage,
+  PendingReminder,
+  buildMessages,
+  chunk,
+  deliveryKey,
+  isAuthorizedCaller,
+  isDue,
+} from './reminders.ts';
+
+// Expo push endpoint; override with a local stub for development and tests
+const EXPO_PUSH_URL = Deno.env.get('EXPO_PUSH_URL') || 'https://exp.host/--/api/v2/push/send';
+// Optional: required only if "Enhanced push security" is enabled in Expo
+const EXPO_ACCESS_TOKEN = Deno.env.get('EXPO_ACCESS_TOKEN');
+// Lead time for users who have not saved notification preferences
+const DEFAULT_DAYS_AHEAD = parseInt(Deno.env.get('REMINDER_DAYS_AHEAD') || '3', 10);
+// Optional: lets a scheduler call the function without the service role key
+const CRON_SECRET = Deno.env.get('CRON_SECRET');
+
+// Expo accepts at most 100 messages per request
+const EXPO_BATCH_SIZE = 100;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+};
+
+interface SendRemindersRequest {
+  daysAhead?: number;
+  dryRun?: boolean; // Build messages without calling Expo or logging deliveries
+  ignoreSchedule?: boolean; // Send now, regardless of reminder hours and quiet hours
+}
+
+interface PushTokenRow {
+  user_id: string;
+  token: string;
+}
+
+interface ExpoPushTicket {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Supabase credentials are not configured' }, 500);
+    }
+
+    // The job reads every user's items and sends real pushes, so only the
+    // scheduler may run it
+    if (!isAuthorizedCaller(req, supabaseServiceKey, CRON_SECRET)) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const body: SendRemindersRequest = await req.json().catch(() => ({}));
+    const daysAhead = typeof body.daysAhead === 'number' ? body.daysAhead : DEFAULT_DAYS_AHEAD;
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    // 1. Items expiring soon that nobody has been reminded about yet
+    const { data: pending, error: pendingError } = await supabaseClient
+      .rpc('get_pending_expiry_reminders', { days_ahead: daysAhead });
+
+    if (pendingError) {
+      throw new Error(`Failed to load pending reminders: ${pendingError.message}`);
+    }
+
+    // The job runs hourly; only remind users whose reminder hour has come
+    // and who are not inside their quiet hours
+    const reminders = ((pending || []) as PendingReminder[])
+      .filter((r) => body.ignoreSchedule || isDue(r));
+    if (reminders.length === 0) {
+      return jsonResponse({ reminders: 0, messages: 0, sent: 0, failed: 0 });
+    }
+
+    // 2. Push tokens of the affected users
+    const userIds = [...new Set(reminders.map((r) => r.user_id))];
+    const { data: tokenRows, error: tokenError } = await supabaseClient
+      .from('push_tokens')
+      .select('user_id, token')
+      .in('user_id', userIds);
+
+    if (tokenError) {
+      throw new Error(`Failed to load push tokens: ${tokenError.message}`);
+    }
+
+    const tokensByUser = new Map<string, string[]>();
+    for (const row of (tokenRows || []) as PushTokenRow[]) {
+      tokensByUser.set(row.user_id, [...(tokensByUser.get(row.user_id) || []), row.token]);
+    }
+
+    if (body.dryRun) {
+      // Push tokens are left out: anyone holding one can push to that device
+      const messages = buildMessages(reminders, tokensByUser).map(({ message: { to, ...preview } }) => preview);
+      return jsonResponse({ reminders: reminders.length, messages: messages.length, dryRun: true, preview: messages });
+    }
+
+    // 3. Claim the reminders in the delivery log before sending, so a
+    // concurrent or repeated run cannot send the same reminder again
+    const claimed = await claimReminders(supabaseClient, reminders);
+
+    // Reminders for users without a device are logged but not sent
+    const withoutTokens = claimed.filter((r) => !tokensByUser.has(r.user_id));
+    if (withoutTokens.length > 0) {
+      await updateDeliveries(supabaseClient, withoutTokens, { status: 'no_tokens' });
+    }
+
+    // 4. Build and send the messages in batches
+    const outgoing = buildMessages(claimed, tokensByUser);
+
+    // By deliveryKey: an item shared in a household is reminded to each member
+    const ticketsByItem = new Map<string, string[]>();
+    const errorsByItem = new Map<string, string>();
+    const deadTokens = new Set<string>();
+
+    for (const batch of chunk(outgoing, EXPO_BATCH_SIZE)) {
+      let tickets: ExpoPushTicket[];
+      try {
+        tickets = await sendToExpo(batch.map((entry) => entry.message));
+      } catch (sendError) {
+        const message = sendError instanceof Error ? sendError.message : String(sendError);
+        batch.forEach((entry) => entry.reminders.forEach((r) => errorsByItem.set(deliveryKey(r), message)));
+        continue;
+      }
+
+      tickets.forEach((ticket, index) => {
+        const { reminders: covered, message } = batch[index];
+        if (ticket.status === 'ok' && ticket.id) {
+          covered.forEach((r) => ticketsByItem.set(deliveryKey(r), [...(ticketsByItem.get(deliveryKey(r)) || []), ticket.id!]));
+        } else {
+          covered.forEach((r) => errorsByItem.set(deliveryKey(r), ticket.message || 'Unknown push error'));
+          if (ticket.details?.error === 'DeviceNotRegistered') {
+            deadTokens.add(message.to);
+          }
+        }
+      });
+    }
+
+    // 5. Record the outcome of every claimed reminder
+    // An item counts as sent if at least one of the user's devices accepted it
+    let sent = 0;
+    let failed = 0;
+    for (const reminder of claimed) {
+      if (!tokensByUser.has(reminder.user_id)) continue;
+
+      const ticketIds = ticketsByItem.get(deliveryKey(reminder));
+      if (ticketIds) {
+        sent++;
+        await updateDeliveries(supabaseClient, [reminder], {
+          status: 'sent',
+          ticket_ids: ticketIds,
+          sent_at: new Date().toISOString(),
+        });
+      } else {
+        failed++;
+        await updateDeliveries(supabaseClient, [reminder], {
+          status: 'failed',
+          error: errorsByItem.get(deliveryKey(reminder)) || 'No ticket returned',
+        });
+      }
+    }
+
+    // Tokens of uninstalled apps will never work again
+    if (deadTokens.size > 0) {
+      await supabaseClient.from('push_tokens').delete().in('token', [...deadTokens]);
+    }
+
+    return jsonResponse({
+      reminders: reminders.length,
+      claimed: claimed.length,
+      messages: outgoing.length,
+      sent,
+      failed,
+      removedTokens: deadTokens.size,
+    });
+  } catch (error) {
+    console.error('Error in send-expiry-reminders function:', error);
+    return jsonResponse({ error: error.message || 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * Inserts pending delivery rows and returns only the reminders this run
+ * managed to claim (rows already logged by another run are skipped)
+ */
+async function claimReminders(
+  supabaseClient: SupabaseClient,
+  reminders: PendingReminder[]
+): Promise<PendingReminder[]> {
+  const { data, error } = await supabaseClient
+    .from('notification_deliveries')
+    .upsert(
+      reminders.map((r) => ({
+        user_id: r.user_id,
+        inventory_id: r.id,
+        kind: 'expiry_reminder',
+        expiry_date: r.expiry_date,
+        status: 'pending',
+      })),
+      { onConflict: 'inventory_id,user_id,kind,expiry_date', ignoreDuplicates: true }
+    )
+    .select('inventory_id, user_id');
+
+  if (error) {
+    throw new Error(`Failed to claim reminders: ${error.message}`);
+  }
+
+  const claimedKeys = new Set(
+    (data || []).map((row: { inventory_id: string; user_id: string }) =>
+      deliveryKey({ id: row.inventory_id, user_id: row.user_id })
+    )
+  );
+  return reminders.filter((r) => claimedKeys.has(deliveryKey(r)));
+}
+
+/**
+ * Updates the delivery log rows of the given reminders
+ */
+async function updateDeliveries(
+  supabaseClient: SupabaseClient,
+  reminders: PendingReminder[],
+  values: Record<string, unknown>
+): Promise<void> {
+  const inventoryIdsByUser = new Map<string, string[]>();
+  for (const reminder of reminders) {
+    inventoryIdsByUser.set(reminder.user_id, [...(inventoryIdsByUser.get(reminder.user_id) || []), reminder.id]);
+  }
+
+  for (const [userId, inventoryIds] of inventoryIdsByUser) {
+    const { error } = await supabaseClient
+      .from('notification_deliveries')
+      .update(values)
+      .eq('user_id', userId)
+      .in('inventory_id', inventoryIds)
+      .eq('kind', 'expiry_reminder')
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('Failed to update notification deliveries:', error);
+    }
+  }
+}
+
+/**
+ * Sends one batch of messages to the Expo push API
+ * Tickets are returned in the same order as the messages.
+ */
+async function sendToExpo(messages: ExpoPushMessage[]): Promise<ExpoPushTicket[]> {
+  const response = await fetch(EXPO_PUSH_URL, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      ...(EXPO_ACCESS_TOKEN ? { 'Authorization': `Bearer ${EXPO_ACCESS_TOKEN}` } : {}),
+    },
+    body: JSON.stringify(messages),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Expo push API error (${response.status}): ${errorText}`);
+  }
+
+  const result = await response.json();
+  if (!Array.isArray(result.data) || result.data.length !== messages.length) {
+    throw new Error('Expo push API returned an unexpected response');
+  }
+
+  return result.data as ExpoPushTicket[];
+}
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+}
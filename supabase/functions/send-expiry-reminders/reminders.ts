@@ -0,0 +1,169 @@
+// Who may run the job, when a reminder is due and what gets sent
+// Kept apart from index.ts, without Deno or network access, so it can be
+// tested on its own.
+
+export interface PendingReminder {
+  id: string;
+  user_id: string;
+  product_name: string | null;
+  category: string | null;
+  expiry_date: string;
+  quantity: number;
+  unit: string;
+  days_until_expiry: number;
+  lead_days: number;
+  delivery_mode: 'per_item' | 'digest';
+  reminder_hour: number;
+  quiet_start_hour: number | null;
+  quiet_end_hour: number | null;
+  timezone: string;
+  local_hour: number; // Current hour in the user's time zone
+}
+
+/**
+ * Message in the Expo push API format
+ * https://docs.expo.dev/push-notifications/sending-notifications/#message-request-format
+ */
+export interface ExpoPushMessage {
+  to: string;
+  title: string;
+  body: string;
+  sound: 'default';
+  data: { inventoryId: string; expiryDate: string } | { inventoryIds: string[] };
+}
+
+// One message and the reminders it covers, so delivery can be logged per item
+export interface OutgoingMessage {
+  reminders: PendingReminder[];
+  message: ExpoPushMessage;
+}
+
+/**
+ * Returns true if the request carries the service role key as a bearer
+ * token, or the cron secret (when one is set) in the x-cron-secret header
+ */
+export function isAuthorizedCaller(
+  req: Pick<Request, 'headers'>,
+  serviceKey: string,
+  cronSecret?: string | null
+): boolean {
+  const authorization = req.headers.get('Authorization') || '';
+  if (timingSafeEqual(authorization, `Bearer ${serviceKey}`)) return true;
+
+  const sentSecret = req.headers.get('x-cron-secret');
+  return !!cronSecret && !!sentSecret && timingSafeEqual(sentSecret, cronSecret);
+}
+
+/**
+ * Compares two strings in time independent of where they first differ
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Returns true if `hour` falls inside the user's quiet hours
+ * Quiet hours run from start up to (not including) end and may wrap midnight.
+ */
+export function isQuietHour(reminder: PendingReminder, hour: number): boolean {
+  const { quiet_start_hour: start, quiet_end_hour: end } = reminder;
+  if (start === null || end === null || start === end) return false;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Returns true if the user's reminder hour (moved past quiet hours) has been
+ * reached today and it is not quiet time now
+ */
+export function isDue(reminder: PendingReminder): boolean {
+  const deliveryHour = isQuietHour(reminder, reminder.reminder_hour) && reminder.quiet_end_hour !== null
+    ? reminder.quiet_end_hour
+    : reminder.reminder_hour;
+  return reminder.local_hour >= deliveryHour && !isQuietHour(reminder, reminder.local_hour);
+}
+
+/**
+ * Key of one reminder in the delivery log: an item and the member reminded
+ */
+export function deliveryKey(reminder: Pick<PendingReminder, 'id' | 'user_id'>): string {
+  return `${reminder.id}:${reminder.user_id}`;
+}
+
+function describeDaysLeft(days: number): string {
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+}
+
+/**
+ * Builds the Expo messages for a set of reminders, one per device and item
+ * for 'per_item' users, one digest per device for 'digest' users. Each
+ * message keeps the reminders it covers so delivery can be logged per item.
+ */
+export function buildMessages(
+  reminders: PendingReminder[],
+  tokensByUser: Map<string, string[]>
+): OutgoingMessage[] {
+  const remindersByUser = new Map<string, PendingReminder[]>();
+  for (const reminder of reminders) {
+    remindersByUser.set(reminder.user_id, [...(remindersByUser.get(reminder.user_id) || []), reminder]);
+  }
+
+  const outgoing: OutgoingMessage[] = [];
+  for (const [userId, userReminders] of remindersByUser) {
+    const tokens = tokensByUser.get(userId) || [];
+
+    if (userReminders[0].delivery_mode === 'digest') {
+      const title = userReminders.length === 1
+        ? '1 item expiring soon'
+        : `${userReminders.length} items expiring soon`;
+      const body = userReminders
+        .map((r) => `${r.product_name || 'Unknown item'} (${describeDaysLeft(r.days_until_expiry)})`)
+        .join(', ');
+
+      for (const token of tokens) {
+        outgoing.push({
+          reminders: userReminders,
+          message: {
+            to: token,
+            title,
+            body,
+            sound: 'default',
+            data: { inventoryIds: userReminders.map((r) => r.id) },
+          },
+        });
+      }
+      continue;
+    }
+
+    for (const reminder of userReminders) {
+      for (const token of tokens) {
+        outgoing.push({
+          reminders: [reminder],
+          message: {
+            to: token,
+            title: 'Expiring soon',
+            body: `${reminder.product_name || 'An item'} expires ${describeDaysLeft(reminder.days_until_expiry)}`,
+            sound: 'default',
+            data: { inventoryId: reminder.id, expiryDate: reminder.expiry_date },
+          },
+        });
+      }
+    }
+  }
+
+  return outgoing;
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
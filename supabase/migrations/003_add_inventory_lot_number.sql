@@ -0,0 +1,5 @@
+-- Add lot/batch number to inventory items
+-- Populated from GS1 Application Identifier 10 when a GS1-128,
+-- GS1 DataMatrix or GS1 Digital Link code is scanned
+ALTER TABLE inventory
+  ADD COLUMN IF NOT EXISTS lot_number TEXT;
@@ -0,0 +1,18 @@
+-- Add quantity and unit tracking to inventory items
+-- A row represents N units of the same product with the same expiry date
+-- (e.g. 6 yogurts). Consuming reduces the quantity; the item leaves the
+-- active list once the quantity reaches zero.
+ALTER TABLE inventory
+  ADD COLUMN IF NOT EXISTS quantity NUMERIC NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS unit TEXT NOT NULL DEFAULT 'pcs';
+
+-- Quantity can never go negative
+ALTER TABLE inventory
+  ADD CONSTRAINT inventory_quantity_non_negative CHECK (quantity >= 0);
+
+-- Restrict units to the ones supported by the app
+ALTER TABLE inventory
+  ADD CONSTRAINT inventory_unit_valid CHECK (unit IN ('pcs', 'pack', 'g', 'kg', 'ml', 'l'));
+
+-- Active items are the ones with quantity left
+CREATE INDEX IF NOT EXISTS idx_inventory_user_id_active ON inventory(user_id) WHERE quantity > 0;
@@ -0,0 +1,104 @@
+-- Create the storage_locations table
+-- User-defined places where items are kept (fridge, freezer, pantry or custom)
+CREATE TABLE IF NOT EXISTS storage_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'custom' CHECK (kind IN ('fridge', 'freezer', 'pantry', 'custom')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+-- Create an index on user_id for better query performance
+CREATE INDEX IF NOT EXISTS idx_storage_locations_user_id ON storage_locations(user_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE storage_locations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only SELECT their own storage locations
+CREATE POLICY "Users can view their own storage locations"
+  ON storage_locations
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Policy: Users can only INSERT their own storage locations
+CREATE POLICY "Users can insert their own storage locations"
+  ON storage_locations
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can only UPDATE their own storage locations
+CREATE POLICY "Users can update their own storage locations"
+  ON storage_locations
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can only DELETE their own storage locations
+CREATE POLICY "Users can delete their own storage locations"
+  ON storage_locations
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Link inventory items to a storage location
+-- Deleting a location leaves its items without a location
+ALTER TABLE inventory
+  ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES storage_locations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_location_id ON inventory(location_id);
+
+-- Create the shelf_life_rules table
+-- Shelf life per category and kind of storage, used to recompute expiry
+-- when an item is moved (e.g. chicken from fridge to freezer)
+CREATE TABLE IF NOT EXISTS shelf_life_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category TEXT NOT NULL,
+  storage_kind TEXT NOT NULL CHECK (storage_kind IN ('fridge', 'freezer', 'pantry')),
+  shelf_life_days INTEGER NOT NULL CHECK (shelf_life_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (category, storage_kind)
+);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE shelf_life_rules ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Authenticated users can read (SELECT) shelf life rules
+CREATE POLICY "Authenticated users can view shelf life rules"
+  ON shelf_life_rules
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- Per-product overrides of the category rules
+-- The existing shelf_life_days stays the "as bought" estimate
+ALTER TABLE product_master_list
+  ADD COLUMN IF NOT EXISTS fridge_shelf_life_days INTEGER,
+  ADD COLUMN IF NOT EXISTS freezer_shelf_life_days INTEGER,
+  ADD COLUMN IF NOT EXISTS pantry_shelf_life_days INTEGER;
+
+-- Default rules for common categories
+INSERT INTO shelf_life_rules (category, storage_kind, shelf_life_days) VALUES
+  ('Meat', 'fridge', 3),
+  ('Meat', 'freezer', 270),
+  ('Seafood', 'fridge', 2),
+  ('Seafood', 'freezer', 180),
+  ('Dairy', 'fridge', 7),
+  ('Dairy', 'freezer', 90),
+  ('Dairy', 'pantry', 1),
+  ('Produce', 'fridge', 7),
+  ('Produce', 'freezer', 240),
+  ('Produce', 'pantry', 5),
+  ('Bakery', 'fridge', 7),
+  ('Bakery', 'freezer', 90),
+  ('Bakery', 'pantry', 4),
+  ('Beverages', 'fridge', 7),
+  ('Beverages', 'pantry', 180),
+  ('Snacks', 'pantry', 90),
+  ('General', 'fridge', 7),
+  ('General', 'freezer', 90),
+  ('General', 'pantry', 30)
+ON CONFLICT (category, storage_kind) DO NOTHING;
+
+-- Per-product values for the seed products
+UPDATE product_master_list SET fridge_shelf_life_days = 2, freezer_shelf_life_days = 365 WHERE code = 'BATCH-001';
+UPDATE product_master_list SET fridge_shelf_life_days = 7, freezer_shelf_life_days = 90 WHERE code = '123456';
+UPDATE product_master_list SET fridge_shelf_life_days = 14 WHERE code = '654321';
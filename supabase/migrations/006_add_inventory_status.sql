@@ -0,0 +1,25 @@
+-- Add a status lifecycle to inventory items
+-- Items are no longer hard deleted when they leave the kitchen; instead
+-- they are closed with an outcome so we keep a history of what was eaten
+-- and what was thrown away.
+--
+--   active   - still in stock
+--   consumed - eaten / used up
+--   wasted   - thrown away
+--   donated  - given away
+ALTER TABLE inventory
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS status_reason TEXT;
+
+ALTER TABLE inventory
+  ADD CONSTRAINT inventory_status_valid CHECK (status IN ('active', 'consumed', 'wasted', 'donated'));
+
+-- Items that were fully consumed before this migration
+UPDATE inventory
+SET status = 'consumed', status_changed_at = NOW()
+WHERE quantity = 0 AND status = 'active';
+
+-- Active items are now the ones with status 'active'
+DROP INDEX IF EXISTS idx_inventory_user_id_active;
+CREATE INDEX IF NOT EXISTS idx_inventory_user_id_status ON inventory(user_id, status);
@@ -0,0 +1,95 @@
+-- Waste and savings analytics
+-- Aggregations over closed inventory items (see 006_add_inventory_status.sql).
+-- Views use security_invoker so the inventory RLS policies apply and each
+-- user only sees their own figures.
+
+-- Items wasted per week
+CREATE OR REPLACE VIEW waste_per_week
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  date_trunc('week', status_changed_at)::date AS week_start,
+  COUNT(*) AS wasted_items,
+  SUM(quantity) AS wasted_quantity
+FROM inventory
+WHERE status = 'wasted'
+  AND status_changed_at IS NOT NULL
+GROUP BY user_id, date_trunc('week', status_changed_at)::date;
+
+-- Waste by category, with the share of closed items that were wasted
+CREATE OR REPLACE VIEW waste_by_category
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  COALESCE(category, 'General') AS category,
+  COUNT(*) FILTER (WHERE status = 'wasted') AS wasted_items,
+  COUNT(*) AS closed_items,
+  ROUND(COUNT(*) FILTER (WHERE status = 'wasted')::numeric / COUNT(*), 4) AS waste_rate
+FROM inventory
+WHERE status <> 'active'
+GROUP BY user_id, COALESCE(category, 'General');
+
+-- Waste by storage location (items without a location are grouped under NULL)
+CREATE OR REPLACE VIEW waste_by_location
+WITH (security_invoker = true) AS
+SELECT
+  i.user_id,
+  i.location_id,
+  COALESCE(l.name, 'No location') AS location_name,
+  l.kind AS location_kind,
+  COUNT(*) AS wasted_items
+FROM inventory i
+LEFT JOIN storage_locations l ON l.id = i.location_id
+WHERE i.status = 'wasted'
+GROUP BY i.user_id, i.location_id, l.name, l.kind;
+
+-- Products thrown away most often
+CREATE OR REPLACE VIEW top_wasted_products
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  COALESCE(product_name, 'Unknown Product') AS product_name,
+  MAX(barcode) AS barcode,
+  COUNT(*) AS wasted_count,
+  MAX(status_changed_at) AS last_wasted_at
+FROM inventory
+WHERE status = 'wasted'
+GROUP BY user_id, COALESCE(product_name, 'Unknown Product');
+
+-- Outcome summary for the current user, optionally since a given time
+-- consumed_before_expiry_pct is the share of closed items that were
+-- consumed on or before their expiry date
+CREATE OR REPLACE FUNCTION get_consumption_summary(since TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE (
+  consumed_items BIGINT,
+  wasted_items BIGINT,
+  donated_items BIGINT,
+  consumed_before_expiry BIGINT,
+  consumed_before_expiry_pct NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'consumed') AS consumed_items,
+    COUNT(*) FILTER (WHERE status = 'wasted') AS wasted_items,
+    COUNT(*) FILTER (WHERE status = 'donated') AS donated_items,
+    COUNT(*) FILTER (
+      WHERE status = 'consumed'
+        AND (expiry_date IS NULL OR status_changed_at::date <= expiry_date)
+    ) AS consumed_before_expiry,
+    CASE WHEN COUNT(*) = 0 THEN 0
+      ELSE ROUND(
+        100.0 * COUNT(*) FILTER (
+          WHERE status = 'consumed'
+            AND (expiry_date IS NULL OR status_changed_at::date <= expiry_date)
+        ) / COUNT(*),
+        1
+      )
+    END AS consumed_before_expiry_pct
+  FROM inventory
+  WHERE user_id = auth.uid()
+    AND status <> 'active'
+    AND (since IS NULL OR status_changed_at >= since);
+$$;
@@ -0,0 +1,35 @@
+-- Support offline edits synced from the app's local outbox
+-- updated_at is the last-write-wins timestamp used to resolve conflicts
+-- between devices. Offline writes carry the time they were made on the
+-- device; writes that don't set it get the server time.
+
+ALTER TABLE inventory
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+UPDATE inventory
+SET updated_at = COALESCE(status_changed_at, created_at, NOW())
+WHERE updated_at IS NULL;
+
+ALTER TABLE inventory ALTER COLUMN updated_at SET NOT NULL;
+
+-- Queued inserts may have been created before the app knew the user id
+ALTER TABLE inventory ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+-- Create an index for incremental pulls
+CREATE INDEX IF NOT EXISTS idx_inventory_updated_at ON inventory(updated_at);
+
+-- Bump updated_at unless the writer set it explicitly
+CREATE OR REPLACE FUNCTION update_inventory_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.updated_at IS NOT DISTINCT FROM OLD.updated_at THEN
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_inventory_updated_at
+  BEFORE UPDATE ON inventory
+  FOR EACH ROW
+  EXECUTE FUNCTION update_inventory_updated_at();
@@ -0,0 +1,189 @@
+-- Crowd-sourced product data
+-- Users confirm barcode -> name/category/shelf life mappings when they save
+-- a scan or enter a product manually. Once enough users agree on a mapping
+-- (or an admin approves one) it is promoted into product_master_list, which
+-- analyze-product checks before asking the LLM.
+
+-- Where a product_master_list row came from: 'seed', 'community' or 'admin'
+ALTER TABLE product_master_list
+  ADD COLUMN IF NOT EXISTS origin TEXT NOT NULL DEFAULT 'seed';
+
+-- Create the product_submissions table
+-- One row per user and code; confirming the same code again replaces the
+-- user's earlier answer, so each user has one vote per product.
+CREATE TABLE IF NOT EXISTS product_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  category TEXT,
+  shelf_life_days INTEGER CHECK (shelf_life_days IS NULL OR shelf_life_days BETWEEN 0 AND 3650),
+  -- 'pending' until promoted (by agreement or an admin) or rejected by an admin
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'promoted', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, code)
+);
+
+-- Create an index on code for counting agreeing submissions
+CREATE INDEX IF NOT EXISTS idx_product_submissions_code ON product_submissions(code);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE product_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only SELECT their own submissions
+-- Submissions are written through submit_product() only.
+CREATE POLICY "Users can view their own product submissions"
+  ON product_submissions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Promote a code's mapping into product_master_list once `min_agreeing`
+-- users submitted the same name and category (case-insensitive)
+-- Shelf life is the median of the agreeing submissions. Rows an admin
+-- added or approved are never overwritten by the crowd.
+-- Returns true if the code was promoted.
+CREATE OR REPLACE FUNCTION promote_product_submissions(product_code TEXT, min_agreeing INTEGER DEFAULT 3)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  winner RECORD;
+BEGIN
+  SELECT
+    lower(trim(s.name)) AS name_key,
+    lower(trim(COALESCE(s.category, ''))) AS category_key,
+    -- Spelling of the most recent agreeing submission
+    (array_agg(trim(s.name) ORDER BY s.updated_at DESC))[1] AS name,
+    (array_agg(NULLIF(trim(s.category), '') ORDER BY s.updated_at DESC))[1] AS category,
+    percentile_disc(0.5) WITHIN GROUP (ORDER BY s.shelf_life_days) AS shelf_life_days,
+    COUNT(*) AS votes
+  INTO winner
+  FROM product_submissions s
+  WHERE s.code = product_code
+    AND s.status <> 'rejected'
+  GROUP BY 1, 2
+  ORDER BY COUNT(*) DESC, MAX(s.updated_at) DESC
+  LIMIT 1;
+
+  IF NOT FOUND OR winner.votes < min_agreeing THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO product_master_list (code, name, category, shelf_life_days, origin)
+  VALUES (product_code, winner.name, winner.category, winner.shelf_life_days, 'community')
+  ON CONFLICT (code) DO UPDATE
+    SET name = EXCLUDED.name,
+        category = EXCLUDED.category,
+        shelf_life_days = EXCLUDED.shelf_life_days,
+        updated_at = NOW()
+    WHERE product_master_list.origin = 'community';
+
+  IF NOT FOUND THEN
+    RETURN FALSE; -- An admin or seed row owns this code
+  END IF;
+
+  UPDATE product_submissions
+  SET status = 'promoted', updated_at = NOW()
+  WHERE code = product_code
+    AND status = 'pending'
+    AND lower(trim(name)) = winner.name_key
+    AND lower(trim(COALESCE(category, ''))) = winner.category_key;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Only submit_product() and admins (service role) promote
+REVOKE EXECUTE ON FUNCTION promote_product_submissions(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Record the current user's confirmed mapping for a code, then promote the
+-- code if enough users now agree
+-- Returns true if the code was promoted into product_master_list.
+CREATE OR REPLACE FUNCTION submit_product(
+  product_code TEXT,
+  product_name TEXT,
+  product_category TEXT DEFAULT NULL,
+  product_shelf_life_days INTEGER DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF product_code IS NULL OR length(trim(product_code)) = 0 THEN
+    RAISE EXCEPTION 'Product code is required';
+  END IF;
+
+  INSERT INTO product_submissions (user_id, code, name, category, shelf_life_days)
+  VALUES (auth.uid(), trim(product_code), trim(product_name), NULLIF(trim(product_category), ''), product_shelf_life_days)
+  ON CONFLICT (user_id, code) DO UPDATE
+    SET name = EXCLUDED.name,
+        category = EXCLUDED.category,
+        shelf_life_days = EXCLUDED.shelf_life_days,
+        status = 'pending',
+        updated_at = NOW();
+
+  RETURN promote_product_submissions(trim(product_code));
+END;
+$$;
+
+-- Admin approval: promote a single submission regardless of agreement
+-- Overwrites whatever product_master_list has for the code. Run with the
+-- service role, e.g. from the SQL editor:
+--   SELECT approve_product_submission('<submission id>');
+CREATE OR REPLACE FUNCTION approve_product_submission(submission_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  submission product_submissions%ROWTYPE;
+BEGIN
+  SELECT * INTO submission FROM product_submissions WHERE id = submission_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product submission % not found', submission_id;
+  END IF;
+
+  INSERT INTO product_master_list (code, name, category, shelf_life_days, origin)
+  VALUES (submission.code, submission.name, submission.category, submission.shelf_life_days, 'admin')
+  ON CONFLICT (code) DO UPDATE
+    SET name = EXCLUDED.name,
+        category = EXCLUDED.category,
+        shelf_life_days = EXCLUDED.shelf_life_days,
+        origin = 'admin',
+        updated_at = NOW();
+
+  UPDATE product_submissions
+  SET status = 'promoted', updated_at = NOW()
+  WHERE id = submission_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION approve_product_submission(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Admin review: codes with pending submissions, most agreed-on first
+CREATE OR REPLACE VIEW pending_product_submissions AS
+SELECT
+  code,
+  lower(trim(name)) AS name_key,
+  (array_agg(id ORDER BY updated_at DESC))[1] AS latest_submission_id,
+  (array_agg(name ORDER BY updated_at DESC))[1] AS name,
+  (array_agg(category ORDER BY updated_at DESC))[1] AS category,
+  COUNT(*) AS votes,
+  MAX(updated_at) AS last_submitted_at
+FROM product_submissions
+WHERE status = 'pending'
+GROUP BY code, lower(trim(name))
+ORDER BY votes DESC, last_submitted_at DESC;
+
+-- The view bypasses RLS (owned by postgres); keep it to the service role
+REVOKE ALL ON pending_product_submissions FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,36 @@
+-- Per-barcode cache of AI product answers
+-- analyze-product looks up product_master_list first, then this cache, and
+-- only then asks the LLM, so a code the AI identified once is not paid for
+-- again until its entry expires. Only confident, validated answers are
+-- cached. Shelf life is stored rather than an expiry date, since the expiry
+-- depends on the day of the scan.
+
+-- Create the product_analysis_cache table
+CREATE TABLE IF NOT EXISTS product_analysis_cache (
+  code TEXT PRIMARY KEY,
+  product_name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  shelf_life_days INTEGER NOT NULL CHECK (shelf_life_days >= 0),
+  confidence_score NUMERIC(3, 2) NOT NULL CHECK (confidence_score BETWEEN 0 AND 1),
+  -- Provider and model that produced the answer, e.g. 'OpenAI' / 'gpt-4o-mini'
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Create an index on expires_at for cleaning up expired entries
+CREATE INDEX IF NOT EXISTS idx_product_analysis_cache_expires_at ON product_analysis_cache(expires_at);
+
+-- Enable Row Level Security (RLS)
+-- No policies: only the Edge Function (service role) reads and writes the cache
+ALTER TABLE product_analysis_cache ENABLE ROW LEVEL SECURITY;
+
+-- Expired entries are ignored by lookups and overwritten on the next answer.
+-- To keep the table small, delete them periodically (requires pg_cron):
+--
+-- SELECT cron.schedule(
+--   'purge-product-analysis-cache',
+--   '0 3 * * *',
+--   $$ DELETE FROM product_analysis_cache WHERE expires_at < NOW() $$
+-- );
@@ -0,0 +1,86 @@
+-- Store GTIN barcodes as GTIN-14
+-- The app and analyze-product now zero-pad every valid EAN-8, UPC-A, EAN-13
+-- and GTIN-14 to 14 digits (see supabase/functions/_shared/barcode.ts), so
+-- the same product matches however it was scanned. This rewrites existing
+-- codes the same way. Codes that are not GTINs (batch codes, QR text) or
+-- fail the check digit are left unchanged.
+
+-- SQL version of normalizeBarcode() for stored codes
+-- UPC-E cannot be told apart from EAN-8 without the scanner's barcode type;
+-- the app expands UPC-E before saving, so stored 8 digit codes are EAN-8.
+CREATE OR REPLACE FUNCTION normalize_gtin(code TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  digits TEXT := trim(code);
+  len INTEGER;
+  total INTEGER := 0;
+BEGIN
+  IF digits IS NULL OR digits !~ '^([0-9]{8}|[0-9]{12,14})$' THEN
+    RETURN code;
+  END IF;
+
+  -- Weights alternate 3, 1, ... from the digit left of the check digit
+  len := length(digits);
+  FOR i IN 1..len - 1 LOOP
+    total := total + substr(digits, len - i, 1)::INTEGER * CASE WHEN i % 2 = 1 THEN 3 ELSE 1 END;
+  END LOOP;
+
+  IF (10 - total % 10) % 10 <> substr(digits, len, 1)::INTEGER THEN
+    RETURN code;
+  END IF;
+
+  RETURN lpad(digits, 14, '0');
+END;
+$$;
+
+-- Inventory items
+UPDATE inventory
+SET barcode = normalize_gtin(barcode)
+WHERE barcode IS DISTINCT FROM normalize_gtin(barcode);
+
+-- Product master list: when a UPC-A and its EAN-13 form were both stored,
+-- keep the admin row, then the community row, then the most recently updated
+DELETE FROM product_master_list p
+USING (
+  SELECT
+    id,
+    row_number() OVER (
+      PARTITION BY normalize_gtin(code)
+      ORDER BY
+        CASE origin WHEN 'admin' THEN 0 WHEN 'community' THEN 1 ELSE 2 END,
+        updated_at DESC NULLS LAST
+    ) AS rank
+  FROM product_master_list
+) ranked
+WHERE p.id = ranked.id
+  AND ranked.rank > 1;
+
+UPDATE product_master_list
+SET code = normalize_gtin(code)
+WHERE code <> normalize_gtin(code);
+
+-- Product submissions: one vote per user and code, so keep each user's
+-- latest submission
+DELETE FROM product_submissions s
+USING (
+  SELECT
+    id,
+    row_number() OVER (
+      PARTITION BY user_id, normalize_gtin(code)
+      ORDER BY updated_at DESC NULLS LAST
+    ) AS rank
+  FROM product_submissions
+) ranked
+WHERE s.id = ranked.id
+  AND ranked.rank > 1;
+
+UPDATE product_submissions
+SET code = normalize_gtin(code)
+WHERE code <> normalize_gtin(code);
+
+-- AI answer cache: entries under old codes would never be looked up again
+DELETE FROM product_analysis_cache
+WHERE code <> normalize_gtin(code);
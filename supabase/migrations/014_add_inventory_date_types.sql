@@ -0,0 +1,109 @@
+-- Tell "best before" from "use by" dates and track opened packages
+-- A best before date is about quality (the food is usually fine after it),
+-- a use by date is about safety. Once a package is opened, most products
+-- have to be used within a few days whatever the printed date says, so the
+-- deadline is the earlier of the printed date and opened_at plus the
+-- product's "after opening, use within N days" window.
+
+ALTER TABLE inventory
+ADD COLUMN IF NOT EXISTS expiry_date_type TEXT NOT NULL DEFAULT 'best_before'
+  CHECK (expiry_date_type IN ('best_before', 'use_by'));
+
+ALTER TABLE inventory
+ADD COLUMN IF NOT EXISTS opened_at DATE;
+
+-- Copied from product_master_list when the item is added, so the deadline
+-- can be worked out offline; editable per item
+ALTER TABLE inventory
+ADD COLUMN IF NOT EXISTS opened_shelf_life_days INTEGER
+  CHECK (opened_shelf_life_days IS NULL OR opened_shelf_life_days >= 0);
+
+ALTER TABLE product_master_list
+ADD COLUMN IF NOT EXISTS opened_shelf_life_days INTEGER
+  CHECK (opened_shelf_life_days IS NULL OR opened_shelf_life_days >= 0);
+
+-- SQL version of getEffectiveExpiry() in utils/shelfLife.ts
+-- LEAST ignores NULLs, so an unopened item keeps its printed date and an
+-- opened item without a printed date gets the opened deadline.
+CREATE OR REPLACE FUNCTION effective_expiry_date(
+  expiry_date DATE,
+  opened_at DATE,
+  opened_shelf_life_days INTEGER
+)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT LEAST(expiry_date, opened_at + opened_shelf_life_days);
+$$;
+
+-- Reminders are due at the effective deadline. The column is still called
+-- expiry_date so send-expiry-reminders and notification_deliveries are
+-- unchanged; opening an item moves its deadline and so allows a new reminder.
+CREATE OR REPLACE FUNCTION get_pending_expiry_reminders(days_ahead INTEGER DEFAULT 3)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  product_name TEXT,
+  category TEXT,
+  expiry_date DATE,
+  quantity NUMERIC,
+  unit TEXT,
+  days_until_expiry INTEGER,
+  lead_days INTEGER,
+  delivery_mode TEXT,
+  reminder_hour INTEGER,
+  quiet_start_hour INTEGER,
+  quiet_end_hour INTEGER,
+  timezone TEXT,
+  local_hour INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      i.id,
+      i.user_id,
+      i.product_name,
+      i.category,
+      effective_expiry_date(i.expiry_date, i.opened_at, i.opened_shelf_life_days) AS deadline,
+      i.quantity,
+      i.unit,
+      p AS prefs,
+      COALESCE(p.timezone, 'UTC') AS tz,
+      (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC')) AS local_now
+    FROM inventory i
+    LEFT JOIN notification_preferences p ON p.user_id = i.user_id
+    WHERE i.status = 'active'
+      AND effective_expiry_date(i.expiry_date, i.opened_at, i.opened_shelf_life_days) IS NOT NULL
+  )
+  SELECT
+    c.id,
+    c.user_id,
+    c.product_name,
+    c.category,
+    c.deadline,
+    c.quantity,
+    c.unit,
+    (c.deadline - c.local_now::date) AS days_until_expiry,
+    get_reminder_lead_days(c.prefs, c.category, days_ahead) AS lead_days,
+    COALESCE((c.prefs).delivery_mode, 'per_item') AS delivery_mode,
+    COALESCE((c.prefs).reminder_hour, 9) AS reminder_hour,
+    (c.prefs).quiet_start_hour,
+    (c.prefs).quiet_end_hour,
+    c.tz AS timezone,
+    EXTRACT(HOUR FROM c.local_now)::INTEGER AS local_hour
+  FROM candidates c
+  WHERE c.deadline BETWEEN c.local_now::date
+    AND c.local_now::date + get_reminder_lead_days(c.prefs, c.category, days_ahead)
+    AND NOT EXISTS (
+      SELECT 1 FROM notification_deliveries d
+      WHERE d.inventory_id = c.id
+        AND d.kind = 'expiry_reminder'
+        AND d.expiry_date = c.deadline
+    )
+  ORDER BY c.user_id, c.deadline, c.product_name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_pending_expiry_reminders(INTEGER) FROM PUBLIC, anon, authenticated;
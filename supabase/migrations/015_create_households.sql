@@ -0,0 +1,537 @@
+-- Shared household inventories
+-- Inventory and storage locations belong to a household instead of a single
+-- user, so everyone sharing a kitchen sees and edits the same list. Members
+-- have a role:
+-- - owner: everything, plus renaming the household, managing members and
+--   resetting the invite code
+-- - editor: add, change and remove items and locations
+-- - viewer: read only
+-- Users join a household with its invite code. Every existing user gets a
+-- personal household holding their current items and locations.
+-- inventory.user_id stays as the member who added the item.
+
+-- Invite codes: 8 characters without look-alikes (0/O, 1/I/L)
+CREATE OR REPLACE FUNCTION generate_invite_code()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT string_agg(
+    substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', 1 + get_byte(bytes, i) % 31, 1),
+    ''
+  )
+  FROM (SELECT uuid_send(gen_random_uuid()) AS bytes) random_bytes,
+    -- Bytes 6 and 8 of a v4 UUID carry the version and variant bits
+    unnest(ARRAY[0, 1, 2, 3, 4, 5, 10, 11]) AS i;
+$$;
+
+-- Create the households table
+CREATE TABLE IF NOT EXISTS households (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  invite_code TEXT NOT NULL UNIQUE DEFAULT generate_invite_code(),
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create the household_members table
+CREATE TABLE IF NOT EXISTS household_members (
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('owner', 'editor', 'viewer')),
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (household_id, user_id)
+);
+
+-- Create an index on user_id for looking up a user's households
+CREATE INDEX IF NOT EXISTS idx_household_members_user_id ON household_members(user_id);
+
+-- The current user's role in a household, or NULL if they are not a member
+-- SECURITY DEFINER so the policies below can use it without recursing into
+-- the household_members policies.
+CREATE OR REPLACE FUNCTION get_household_role(target_household UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM household_members
+  WHERE household_id = target_household AND user_id = auth.uid();
+$$;
+
+-- Number of owners of a household (same reason for SECURITY DEFINER)
+CREATE OR REPLACE FUNCTION get_household_owner_count(target_household UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*) FROM household_members
+  WHERE household_id = target_household AND role = 'owner';
+$$;
+
+CREATE OR REPLACE FUNCTION is_household_member(target_household UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT get_household_role(target_household) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_household(target_household UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(get_household_role(target_household) IN ('owner', 'editor'), false);
+$$;
+
+-- Enable Row Level Security (RLS)
+-- Households are created and joined through the functions below
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Members can SELECT their households
+CREATE POLICY "Members can view their households"
+  ON households
+  FOR SELECT
+  USING (is_household_member(id));
+
+-- Policy: Owners can rename their households
+CREATE POLICY "Owners can update their households"
+  ON households
+  FOR UPDATE
+  USING (get_household_role(id) = 'owner')
+  WITH CHECK (get_household_role(id) = 'owner');
+
+-- Policy: Owners can delete their households (and everything in them)
+CREATE POLICY "Owners can delete their households"
+  ON households
+  FOR DELETE
+  USING (get_household_role(id) = 'owner');
+
+-- Policy: Members can SELECT the members of their households
+CREATE POLICY "Members can view household members"
+  ON household_members
+  FOR SELECT
+  USING (is_household_member(household_id));
+
+-- Policy: Owners can change the roles of other members
+CREATE POLICY "Owners can update household members"
+  ON household_members
+  FOR UPDATE
+  USING (get_household_role(household_id) = 'owner' AND user_id <> auth.uid())
+  WITH CHECK (get_household_role(household_id) = 'owner');
+
+-- Policy: Owners can remove other members, and members can leave; the
+-- last owner makes someone else owner first (or deletes the household)
+CREATE POLICY "Members can leave and owners can remove members"
+  ON household_members
+  FOR DELETE
+  USING (
+    (get_household_role(household_id) = 'owner' AND user_id <> auth.uid())
+    OR (user_id = auth.uid() AND (role <> 'owner' OR get_household_owner_count(household_id) > 1))
+  );
+
+-- Create a household with the current user as its owner
+CREATE OR REPLACE FUNCTION create_household(household_name TEXT)
+RETURNS households
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created households;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO households (name, created_by)
+  VALUES (trim(household_name), auth.uid())
+  RETURNING * INTO created;
+
+  INSERT INTO household_members (household_id, user_id, role)
+  VALUES (created.id, auth.uid(), 'owner');
+
+  RETURN created;
+END;
+$$;
+
+-- Join a household by its invite code; new members are editors
+-- Joining a household one already belongs to keeps the current role.
+CREATE OR REPLACE FUNCTION join_household(code TEXT)
+RETURNS households
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  joined households;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT * INTO joined FROM households
+  WHERE invite_code = upper(regexp_replace(code, '[^A-Za-z0-9]', '', 'g'));
+
+  IF joined.id IS NULL THEN
+    RAISE EXCEPTION 'Invalid invite code';
+  END IF;
+
+  INSERT INTO household_members (household_id, user_id, role)
+  VALUES (joined.id, auth.uid(), 'editor')
+  ON CONFLICT (household_id, user_id) DO NOTHING;
+
+  RETURN joined;
+END;
+$$;
+
+-- Replace a household's invite code, e.g. after it was shared too widely
+CREATE OR REPLACE FUNCTION reset_household_invite_code(target_household UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_code TEXT;
+BEGIN
+  IF get_household_role(target_household) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can reset the invite code';
+  END IF;
+
+  UPDATE households SET invite_code = generate_invite_code()
+  WHERE id = target_household
+  RETURNING invite_code INTO new_code;
+
+  RETURN new_code;
+END;
+$$;
+
+-- The current user's households with their role, oldest membership first
+CREATE OR REPLACE FUNCTION get_my_households()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  invite_code TEXT,
+  role TEXT,
+  member_count BIGINT,
+  joined_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    h.id,
+    h.name,
+    h.invite_code,
+    m.role,
+    (SELECT COUNT(*) FROM household_members other WHERE other.household_id = h.id) AS member_count,
+    m.joined_at
+  FROM household_members m
+  JOIN households h ON h.id = m.household_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY m.joined_at, h.created_at;
+$$;
+
+-- Members of a household with their email addresses (auth.users is not
+-- readable by clients)
+CREATE OR REPLACE FUNCTION get_household_members(target_household UUID)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  role TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.user_id, u.email::TEXT, m.role, m.joined_at
+  FROM household_members m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.household_id = target_household
+    AND is_household_member(target_household)
+  ORDER BY m.joined_at;
+$$;
+
+-- The household a user's writes go to when a client does not name one
+-- (apps from before households): their oldest owned household, created on
+-- first use
+CREATE OR REPLACE FUNCTION get_default_household(target_user UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found UUID;
+BEGIN
+  SELECT household_id INTO found FROM household_members
+  WHERE user_id = target_user AND role = 'owner'
+  ORDER BY joined_at
+  LIMIT 1;
+
+  IF found IS NULL THEN
+    INSERT INTO households (name, created_by)
+    VALUES ('My Household', target_user)
+    RETURNING id INTO found;
+
+    INSERT INTO household_members (household_id, user_id, role)
+    VALUES (found, target_user, 'owner');
+  END IF;
+
+  RETURN found;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_default_household(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION set_default_household()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.household_id IS NULL THEN
+    NEW.household_id := get_default_household(COALESCE(NEW.user_id, auth.uid()));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Personal households for existing users, holding their items and locations
+ALTER TABLE inventory
+  ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+
+ALTER TABLE storage_locations
+  ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+
+UPDATE inventory SET household_id = get_default_household(user_id) WHERE household_id IS NULL;
+UPDATE storage_locations SET household_id = get_default_household(user_id) WHERE household_id IS NULL;
+
+ALTER TABLE inventory ALTER COLUMN household_id SET NOT NULL;
+ALTER TABLE storage_locations ALTER COLUMN household_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_household_id_status ON inventory(household_id, status);
+CREATE INDEX IF NOT EXISTS idx_storage_locations_household_id ON storage_locations(household_id);
+
+-- Runs before the RLS checks, so they see the filled-in household
+DROP TRIGGER IF EXISTS set_inventory_household ON inventory;
+CREATE TRIGGER set_inventory_household
+  BEFORE INSERT ON inventory
+  FOR EACH ROW
+  EXECUTE FUNCTION set_default_household();
+
+DROP TRIGGER IF EXISTS set_storage_location_household ON storage_locations;
+CREATE TRIGGER set_storage_location_household
+  BEFORE INSERT ON storage_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_default_household();
+
+-- Location names are unique per household instead of per user
+ALTER TABLE storage_locations DROP CONSTRAINT IF EXISTS storage_locations_user_id_name_key;
+ALTER TABLE storage_locations ADD CONSTRAINT storage_locations_household_id_name_key UNIQUE (household_id, name);
+
+-- Inventory policies, by membership
+DROP POLICY IF EXISTS "Users can view their own inventory" ON inventory;
+DROP POLICY IF EXISTS "Users can insert their own inventory" ON inventory;
+DROP POLICY IF EXISTS "Users can update their own inventory" ON inventory;
+DROP POLICY IF EXISTS "Users can delete their own inventory" ON inventory;
+
+-- Policy: Members can SELECT their households' inventory
+CREATE POLICY "Members can view household inventory"
+  ON inventory
+  FOR SELECT
+  USING (is_household_member(household_id));
+
+-- Policy: Owners and editors can INSERT items, recorded as added by themselves
+CREATE POLICY "Editors can insert household inventory"
+  ON inventory
+  FOR INSERT
+  WITH CHECK (can_edit_household(household_id) AND auth.uid() = user_id);
+
+-- Policy: Owners and editors can UPDATE items (including moving them to
+-- another household they can edit)
+CREATE POLICY "Editors can update household inventory"
+  ON inventory
+  FOR UPDATE
+  USING (can_edit_household(household_id))
+  WITH CHECK (can_edit_household(household_id));
+
+-- Policy: Owners and editors can DELETE items
+CREATE POLICY "Editors can delete household inventory"
+  ON inventory
+  FOR DELETE
+  USING (can_edit_household(household_id));
+
+-- Storage location policies, by membership
+DROP POLICY IF EXISTS "Users can view their own storage locations" ON storage_locations;
+DROP POLICY IF EXISTS "Users can insert their own storage locations" ON storage_locations;
+DROP POLICY IF EXISTS "Users can update their own storage locations" ON storage_locations;
+DROP POLICY IF EXISTS "Users can delete their own storage locations" ON storage_locations;
+
+-- Policy: Members can SELECT their households' storage locations
+CREATE POLICY "Members can view household storage locations"
+  ON storage_locations
+  FOR SELECT
+  USING (is_household_member(household_id));
+
+-- Policy: Owners and editors can INSERT storage locations
+CREATE POLICY "Editors can insert household storage locations"
+  ON storage_locations
+  FOR INSERT
+  WITH CHECK (can_edit_household(household_id));
+
+-- Policy: Owners and editors can UPDATE storage locations
+CREATE POLICY "Editors can update household storage locations"
+  ON storage_locations
+  FOR UPDATE
+  USING (can_edit_household(household_id))
+  WITH CHECK (can_edit_household(household_id));
+
+-- Policy: Owners and editors can DELETE storage locations
+CREATE POLICY "Editors can delete household storage locations"
+  ON storage_locations
+  FOR DELETE
+  USING (can_edit_household(household_id));
+
+-- The waste analytics stay personal (items the user added), now that the
+-- inventory policies also show other members' items
+CREATE OR REPLACE VIEW waste_per_week
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  date_trunc('week', status_changed_at)::date AS week_start,
+  COUNT(*) AS wasted_items,
+  SUM(quantity) AS wasted_quantity
+FROM inventory
+WHERE status = 'wasted'
+  AND status_changed_at IS NOT NULL
+  AND user_id = auth.uid()
+GROUP BY user_id, date_trunc('week', status_changed_at)::date;
+
+CREATE OR REPLACE VIEW waste_by_category
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  COALESCE(category, 'General') AS category,
+  COUNT(*) FILTER (WHERE status = 'wasted') AS wasted_items,
+  COUNT(*) AS closed_items,
+  ROUND(COUNT(*) FILTER (WHERE status = 'wasted')::numeric / COUNT(*), 4) AS waste_rate
+FROM inventory
+WHERE status <> 'active'
+  AND user_id = auth.uid()
+GROUP BY user_id, COALESCE(category, 'General');
+
+CREATE OR REPLACE VIEW waste_by_location
+WITH (security_invoker = true) AS
+SELECT
+  i.user_id,
+  i.location_id,
+  COALESCE(l.name, 'No location') AS location_name,
+  l.kind AS location_kind,
+  COUNT(*) AS wasted_items
+FROM inventory i
+LEFT JOIN storage_locations l ON l.id = i.location_id
+WHERE i.status = 'wasted'
+  AND i.user_id = auth.uid()
+GROUP BY i.user_id, i.location_id, l.name, l.kind;
+
+CREATE OR REPLACE VIEW top_wasted_products
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  COALESCE(product_name, 'Unknown Product') AS product_name,
+  MAX(barcode) AS barcode,
+  COUNT(*) AS wasted_count,
+  MAX(status_changed_at) AS last_wasted_at
+FROM inventory
+WHERE status = 'wasted'
+  AND user_id = auth.uid()
+GROUP BY user_id, COALESCE(product_name, 'Unknown Product');
+
+-- Expiry reminders go to every member of the item's household, each with
+-- their own preferences, so deliveries are logged per member
+ALTER TABLE notification_deliveries
+  DROP CONSTRAINT IF EXISTS notification_deliveries_inventory_id_kind_expiry_date_key;
+ALTER TABLE notification_deliveries
+  ADD CONSTRAINT notification_deliveries_inventory_id_user_id_kind_expiry_date_key
+  UNIQUE (inventory_id, user_id, kind, expiry_date);
+
+CREATE OR REPLACE FUNCTION get_pending_expiry_reminders(days_ahead INTEGER DEFAULT 3)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  product_name TEXT,
+  category TEXT,
+  expiry_date DATE,
+  quantity NUMERIC,
+  unit TEXT,
+  days_until_expiry INTEGER,
+  lead_days INTEGER,
+  delivery_mode TEXT,
+  reminder_hour INTEGER,
+  quiet_start_hour INTEGER,
+  quiet_end_hour INTEGER,
+  timezone TEXT,
+  local_hour INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      i.id,
+      m.user_id,
+      i.product_name,
+      i.category,
+      effective_expiry_date(i.expiry_date, i.opened_at, i.opened_shelf_life_days) AS deadline,
+      i.quantity,
+      i.unit,
+      p AS prefs,
+      COALESCE(p.timezone, 'UTC') AS tz,
+      (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC')) AS local_now
+    FROM inventory i
+    JOIN household_members m ON m.household_id = i.household_id
+    LEFT JOIN notification_preferences p ON p.user_id = m.user_id
+    WHERE i.status = 'active'
+      AND effective_expiry_date(i.expiry_date, i.opened_at, i.opened_shelf_life_days) IS NOT NULL
+  )
+  SELECT
+    c.id,
+    c.user_id,
+    c.product_name,
+    c.category,
+    c.deadline,
+    c.quantity,
+    c.unit,
+    (c.deadline - c.local_now::date) AS days_until_expiry,
+    get_reminder_lead_days(c.prefs, c.category, days_ahead) AS lead_days,
+    COALESCE((c.prefs).delivery_mode, 'per_item') AS delivery_mode,
+    COALESCE((c.prefs).reminder_hour, 9) AS reminder_hour,
+    (c.prefs).quiet_start_hour,
+    (c.prefs).quiet_end_hour,
+    c.tz AS timezone,
+    EXTRACT(HOUR FROM c.local_now)::INTEGER AS local_hour
+  FROM candidates c
+  WHERE c.deadline BETWEEN c.local_now::date
+    AND c.local_now::date + get_reminder_lead_days(c.prefs, c.category, days_ahead)
+    AND NOT EXISTS (
+      SELECT 1 FROM notification_deliveries d
+      WHERE d.inventory_id = c.id
+        AND d.user_id = c.user_id
+        AND d.kind = 'expiry_reminder'
+        AND d.expiry_date = c.deadline
+    )
+  ORDER BY c.user_id, c.deadline, c.product_name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_pending_expiry_reminders(INTEGER) FROM PUBLIC, anon, authenticated;
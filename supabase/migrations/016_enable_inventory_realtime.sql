@@ -0,0 +1,18 @@
+-- Stream inventory changes to the app through Supabase Realtime
+-- Inserts and updates are only sent to users the row's RLS policies let see
+-- it, i.e. the members of its household. Delete events carry just the id
+-- (Postgres cannot check a deleted row against RLS), which the app applies
+-- only to items it already has.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'inventory'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE inventory;
+  END IF;
+END;
+$$;
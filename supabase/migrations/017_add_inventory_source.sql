@@ -0,0 +1,15 @@
+-- Record where an item's product details came from when it was added:
+-- the product master list, an AI answer (fresh or cached for the barcode),
+-- or the user typing them in. The item detail screen shows it next to
+-- ai_confidence.
+
+ALTER TABLE inventory
+ADD COLUMN IF NOT EXISTS source TEXT
+  CHECK (source IN ('master_list', 'cache', 'ai', 'manual'));
+
+-- Manual entries without a barcode were saved with this placeholder;
+-- older items are otherwise left unknown
+UPDATE inventory
+SET source = 'manual'
+WHERE source IS NULL
+  AND barcode = 'Manual Entry';
@@ -0,0 +1,188 @@
+-- Audit log of inventory changes
+-- Every insert, update and delete of an inventory row is recorded by a
+-- trigger with the values before and after and the member who made it, so
+-- a household can see who changed an expiry date and when. Updates store
+-- only the columns that changed (updated_at alone is not a change).
+-- The latest change of an item can be undone with undo_inventory_event,
+-- which applies the inverse change and records it as an event of its own.
+
+-- Create the inventory_events table
+-- Ids increase with every event, so they order events and page through them
+CREATE TABLE IF NOT EXISTS inventory_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  inventory_id UUID NOT NULL, -- No foreign key: events outlive deleted items
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for server-side changes
+  operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+  old_values JSONB, -- Changed columns before an update, the whole row before a delete
+  new_values JSONB, -- Changed columns after an update, the whole row after an insert
+  undoes BIGINT REFERENCES inventory_events(id) ON DELETE SET NULL, -- Set on the event an undo made
+  undone_at TIMESTAMP WITH TIME ZONE, -- Set on the event that was undone
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for paging through an item's or a household's events
+CREATE INDEX IF NOT EXISTS idx_inventory_events_inventory_id ON inventory_events(inventory_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_events_household_id ON inventory_events(household_id, id DESC);
+
+-- Enable Row Level Security (RLS)
+-- Events are only written by the trigger and undo_inventory_event below
+ALTER TABLE inventory_events ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Members can view the events of their households
+CREATE POLICY "Members can view household inventory events"
+  ON inventory_events
+  FOR SELECT
+  USING (is_household_member(household_id));
+
+-- Records one event per changed row
+-- SECURITY DEFINER so it can write events the acting member cannot
+CREATE OR REPLACE FUNCTION record_inventory_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB;
+  changed_old JSONB;
+  changed_new JSONB;
+  undoing BIGINT := NULLIF(current_setting('expiryscanner.undoing_event', true), '')::BIGINT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO inventory_events (inventory_id, household_id, actor_id, operation, new_values, undoes)
+    VALUES (NEW.id, NEW.household_id, auth.uid(), 'insert', to_jsonb(NEW), undoing);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Items deleted along with their household leave nothing to record
+    IF NOT EXISTS (SELECT 1 FROM households WHERE id = OLD.household_id) THEN
+      RETURN OLD;
+    END IF;
+
+    INSERT INTO inventory_events (inventory_id, household_id, actor_id, operation, old_values, undoes)
+    VALUES (OLD.id, OLD.household_id, auth.uid(), 'delete', to_jsonb(OLD), undoing);
+    RETURN OLD;
+  END IF;
+
+  old_row := to_jsonb(OLD) - 'updated_at';
+  new_row := to_jsonb(NEW) - 'updated_at';
+
+  SELECT jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+  INTO changed_old, changed_new
+  FROM jsonb_object_keys(new_row) AS key
+  WHERE old_row -> key IS DISTINCT FROM new_row -> key;
+
+  IF changed_new IS NOT NULL THEN
+    INSERT INTO inventory_events (inventory_id, household_id, actor_id, operation, old_values, new_values, undoes)
+    VALUES (NEW.id, NEW.household_id, auth.uid(), 'update', changed_old, changed_new, undoing);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_inventory_event
+  AFTER INSERT OR UPDATE OR DELETE ON inventory
+  FOR EACH ROW
+  EXECUTE FUNCTION record_inventory_event();
+
+-- Undo a change by applying its inverse: delete an inserted item, restore
+-- the old values of an update, or re-insert a deleted item
+-- Only an item's latest change can be undone (earlier ones would overwrite
+-- later edits); changes already undone, and undos themselves, are skipped
+-- over, so undoing repeatedly walks back through an item's history.
+-- SECURITY DEFINER to mark the event undone; edit rights are checked here.
+CREATE OR REPLACE FUNCTION undo_inventory_event(target_event BIGINT)
+RETURNS inventory_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event inventory_events;
+  restored inventory;
+BEGIN
+  SELECT * INTO event FROM inventory_events WHERE id = target_event FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_household_member(event.household_id) THEN
+    RAISE EXCEPTION 'Change not found';
+  END IF;
+  IF NOT can_edit_household(event.household_id)
+    OR (event.old_values ? 'household_id'
+        AND NOT can_edit_household((event.old_values ->> 'household_id')::UUID)) THEN
+    RAISE EXCEPTION 'You can only view this household';
+  END IF;
+  IF event.undone_at IS NOT NULL OR event.undoes IS NOT NULL THEN
+    RAISE EXCEPTION 'This change cannot be undone';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM inventory_events later
+    WHERE later.inventory_id = event.inventory_id
+      AND later.id > event.id
+      AND later.undone_at IS NULL
+      AND later.undoes IS NULL
+  ) THEN
+    RAISE EXCEPTION 'The item has changed since; undo the later changes first';
+  END IF;
+
+  PERFORM set_config('expiryscanner.undoing_event', event.id::TEXT, true);
+
+  IF event.operation = 'insert' THEN
+    DELETE FROM inventory WHERE id = event.inventory_id;
+  ELSE
+    IF event.operation = 'update' THEN
+      SELECT * INTO restored
+      FROM jsonb_populate_record((SELECT i FROM inventory i WHERE i.id = event.inventory_id), event.old_values);
+
+      IF restored.id IS NULL THEN
+        RAISE EXCEPTION 'The item no longer exists';
+      END IF;
+    ELSE
+      restored := jsonb_populate_record(NULL::inventory, event.old_values);
+    END IF;
+
+    -- A storage location deleted since is not brought back
+    IF restored.location_id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM storage_locations WHERE id = restored.location_id) THEN
+      restored.location_id := NULL;
+    END IF;
+    restored.updated_at := NOW();
+
+    IF event.operation = 'update' THEN
+      UPDATE inventory SET
+        household_id = restored.household_id,
+        barcode = restored.barcode,
+        product_name = restored.product_name,
+        category = restored.category,
+        expiry_date = restored.expiry_date,
+        expiry_date_type = restored.expiry_date_type,
+        opened_at = restored.opened_at,
+        opened_shelf_life_days = restored.opened_shelf_life_days,
+        ai_confidence = restored.ai_confidence,
+        source = restored.source,
+        lot_number = restored.lot_number,
+        quantity = restored.quantity,
+        unit = restored.unit,
+        location_id = restored.location_id,
+        status = restored.status,
+        status_changed_at = restored.status_changed_at,
+        status_reason = restored.status_reason,
+        updated_at = restored.updated_at
+      WHERE id = event.inventory_id;
+    ELSE
+      INSERT INTO inventory SELECT restored.*
+      ON CONFLICT (id) DO NOTHING;
+    END IF;
+  END IF;
+
+  PERFORM set_config('expiryscanner.undoing_event', '', true);
+
+  UPDATE inventory_events SET undone_at = NOW()
+  WHERE id = event.id
+  RETURNING * INTO event;
+
+  RETURN event;
+END;
+$$;
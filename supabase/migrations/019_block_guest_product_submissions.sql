@@ -0,0 +1,50 @@
+-- Keep guests out of crowd-sourced product data
+-- Guest (anonymous) sessions cost nothing to create, so a single person
+-- could open several and outvote everyone on a product. Only users with an
+-- account can confirm products; guests still get the promoted ones.
+
+-- Record the current user's confirmed mapping for a code, then promote the
+-- code if enough users now agree
+-- Returns true if the code was promoted into product_master_list.
+CREATE OR REPLACE FUNCTION submit_product(
+  product_code TEXT,
+  product_name TEXT,
+  product_category TEXT DEFAULT NULL,
+  product_shelf_life_days INTEGER DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE((auth.jwt() ->> 'is_anonymous')::BOOLEAN, FALSE) THEN
+    RAISE EXCEPTION 'Guests cannot submit products; create an account first';
+  END IF;
+
+  IF product_code IS NULL OR length(trim(product_code)) = 0 THEN
+    RAISE EXCEPTION 'Product code is required';
+  END IF;
+
+  INSERT INTO product_submissions (user_id, code, name, category, shelf_life_days)
+  VALUES (auth.uid(), trim(product_code), trim(product_name), NULLIF(trim(product_category), ''), product_shelf_life_days)
+  ON CONFLICT (user_id, code) DO UPDATE
+    SET name = EXCLUDED.name,
+        category = EXCLUDED.category,
+        shelf_life_days = EXCLUDED.shelf_life_days,
+        status = 'pending',
+        updated_at = NOW();
+
+  RETURN promote_product_submissions(trim(product_code));
+END;
+$$;
+
+-- Votes guests already cast no longer count towards promotion
+UPDATE product_submissions
+SET status = 'rejected', updated_at = NOW()
+WHERE status = 'pending'
+  AND user_id IN (SELECT id FROM auth.users WHERE is_anonymous);
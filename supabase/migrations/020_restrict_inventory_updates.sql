@@ -0,0 +1,68 @@
+-- Tighten the household inventory write policies
+-- An editor could change an item's user_id (the member who added it, which
+-- the waste analytics and history go by) or point its location_id at a
+-- storage location of another household. Items now keep the member who
+-- added them, and their location must belong to the item's household.
+
+-- The member who added an item, as stored before the current statement
+-- SECURITY DEFINER so the policy below can read it without recursing into
+-- the inventory policies.
+CREATE OR REPLACE FUNCTION get_inventory_added_by(target_item UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM inventory WHERE id = target_item;
+$$;
+
+-- True if the location is unset or one of the household's locations
+CREATE OR REPLACE FUNCTION is_household_location(target_location UUID, target_household UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT target_location IS NULL OR EXISTS (
+    SELECT 1 FROM storage_locations
+    WHERE id = target_location AND household_id = target_household
+  );
+$$;
+
+DROP POLICY IF EXISTS "Editors can insert household inventory" ON inventory;
+DROP POLICY IF EXISTS "Editors can update household inventory" ON inventory;
+
+-- Policy: Owners and editors can INSERT items, recorded as added by
+-- themselves, in one of the household's locations
+CREATE POLICY "Editors can insert household inventory"
+  ON inventory
+  FOR INSERT
+  WITH CHECK (
+    can_edit_household(household_id)
+    AND auth.uid() = user_id
+    AND is_household_location(location_id, household_id)
+  );
+
+-- Policy: Owners and editors can UPDATE items (including moving them to
+-- another household they can edit, with a location of that household);
+-- the member who added an item stays the same
+CREATE POLICY "Editors can update household inventory"
+  ON inventory
+  FOR UPDATE
+  USING (can_edit_household(household_id))
+  WITH CHECK (
+    can_edit_household(household_id)
+    AND user_id = get_inventory_added_by(id)
+    AND is_household_location(location_id, household_id)
+  );
+
+-- Items already in another household's location lose the location
+UPDATE inventory i
+SET location_id = NULL
+WHERE i.location_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM storage_locations l
+    WHERE l.id = i.location_id AND l.household_id = i.household_id
+  );
@@ -1,43 +1,34 @@
--- Query to find items expiring in 3 days from now
--- This can be run in Supabase SQL Editor or used with pg_cron for daily execution
+-- Query to find items that are due for an expiry reminder
+-- This can be run in Supabase SQL Editor or used with pg_cron
 -- 
--- Note: In production, you would use pg_cron to run this daily:
--- SELECT cron.schedule('daily-expiry-check', '0 9 * * *', $$...$$);
+-- The reminder window comes from each user's notification_preferences
+-- (lead time per category, falling back to their default, then 3 days) and
+-- "today" is evaluated in the user's time zone. The send-expiry-reminders
+-- Edge Function uses the same logic via get_pending_expiry_reminders().
+-- Items in a shared household are listed once per member.
 
--- Find all inventory items where expiry_date is 3 days from today
+-- Find all active inventory items inside their reminder window
 SELECT 
-  id,
-  user_id,
-  barcode,
-  product_name,
-  category,
-  expiry_date,
-  ai_confidence,
-  created_at,
+  i.id,
+  m.user_id,
+  i.barcode,
+  i.product_name,
+  i.category,
+  i.expiry_date,
+  i.ai_confidence,
+  i.quantity,
+  i.unit,
+  i.created_at,
+  get_reminder_lead_days(p, i.category, 3) AS lead_days,
+  COALESCE(p.timezone, 'UTC') AS timezone,
   -- Calculate days until expiry for reference
-  (expiry_date::date - CURRENT_DATE) as days_until_expiry
-FROM inventory
+  (i.expiry_date - (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::date) AS days_until_expiry
+FROM inventory i
+JOIN household_members m ON m.household_id = i.household_id
+LEFT JOIN notification_preferences p ON p.user_id = m.user_id
 WHERE 
-  expiry_date IS NOT NULL
-  AND expiry_date::date = CURRENT_DATE + INTERVAL '3 days'
-ORDER BY expiry_date ASC, product_name ASC;
-
--- Alternative query: Find items expiring within 3 days (today, tomorrow, and 3 days from now)
--- Uncomment to use this instead:
-/*
-SELECT 
-  id,
-  user_id,
-  barcode,
-  product_name,
-  category,
-  expiry_date,
-  ai_confidence,
-  created_at,
-  (expiry_date::date - CURRENT_DATE) as days_until_expiry
-FROM inventory
-WHERE 
-  expiry_date IS NOT NULL
-  AND expiry_date::date BETWEEN CURRENT_DATE AND (CURRENT_DATE + INTERVAL '3 days')
-ORDER BY expiry_date ASC, product_name ASC;
-*/
+  i.expiry_date IS NOT NULL
+  AND i.status = 'active'
+  AND i.expiry_date BETWEEN (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::date
+    AND (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::date + get_reminder_lead_days(p, i.category, 3)
+ORDER BY i.expiry_date ASC, i.product_name ASC;
@@ -11,12 +11,122 @@ export interface Database {
         Insert: InventoryInsert;
         Update: InventoryUpdate;
       };
+      storage_locations: {
+        Row: StorageLocationRow;
+        Insert: StorageLocationInsert;
+        Update: StorageLocationUpdate;
+      };
+      shelf_life_rules: {
+        Row: ShelfLifeRuleRow;
+        Insert: Omit<ShelfLifeRuleRow, 'id' | 'created_at'>;
+        Update: Partial<Omit<ShelfLifeRuleRow, 'id' | 'created_at'>>;
+      };
+      product_master_list: {
+        Row: ProductMasterListRow;
+        Insert: Omit<ProductMasterListRow, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<ProductMasterListRow, 'id' | 'created_at'>>;
+      };
+      product_analysis_cache: {
+        Row: ProductAnalysisCacheRow;
+        Insert: Omit<ProductAnalysisCacheRow, 'created_at'>;
+        Update: Partial<ProductAnalysisCacheRow>;
+      };
+      product_submissions: {
+        Row: ProductSubmissionRow;
+        Insert: Omit<ProductSubmissionRow, 'id' | 'user_id' | 'status' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<ProductSubmissionRow, 'id' | 'user_id' | 'created_at'>>;
+      };
+      push_tokens: {
+        Row: PushTokenRow;
+        Insert: Omit<PushTokenRow, 'id' | 'created_at' | 'last_seen_at'>;
+        Update: Partial<Omit<PushTokenRow, 'id' | 'created_at'>>;
+      };
+      notification_preferences: {
+        Row: NotificationPreferencesRow;
+        Insert: NotificationPreferencesInsert;
+        Update: Partial<NotificationPreferencesInsert>;
+      };
+      notification_deliveries: {
+        Row: NotificationDeliveryRow;
+        Insert: Omit<NotificationDeliveryRow, 'id' | 'created_at'>;
+        Update: Partial<Omit<NotificationDeliveryRow, 'id' | 'created_at'>>;
+      };
+      households: {
+        Row: HouseholdRow;
+        Insert: Pick<HouseholdRow, 'name'>; // Created through create_household()
+        Update: Partial<Pick<HouseholdRow, 'name'>>;
+      };
+      household_members: {
+        Row: HouseholdMemberRow;
+        Insert: HouseholdMemberRow; // Joined through join_household()
+        Update: Pick<HouseholdMemberRow, 'role'>;
+      };
+      inventory_events: {
+        Row: InventoryEventRow;
+        Insert: never; // Written by a trigger on inventory
+        Update: never;
+      };
     };
     Views: {
-      [_ in never]: never;
+      waste_per_week: {
+        Row: WastePerWeekRow;
+      };
+      waste_by_category: {
+        Row: WasteByCategoryRow;
+      };
+      waste_by_location: {
+        Row: WasteByLocationRow;
+      };
+      top_wasted_products: {
+        Row: TopWastedProductRow;
+      };
     };
     Functions: {
-      [_ in never]: never;
+      get_consumption_summary: {
+        Args: { since?: string | null };
+        Returns: ConsumptionSummaryRow[];
+      };
+      register_push_token: {
+        Args: { push_token: string; device_platform?: string | null };
+        Returns: void;
+      };
+      get_pending_expiry_reminders: {
+        Args: { days_ahead?: number };
+        Returns: PendingExpiryReminderRow[];
+      };
+      submit_product: {
+        Args: {
+          product_code: string;
+          product_name: string;
+          product_category?: string | null;
+          product_shelf_life_days?: number | null;
+        };
+        Returns: boolean; // True if the code was promoted into product_master_list
+      };
+      create_household: {
+        Args: { household_name: string };
+        Returns: HouseholdRow;
+      };
+      join_household: {
+        Args: { code: string };
+        Returns: HouseholdRow;
+      };
+      reset_household_invite_code: {
+        Args: { target_household: string };
+        Returns: string;
+      };
+      get_my_households: {
+        Args: Record<string, never>;
+        Returns: MyHouseholdRow[];
+      };
+      get_household_members: {
+        Args: { target_household: string };
+        Returns: HouseholdMemberWithEmailRow[];
+      };
+      undo_inventory_event: {
+        Args: { target_event: number };
+        Returns: InventoryEventRow;
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -24,18 +134,55 @@ export interface Database {
   };
 }
 
+/**
+ * Units an inventory quantity can be measured in
+ */
+export type InventoryUnit = 'pcs' | 'pack' | 'g' | 'kg' | 'ml' | 'l';
+
+/**
+ * Lifecycle status of an inventory item
+ * 'active' items are in stock, the others are closed with an outcome
+ */
+export type InventoryStatus = 'active' | 'consumed' | 'wasted' | 'donated';
+
+/**
+ * What an item's printed date means
+ * 'best_before' is about quality (usually fine to eat after it),
+ * 'use_by' is about safety (do not eat after it)
+ */
+export type ExpiryDateType = 'best_before' | 'use_by';
+
+/**
+ * Where an item's product details came from when it was added
+ * 'cache' is an earlier AI answer for the same barcode
+ */
+export type InventorySource = 'master_list' | 'cache' | 'ai' | 'manual';
+
 /**
  * Base inventory row type (what you get when selecting)
  */
 export interface InventoryRow {
   id: string; // UUID
-  user_id: string; // UUID
+  user_id: string; // UUID of the member who added the item
+  household_id: string; // UUID of the household the item belongs to
   barcode: string | null;
   product_name: string | null;
   category: string | null;
   expiry_date: string | null; // Date as ISO string
+  expiry_date_type: ExpiryDateType; // Defaults to 'best_before'
+  opened_at: string | null; // ISO date the package was opened, null if unopened
+  opened_shelf_life_days: number | null; // "After opening, use within N days"
   ai_confidence: number | null; // Float
+  source: InventorySource | null; // null for items added before sources were recorded
+  lot_number: string | null; // Lot/batch from GS1 AI 10
+  quantity: number; // Numeric, defaults to 1
+  unit: InventoryUnit; // Defaults to 'pcs'
+  location_id: string | null; // UUID of storage_locations row
+  status: InventoryStatus; // Defaults to 'active'
+  status_changed_at: string | null; // Timestamp of the last status change
+  status_reason: string | null; // Why the item was closed (e.g. "Spoiled")
   created_at: string; // Timestamp as ISO string
+  updated_at: string; // Timestamp of the last change, used to resolve sync conflicts
 }
 
 /**
@@ -45,12 +192,25 @@ export interface InventoryRow {
 export interface InventoryInsert {
   id?: string; // Optional, defaults to gen_random_uuid()
   user_id?: string; // Optional, can be set or use auth.uid()
+  household_id?: string; // Optional, defaults to the user's own household
   barcode?: string | null;
   product_name?: string | null;
   category?: string | null;
   expiry_date?: string | null; // Date as ISO string or YYYY-MM-DD
+  expiry_date_type?: ExpiryDateType; // Optional, defaults to 'best_before'
+  opened_at?: string | null;
+  opened_shelf_life_days?: number | null;
   ai_confidence?: number | null;
+  source?: InventorySource | null;
+  lot_number?: string | null;
+  quantity?: number; // Optional, defaults to 1
+  unit?: InventoryUnit; // Optional, defaults to 'pcs'
+  location_id?: string | null;
+  status?: InventoryStatus; // Optional, defaults to 'active'
+  status_changed_at?: string | null;
+  status_reason?: string | null;
   created_at?: string; // Optional, defaults to NOW()
+  updated_at?: string; // Optional, defaults to NOW()
 }
 
 /**
@@ -58,9 +218,340 @@ export interface InventoryInsert {
  * All fields optional, id and user_id typically shouldn't be updated
  */
 export interface InventoryUpdate {
+  household_id?: string; // Moves the item to another household
   barcode?: string | null;
   product_name?: string | null;
   category?: string | null;
   expiry_date?: string | null;
+  expiry_date_type?: ExpiryDateType;
+  opened_at?: string | null;
+  opened_shelf_life_days?: number | null;
   ai_confidence?: number | null;
+  lot_number?: string | null;
+  quantity?: number;
+  unit?: InventoryUnit;
+  location_id?: string | null;
+  status?: InventoryStatus;
+  status_changed_at?: string | null;
+  status_reason?: string | null;
+  updated_at?: string; // Set by offline writes, otherwise bumped by the server
+}
+
+/**
+ * Kind of storage, drives which shelf life rule applies.
+ * 'custom' locations have no rules and never change an item's expiry.
+ */
+export type StorageKind = 'fridge' | 'freezer' | 'pantry' | 'custom';
+
+/**
+ * Storage location row type
+ */
+export interface StorageLocationRow {
+  id: string; // UUID
+  user_id: string; // UUID of the member who added the location
+  household_id: string; // UUID
+  name: string;
+  kind: StorageKind;
+  created_at: string; // Timestamp as ISO string
+}
+
+/**
+ * Storage location insert type
+ * user_id defaults to auth.uid(), household_id to the user's own household
+ */
+export interface StorageLocationInsert {
+  id?: string;
+  user_id?: string;
+  household_id?: string;
+  name: string;
+  kind?: StorageKind; // Optional, defaults to 'custom'
+  created_at?: string;
+}
+
+/**
+ * Storage location update type
+ */
+export interface StorageLocationUpdate {
+  name?: string;
+  kind?: StorageKind;
+}
+
+/**
+ * Shelf life rule row type (shelf life per category and storage kind)
+ */
+export interface ShelfLifeRuleRow {
+  id: string; // UUID
+  category: string;
+  storage_kind: Exclude<StorageKind, 'custom'>;
+  shelf_life_days: number;
+  created_at: string; // Timestamp as ISO string
+}
+
+/**
+ * Product master list row type
+ */
+export interface ProductMasterListRow {
+  id: string; // UUID
+  code: string;
+  name: string;
+  category: string | null;
+  shelf_life_days: number | null; // "As bought" shelf life
+  fridge_shelf_life_days: number | null;
+  freezer_shelf_life_days: number | null;
+  pantry_shelf_life_days: number | null;
+  opened_shelf_life_days: number | null; // "After opening, use within N days"
+  origin: ProductOrigin;
+  created_at: string; // Timestamp as ISO string
+  updated_at: string; // Timestamp as ISO string
+}
+
+/**
+ * Where a product_master_list row came from
+ */
+export type ProductOrigin = 'seed' | 'community' | 'admin' | 'open_food_facts';
+
+/**
+ * Cached AI answer for a code (written by analyze-product only)
+ */
+export interface ProductAnalysisCacheRow {
+  code: string;
+  product_name: string;
+  category: string;
+  shelf_life_days: number;
+  confidence_score: number;
+  provider: string;
+  model: string;
+  created_at: string; // Timestamp as ISO string
+  expires_at: string; // Timestamp as ISO string
+}
+
+export type ProductSubmissionStatus = 'pending' | 'promoted' | 'rejected';
+
+/**
+ * A user's confirmed barcode -> product mapping (product_submissions row)
+ */
+export interface ProductSubmissionRow {
+  id: string; // UUID
+  user_id: string; // UUID
+  code: string;
+  name: string;
+  category: string | null;
+  shelf_life_days: number | null;
+  status: ProductSubmissionStatus;
+  created_at: string; // Timestamp as ISO string
+  updated_at: string; // Timestamp as ISO string
+}
+
+/**
+ * waste_per_week view row
+ */
+export interface WastePerWeekRow {
+  user_id: string; // UUID
+  week_start: string; // Date (Monday of the week) as ISO string
+  wasted_items: number;
+  wasted_quantity: number;
+}
+
+/**
+ * waste_by_category view row
+ */
+export interface WasteByCategoryRow {
+  user_id: string; // UUID
+  category: string;
+  wasted_items: number;
+  closed_items: number;
+  waste_rate: number; // 0-1 share of closed items that were wasted
+}
+
+/**
+ * waste_by_location view row
+ */
+export interface WasteByLocationRow {
+  user_id: string; // UUID
+  location_id: string | null; // UUID, null for items without a location
+  location_name: string;
+  location_kind: StorageKind | null;
+  wasted_items: number;
+}
+
+/**
+ * top_wasted_products view row
+ */
+export interface TopWastedProductRow {
+  user_id: string; // UUID
+  product_name: string;
+  barcode: string | null;
+  wasted_count: number;
+  last_wasted_at: string; // Timestamp as ISO string
+}
+
+/**
+ * get_consumption_summary() result row
+ */
+export interface ConsumptionSummaryRow {
+  consumed_items: number;
+  wasted_items: number;
+  donated_items: number;
+  consumed_before_expiry: number;
+  consumed_before_expiry_pct: number; // 0-100
+}
+
+/**
+ * Expo push token registered by a device
+ */
+export interface PushTokenRow {
+  id: string; // UUID
+  user_id: string; // UUID
+  token: string; // ExponentPushToken[...]
+  platform: string | null; // 'ios' | 'android' | 'web'
+  created_at: string; // Timestamp as ISO string
+  last_seen_at: string; // Timestamp as ISO string
+}
+
+/**
+ * Delivery status of a server-side reminder
+ */
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'failed' | 'no_tokens';
+
+/**
+ * Notification delivery log row (one per item, member, kind and expiry date)
+ */
+export interface NotificationDeliveryRow {
+  id: string; // UUID
+  user_id: string; // UUID
+  inventory_id: string; // UUID
+  kind: string;
+  expiry_date: string; // Date as ISO string
+  status: NotificationDeliveryStatus;
+  ticket_ids: string[] | null; // Expo push ticket ids
+  error: string | null;
+  created_at: string; // Timestamp as ISO string
+  sent_at: string | null; // Timestamp as ISO string
+}
+
+/**
+ * get_pending_expiry_reminders() result row
+ */
+export interface PendingExpiryReminderRow {
+  id: string; // Inventory item UUID
+  user_id: string; // UUID
+  product_name: string | null;
+  category: string | null;
+  expiry_date: string; // Date as ISO string
+  quantity: number;
+  unit: InventoryUnit;
+  days_until_expiry: number; // In the user's time zone
+  lead_days: number; // Reminder lead time that applies to the item
+  delivery_mode: ReminderDeliveryMode;
+  reminder_hour: number;
+  quiet_start_hour: number | null;
+  quiet_end_hour: number | null;
+  timezone: string;
+  local_hour: number; // Current hour in the user's time zone
+}
+
+/**
+ * How reminders are delivered: one per item or one morning digest
+ */
+export type ReminderDeliveryMode = 'per_item' | 'digest';
+
+/**
+ * Notification preferences row type (one per user)
+ */
+export interface NotificationPreferencesRow {
+  user_id: string; // UUID
+  default_lead_days: number; // Days before expiry to remind
+  category_lead_days: Record<string, number>; // Lead time per category
+  delivery_mode: ReminderDeliveryMode;
+  reminder_hour: number; // Local hour (0-23) reminders / the digest are delivered
+  quiet_start_hour: number | null; // 0-23, null when quiet hours are off
+  quiet_end_hour: number | null; // 0-23, may be before quiet_start_hour (wraps midnight)
+  timezone: string; // IANA time zone, e.g. 'Europe/Berlin'
+  created_at: string; // Timestamp as ISO string
+  updated_at: string; // Timestamp as ISO string
+}
+
+/**
+ * Notification preferences insert / upsert type
+ */
+export interface NotificationPreferencesInsert {
+  user_id?: string; // Defaults to auth.uid()
+  default_lead_days?: number;
+  category_lead_days?: Record<string, number>;
+  delivery_mode?: ReminderDeliveryMode;
+  reminder_hour?: number;
+  quiet_start_hour?: number | null;
+  quiet_end_hour?: number | null;
+  timezone?: string;
+}
+
+/**
+ * Role of a household member
+ * Owners manage the household and its members, editors change the
+ * inventory, viewers can only look.
+ */
+export type HouseholdRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * Household row type (a shared inventory)
+ */
+export interface HouseholdRow {
+  id: string; // UUID
+  name: string;
+  invite_code: string; // Code others join with
+  created_by: string | null; // UUID
+  created_at: string; // Timestamp as ISO string
+}
+
+/**
+ * Household membership row type
+ */
+export interface HouseholdMemberRow {
+  household_id: string; // UUID
+  user_id: string; // UUID
+  role: HouseholdRole;
+  joined_at: string; // Timestamp as ISO string
+}
+
+/**
+ * get_my_households() result row: a household with the current user's role
+ */
+export interface MyHouseholdRow {
+  id: string; // UUID
+  name: string;
+  invite_code: string;
+  role: HouseholdRole;
+  member_count: number; // bigint, may arrive as a string
+  joined_at: string; // Timestamp as ISO string
+}
+
+/**
+ * get_household_members() result row
+ */
+export interface HouseholdMemberWithEmailRow {
+  user_id: string; // UUID
+  email: string | null; // null for guests
+  role: HouseholdRole;
+  joined_at: string; // Timestamp as ISO string
+}
+
+/**
+ * What an inventory event recorded
+ */
+export type InventoryEventOperation = 'insert' | 'update' | 'delete';
+
+/**
+ * Inventory audit log row type, one per changed inventory row
+ */
+export interface InventoryEventRow {
+  id: number; // Increases with every event
+  inventory_id: string; // UUID of the item (which may no longer exist)
+  household_id: string; // UUID
+  actor_id: string | null; // UUID of the member who made the change, null for server-side changes
+  operation: InventoryEventOperation;
+  old_values: Partial<InventoryRow> | null; // Changed columns before an update, whole row before a delete
+  new_values: Partial<InventoryRow> | null; // Changed columns after an update, whole row after an insert
+  undoes: number | null; // Event this one undid
+  undone_at: string | null; // Timestamp the event was undone
+  created_at: string; // Timestamp as ISO string
 }
@@ -0,0 +1,47 @@
+import { computeCheckDigit, expandUPCE, normalizeBarcode, toLookupCode } from '../barcode';
+
+describe('normalizeBarcode', () => {
+  it('pads valid GTINs to 14 digits', () => {
+    expect(normalizeBarcode('4006381333931')).toEqual({ kind: 'gtin', gtin: '04006381333931', format: 'ean13' });
+    expect(normalizeBarcode('036000291452')).toEqual({ kind: 'gtin', gtin: '00036000291452', format: 'upc_a' });
+    expect(normalizeBarcode('96385074')).toEqual({ kind: 'gtin', gtin: '00000096385074', format: 'ean8' });
+  });
+
+  it('accepts spaces and dashes typed off a package', () => {
+    expect(normalizeBarcode(' 4 006381-333931 ')).toMatchObject({ kind: 'gtin', gtin: '04006381333931' });
+  });
+
+  it('reports a bad check digit as invalid', () => {
+    expect(normalizeBarcode('4006381333932')).toEqual({ kind: 'invalid', reason: 'check_digit', code: '4006381333932' });
+  });
+
+  it('expands UPC-E when the scanner says so', () => {
+    expect(normalizeBarcode('01234565', 'upc_e')).toEqual({ kind: 'gtin', gtin: '00012345000065', format: 'upc_e' });
+    expect(expandUPCE('01234565')).toBe('012345000065');
+  });
+
+  it('leaves other codes as they are', () => {
+    expect(normalizeBarcode('LOT-1234')).toEqual({ kind: 'other', code: 'LOT-1234' });
+    expect(normalizeBarcode('12345')).toEqual({ kind: 'other', code: '12345' });
+    expect(normalizeBarcode('12345', 'ean13')).toEqual({ kind: 'invalid', reason: 'length', code: '12345' });
+  });
+
+  it('treats numbers scanned as other symbologies as other codes', () => {
+    expect(normalizeBarcode('12345678', 'code128')).toEqual({ kind: 'other', code: '12345678' });
+    expect(normalizeBarcode('12345678')).toMatchObject({ kind: 'invalid', reason: 'check_digit' });
+  });
+
+  it('validates an expanded UPC-E code sent on with its type by length', () => {
+    expect(normalizeBarcode('00012345000065', 'upc_e')).toMatchObject({ kind: 'gtin', gtin: '00012345000065' });
+  });
+});
+
+describe('toLookupCode', () => {
+  it('matches the UPC-A and EAN-13 forms of a product', () => {
+    expect(toLookupCode('036000291452')).toBe(toLookupCode('0036000291452'));
+  });
+
+  it('computes GS1 check digits', () => {
+    expect(computeCheckDigit('400638133393')).toBe(1);
+  });
+});
@@ -0,0 +1,77 @@
+import { getDateOrderForLocale, isISODate, parseExpiryDate, resolveTwoDigitYear } from '../expiryDate';
+
+const today = new Date(2026, 9, 19);
+const parse = (input: string, order: 'DMY' | 'MDY' | 'YMD' = 'DMY') => parseExpiryDate(input, { order, today });
+
+describe('parseExpiryDate', () => {
+  it('reads labels and dates with month names', () => {
+    expect(parse('BB 12 MAR 2027')).toMatchObject({ label: 'best_before', date: '2027-03-12', ambiguous: false });
+    expect(parse('USE BY 12MAR')).toMatchObject({ label: 'use_by', date: '2027-03-12' });
+    expect(parse('EXP: MAR 2027')).toMatchObject({ label: 'expiry', date: '2027-03-31' });
+  });
+
+  it('finds the label anywhere and reads the date after it', () => {
+    expect(parse('LOT 1234 EXP 12/26')).toMatchObject({ label: 'expiry', date: '2026-12-31' });
+    expect(parse('L2503 BEST BEFORE 12.03.27')).toMatchObject({ label: 'best_before', date: '2027-03-12' });
+    expect(parse('12 MAR 2027 USE BY')).toMatchObject({ label: 'use_by', date: '2027-03-12' });
+    expect(parse('EXPORT 12 MAR 2027')).toMatchObject({ label: null, date: '2027-03-12' });
+  });
+
+  it('reads ISO dates', () => {
+    expect(parse('2027-03-12')).toMatchObject({ date: '2027-03-12', ambiguous: false });
+  });
+
+  it('reads numeric dates in the preferred order and flags the other reading', () => {
+    expect(parse('03/04/27')).toMatchObject({ date: '2027-04-03', ambiguous: true });
+    expect(parse('03/04/27', 'MDY')).toMatchObject({ date: '2027-03-04', ambiguous: true });
+    expect(parse('25/04/27')).toMatchObject({ date: '2027-04-25', ambiguous: false });
+  });
+
+  it('reads month and year prints as the end of the month', () => {
+    expect(parse('EXP 03/27').date).toBe('2027-03-31');
+    expect(parse('2027-01')).toMatchObject({ date: '2027-01-31', ambiguous: false });
+    expect(parse('BB 10 2027')).toMatchObject({ label: 'best_before', date: '2027-10-31' });
+    expect(parse('BB END 03 2026')).toMatchObject({ label: 'best_before', date: '2026-03-31' });
+  });
+
+  it('keeps the reading order for far-off dates and flags them', () => {
+    expect(parse('EXP 03/25')).toMatchObject({ date: '2025-03-31', ambiguous: true });
+    expect(parse('12.03.25')).toMatchObject({ date: '2025-03-12', ambiguous: true });
+    expect(parse('12.03.25', 'MDY')).toMatchObject({ date: '2025-12-03', ambiguous: true });
+  });
+
+  it('reads Julian dates', () => {
+    expect(parse('25071').date).toBe('2025-03-12');
+  });
+
+  it('gives no date instead of guessing', () => {
+    expect(parse('2027')).toMatchObject({ date: null, candidates: [] });
+    expect(parse('LOT 12AB')).toMatchObject({ date: null });
+    expect(parse('')).toMatchObject({ date: null, label: null });
+  });
+
+  it('gives no date when only an unlikely reading fits', () => {
+    expect(parse('31.02.26')).toMatchObject({ date: null, candidates: [], ambiguous: false });
+    expect(parse('310226')).toMatchObject({ date: null, candidates: [] });
+    expect(parse('31.02.26', 'YMD')).toMatchObject({ date: '2031-02-26' });
+  });
+});
+
+describe('date helpers', () => {
+  it('validates ISO dates', () => {
+    expect(isISODate('2024-02-29')).toBe(true);
+    expect(isISODate('2025-02-29')).toBe(false);
+    expect(isISODate('2025-3-1')).toBe(false);
+  });
+
+  it('resolves two digit years around the current year', () => {
+    expect(resolveTwoDigitYear(27, today)).toBe(2027);
+    expect(resolveTwoDigitYear(80, today)).toBe(1980);
+  });
+
+  it('picks the day/month order of a locale', () => {
+    expect(getDateOrderForLocale('en-US')).toBe('MDY');
+    expect(getDateOrderForLocale('en_GB')).toBe('DMY');
+    expect(getDateOrderForLocale('ja-JP')).toBe('YMD');
+  });
+});
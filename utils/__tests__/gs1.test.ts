@@ -0,0 +1,55 @@
+import { getGS1ExpiryDate, getGS1ExpiryDateType, parseGS1, parseGS1Date } from '../gs1';
+
+describe('parseGS1', () => {
+  it('reads human readable element strings', () => {
+    const data = parseGS1('(01)09501101020917(17)250312(10)ABC123');
+    expect(data).toMatchObject({ gtin: '09501101020917', expiryDate: '2025-03-12', lot: 'ABC123' });
+  });
+
+  it('reads raw element strings with a symbology prefix and FNC1', () => {
+    const data = parseGS1(']d2010950110102091710ABC123\u001d15250400');
+    expect(data).toMatchObject({ gtin: '09501101020917', lot: 'ABC123', bestBeforeDate: '2025-04-30' });
+  });
+
+  it('reads the three-digit 71x AIs', () => {
+    const data = parseGS1(']d2010950110102091771012345678\u001d17250312');
+    expect(data?.elements['710']).toBe('12345678');
+    expect(data?.expiryDate).toBe('2025-03-12');
+  });
+
+  it('reads Digital Link URLs', () => {
+    const data = parseGS1('https://id.gs1.org/01/09501101020917/10/ABC123?17=250312');
+    expect(data).toMatchObject({ gtin: '09501101020917', lot: 'ABC123', expiryDate: '2025-03-12' });
+  });
+
+  it('returns null for plain barcodes and text', () => {
+    expect(parseGS1('4006381333931')).toBeNull();
+    expect(parseGS1('hello')).toBeNull();
+  });
+});
+
+describe('parseGS1Date', () => {
+  it('treats day 00 as the end of the month', () => {
+    expect(parseGS1Date('240200')).toBe('2024-02-29');
+  });
+
+  it('rejects invalid dates', () => {
+    expect(parseGS1Date('251301')).toBeNull();
+    expect(parseGS1Date('250231')).toBeNull();
+    expect(parseGS1Date('2503')).toBeNull();
+  });
+});
+
+describe('getGS1ExpiryDate', () => {
+  it('prefers the expiration date over best before', () => {
+    const data = parseGS1('(01)09501101020917(15)250301(17)250312');
+    expect(getGS1ExpiryDate(data)).toBe('2025-03-12');
+    expect(getGS1ExpiryDateType(data)).toBe('use_by');
+  });
+
+  it('falls back to best before', () => {
+    const data = parseGS1('(01)09501101020917(15)250301');
+    expect(getGS1ExpiryDate(data)).toBe('2025-03-01');
+    expect(getGS1ExpiryDateType(data)).toBe('best_before');
+  });
+});
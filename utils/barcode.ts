@@ -0,0 +1,3 @@
+// Barcode normalization lives with the Edge Functions so both sides share
+// one implementation; the app imports it from here
+export * from '../supabase/functions/_shared/barcode';
@@ -0,0 +1,28 @@
+import { DateOrder, getDateOrderForLocale } from '../supabase/functions/_shared/expiryDate';
+
+// Expiry date parsing lives with the Edge Functions so both sides share one
+// implementation; the app imports it from here
+export * from '../supabase/functions/_shared/expiryDate';
+
+/**
+ * Day/month order of the device's locale, for reading numeric dates
+ */
+export function getDeviceDateOrder(): DateOrder {
+  try {
+    return getDateOrderForLocale(Intl.DateTimeFormat().resolvedOptions().locale);
+  } catch {
+    return 'DMY';
+  }
+}
+
+/**
+ * Formats a YYYY-MM-DD date for display, e.g. "12 Mar 2025"
+ */
+export function formatExpiryDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
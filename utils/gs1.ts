@@ -0,0 +1,287 @@
+/**
+ * GS1 Application Identifier (AI) parser
+ *
+ * Extracts GTIN, lot and printed dates from GS1-128, GS1 DataMatrix / QR
+ * element strings and GS1 Digital Link URLs so the scanner can use the
+ * real printed expiry date instead of asking the AI to guess one.
+ *
+ * Supported input forms:
+ * - Human readable: (01)09501101020917(17)250312(10)ABC123
+ * - Raw element string with FNC1 / <GS> separators, with or without a
+ *   symbology identifier prefix (]C1, ]d2, ]Q3, ]e0, ]J1)
+ * - Digital Link: https://id.gs1.org/01/09501101020917/10/ABC123?17=250312
+ */
+
+import { ExpiryDateType } from '../types/supabase';
+import { daysInMonth, formatISODate, resolveTwoDigitYear } from './expiryDate';
+
+/**
+ * Parsed GS1 data
+ */
+export interface GS1Data {
+  gtin?: string; // AI 01, always 14 digits
+  lot?: string; // AI 10
+  serial?: string; // AI 21
+  productionDate?: string; // AI 11, ISO date (YYYY-MM-DD)
+  packagingDate?: string; // AI 13, ISO date
+  bestBeforeDate?: string; // AI 15, ISO date
+  sellByDate?: string; // AI 16, ISO date
+  expiryDate?: string; // AI 17, ISO date
+  elements: Record<string, string>; // Every AI found, keyed by AI
+}
+
+// Group separator used as FNC1 in raw element strings
+const GS = '\u001d';
+
+// Symbology identifiers scanners may prefix to GS1 data
+const SYMBOLOGY_PREFIX = /^\](C1|d2|Q3|e0|J1)/;
+
+/**
+ * AIs whose total length (AI + data) is predefined by the first two digits.
+ * Every other AI is variable length and terminated by FNC1 or end of data.
+ */
+const PREDEFINED_LENGTHS: Record<string, number> = {
+  '00': 20, '01': 16, '02': 16, '03': 16, '04': 18,
+  '11': 8, '12': 8, '13': 8, '14': 8, '15': 8, '16': 8, '17': 8, '18': 8, '19': 8,
+  '20': 4,
+  '31': 10, '32': 10, '33': 10, '34': 10, '35': 10, '36': 10,
+  '41': 16,
+};
+
+/**
+ * Number of digits in the AI itself, keyed by its first two digits
+ */
+function getAILength(prefix: string): number {
+  const n = parseInt(prefix, 10);
+  if (n >= 23 && n <= 29) return 3;
+  if (n >= 31 && n <= 36) return 4;
+  if (n === 39) return 4;
+  if (n >= 40 && n <= 42) return 3;
+  if (n === 43) return 4;
+  if (n === 71) return 3; // 710-716, national healthcare reimbursement numbers
+  if (n >= 70 && n <= 89) return 4;
+  return 2;
+}
+
+type GS1DateField = 'productionDate' | 'packagingDate' | 'bestBeforeDate' | 'sellByDate' | 'expiryDate';
+
+// Date AIs, mapped to their field on GS1Data
+const DATE_AIS: Record<string, GS1DateField> = {
+  '11': 'productionDate',
+  '13': 'packagingDate',
+  '15': 'bestBeforeDate',
+  '16': 'sellByDate',
+  '17': 'expiryDate',
+};
+
+/**
+ * Converts a GS1 YYMMDD date to an ISO date string.
+ * A day of "00" means the last day of the month. The century is resolved
+ * with the GS1 sliding window (-49/+50 years around the current year).
+ *
+ * @param value - Six digit YYMMDD string
+ * @returns string | null - ISO date (YYYY-MM-DD) or null if invalid
+ */
+export function parseGS1Date(value: string): string | null {
+  if (!/^\d{6}$/.test(value)) {
+    return null;
+  }
+
+  const year = resolveTwoDigitYear(parseInt(value.slice(0, 2), 10));
+  const month = parseInt(value.slice(2, 4), 10);
+  const day = parseInt(value.slice(4, 6), 10);
+
+  if (month < 1 || month > 12) {
+    return null;
+  }
+
+  return formatISODate(year, month, day === 0 ? daysInMonth(year, month) : day);
+}
+
+/**
+ * Splits a raw GS1 element string (FNC1 / <GS> separated) into AI → value pairs
+ */
+function parseElementString(data: string): Record<string, string> | null {
+  const elements: Record<string, string> = {};
+  let pos = 0;
+
+  while (pos < data.length) {
+    if (data[pos] === GS) {
+      pos++;
+      continue;
+    }
+
+    const prefix = data.slice(pos, pos + 2);
+    if (!/^\d{2}$/.test(prefix)) {
+      return null;
+    }
+
+    const aiLength = getAILength(prefix);
+    const ai = data.slice(pos, pos + aiLength);
+    if (!/^\d+$/.test(ai) || ai.length !== aiLength) {
+      return null;
+    }
+
+    const fixedLength = PREDEFINED_LENGTHS[prefix];
+    let value: string;
+    if (fixedLength) {
+      value = data.slice(pos + aiLength, pos + fixedLength);
+      if (value.length !== fixedLength - aiLength) {
+        return null;
+      }
+      pos += fixedLength;
+    } else {
+      const end = data.indexOf(GS, pos + aiLength);
+      value = data.slice(pos + aiLength, end === -1 ? undefined : end);
+      pos = end === -1 ? data.length : end;
+    }
+
+    elements[ai] = value;
+  }
+
+  return Object.keys(elements).length > 0 ? elements : null;
+}
+
+/**
+ * Parses the human readable form, e.g. "(01)09501101020917(17)250312"
+ */
+function parseBracketed(data: string): Record<string, string> | null {
+  const pattern = /\((\d{2,4})\)([^()]*)/g;
+  const elements: Record<string, string> = {};
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(data)) !== null) {
+    elements[match[1]] = match[2].trim();
+    consumed += match[0].length;
+  }
+
+  // Reject strings that merely contain brackets somewhere
+  if (consumed !== data.replace(/\s+$/, '').length) {
+    return null;
+  }
+
+  return Object.keys(elements).length > 0 ? elements : null;
+}
+
+/**
+ * Parses a GS1 Digital Link URI, e.g. "https://id.gs1.org/01/09501101020917/10/ABC?17=250312"
+ */
+function parseDigitalLink(data: string): Record<string, string> | null {
+  let url: URL;
+  try {
+    url = new URL(data);
+  } catch {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const start = segments.findIndex((segment, index) =>
+    /^(01|gtin)$/.test(segment) && /^\d{8,14}$/.test(segments[index + 1] || '')
+  );
+  if (start === -1) {
+    return null;
+  }
+
+  const elements: Record<string, string> = {};
+  for (let i = start; i + 1 < segments.length; i += 2) {
+    const ai = segments[i] === 'gtin' ? '01' : segments[i];
+    if (!/^\d{2,4}$/.test(ai)) {
+      break;
+    }
+    elements[ai] = segments[i + 1];
+  }
+
+  url.searchParams.forEach((value, key) => {
+    if (/^\d{2,4}$/.test(key)) {
+      elements[key] = value;
+    }
+  });
+
+  // Digital Link allows GTIN-8/12/13 in the path; normalise to GTIN-14
+  if (elements['01']) {
+    elements['01'] = elements['01'].padStart(14, '0');
+  }
+
+  return elements;
+}
+
+/**
+ * Returns true if the string looks like GS1 data rather than a plain
+ * retail barcode (EAN-13, UPC-A, ...) or arbitrary QR text
+ */
+function looksLikeGS1(data: string): boolean {
+  return (
+    SYMBOLOGY_PREFIX.test(data) ||
+    data.includes(GS) ||
+    /^\(\d{2,4}\)/.test(data) ||
+    // Element string without separators: AI 01 followed by more AIs
+    /^01\d{14}\d{2}/.test(data)
+  );
+}
+
+/**
+ * Parses GS1 data from a scanned code
+ *
+ * @param code - Raw scanned string
+ * @returns GS1Data | null - Parsed data, or null if the code is not GS1
+ */
+export function parseGS1(code: string): GS1Data | null {
+  if (!code) {
+    return null;
+  }
+
+  const data = code.trim();
+  let elements: Record<string, string> | null = null;
+
+  if (/^https?:\/\//i.test(data)) {
+    elements = parseDigitalLink(data);
+  } else if (looksLikeGS1(data)) {
+    const stripped = data.replace(SYMBOLOGY_PREFIX, '');
+    elements = stripped.startsWith('(')
+      ? parseBracketed(stripped)
+      : parseElementString(stripped);
+  }
+
+  if (!elements) {
+    return null;
+  }
+
+  const result: GS1Data = { elements };
+
+  if (elements['01'] && /^\d{14}$/.test(elements['01'])) {
+    result.gtin = elements['01'];
+  }
+  if (elements['10']) {
+    result.lot = elements['10'];
+  }
+  if (elements['21']) {
+    result.serial = elements['21'];
+  }
+  for (const [ai, field] of Object.entries(DATE_AIS)) {
+    if (elements[ai]) {
+      const date = parseGS1Date(elements[ai]);
+      if (date) {
+        result[field] = date;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the printed date that should be used as the item's expiry:
+ * the expiration date (AI 17) if present, otherwise best before (AI 15)
+ */
+export function getGS1ExpiryDate(data: GS1Data | null): string | undefined {
+  return data?.expiryDate || data?.bestBeforeDate;
+}
+
+/**
+ * What the date returned by getGS1ExpiryDate means: AI 17 is an
+ * expiration (use by) date, AI 15 a best before date
+ */
+export function getGS1ExpiryDateType(data: GS1Data | null): ExpiryDateType {
+  return data?.expiryDate ? 'use_by' : 'best_before';
+}
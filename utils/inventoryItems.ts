@@ -0,0 +1,262 @@
+import {
+  InventoryRow,
+  InventoryInsert,
+  InventoryUpdate,
+  InventoryUnit,
+  InventorySource,
+  InventoryEventRow,
+} from '../types/supabase';
+import { toLookupCode } from './barcode';
+import { getOpenedShelfLifeDays } from './shelfLife';
+
+/**
+ * Units offered in the UI, in display order
+ */
+export const INVENTORY_UNITS: InventoryUnit[] = ['pcs', 'pack', 'g', 'kg', 'ml', 'l'];
+
+/**
+ * How each item source is shown
+ */
+export const INVENTORY_SOURCE_LABELS: Record<InventorySource, string> = {
+  master_list: 'Product database',
+  cache: 'AI (saved answer)',
+  ai: 'AI estimate',
+  manual: 'Entered manually',
+};
+
+/**
+ * Reasons offered when an item is thrown away
+ */
+export const WASTE_REASONS = ['Expired', 'Spoiled', 'Forgot about it', 'Bought too much', 'Did not like it'];
+
+/**
+ * Stores GTIN barcodes as GTIN-14, so an item matches product_master_list
+ * however its barcode was scanned or typed. Other codes are left as is.
+ */
+export function normalizeItemBarcode<T extends { barcode?: string | null }>(item: T): T {
+  return item.barcode ? { ...item, barcode: toLookupCode(item.barcode) } : item;
+}
+
+/**
+ * Builds the full row for a new item, filling in the table defaults
+ */
+export function buildInventoryRow(
+  item: InventoryInsert,
+  id: string,
+  userId: string | null,
+  now: string
+): InventoryRow {
+  return {
+    id,
+    user_id: userId || '',
+    household_id: item.household_id || '', // Filled in by Supabase on sync if not known yet
+    barcode: item.barcode ?? null,
+    product_name: item.product_name ?? null,
+    category: item.category ?? null,
+    expiry_date: item.expiry_date ?? null,
+    expiry_date_type: item.expiry_date_type ?? 'best_before',
+    opened_at: item.opened_at ?? null,
+    opened_shelf_life_days: item.opened_shelf_life_days ?? null,
+    ai_confidence: item.ai_confidence ?? null,
+    source: item.source ?? null,
+    lot_number: item.lot_number ?? null,
+    quantity: item.quantity ?? 1,
+    unit: item.unit ?? 'pcs',
+    location_id: item.location_id ?? null,
+    status: item.status ?? 'active',
+    status_changed_at: item.status_changed_at ?? null,
+    status_reason: item.status_reason ?? null,
+    created_at: item.created_at || now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Changes for consuming `amount` of an item: the quantity goes down, and
+ * an item used up completely is closed as consumed
+ */
+export function getConsumeUpdate(current: InventoryRow, amount: number, now: string): InventoryUpdate {
+  if (!(amount > 0)) {
+    throw new Error('Amount to consume must be greater than zero');
+  }
+
+  const remaining = Math.max(0, Number(current.quantity) - amount);
+  return remaining > 0
+    ? { quantity: remaining }
+    : {
+        quantity: 0,
+        status: 'consumed',
+        status_changed_at: now,
+        status_reason: null,
+      };
+}
+
+/**
+ * Changes for reopening a closed item; used-up items come back with 1
+ */
+export function getRestoreUpdate(current: InventoryRow, now: string): InventoryUpdate {
+  return {
+    status: 'active',
+    status_changed_at: now,
+    status_reason: null,
+    quantity: Number(current.quantity) > 0 ? Number(current.quantity) : 1,
+  };
+}
+
+/**
+ * Changes for marking an item opened on `today` (ISO date); the item keeps
+ * its "after opening" window, or gets its category's if it has none
+ */
+export function getOpenedUpdate(current: InventoryRow, today: string): InventoryUpdate {
+  return {
+    opened_at: today,
+    opened_shelf_life_days: getOpenedShelfLifeDays(current),
+  };
+}
+
+/**
+ * Insert that copies a guest's item to the account they signed in to
+ * The copy gets a new id and goes to the account's current household; its
+ * storage location is left out since locations belong to the guest's
+ * household.
+ */
+export function toCarryOverInsert(item: InventoryRow, userId: string): InventoryInsert {
+  const { id, user_id, household_id, location_id, updated_at, ...fields } = item;
+  return { ...fields, user_id: userId };
+}
+
+/**
+ * A moment in an item's life, as told by its own timestamps
+ */
+export interface ItemMilestone {
+  at: string; // ISO timestamp, or ISO date for opened_at
+  label: string;
+}
+
+/**
+ * What an item's timestamps say happened to it, newest first
+ */
+export function getItemMilestones(item: InventoryRow): ItemMilestone[] {
+  const milestones: ItemMilestone[] = [{ at: item.created_at, label: 'Added' }];
+
+  if (item.opened_at) {
+    milestones.push({ at: item.opened_at, label: 'Opened' });
+  }
+  if (item.status_changed_at) {
+    const label = item.status === 'active'
+      ? 'Restored'
+      : `Marked ${item.status}${item.status_reason ? ` (${item.status_reason})` : ''}`;
+    milestones.push({ at: item.status_changed_at, label });
+  }
+
+  // Edits leave no other trace than updated_at
+  const latest = Math.max(...milestones.map((milestone) => new Date(milestone.at).getTime()));
+  if (new Date(item.updated_at).getTime() - latest > 1000) {
+    milestones.push({ at: item.updated_at, label: 'Last changed' });
+  }
+
+  return milestones.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+}
+
+/**
+ * Item fields shown in the change history, in display order
+ */
+export const INVENTORY_FIELD_LABELS: Partial<Record<keyof InventoryRow, string>> = {
+  product_name: 'Name',
+  category: 'Category',
+  barcode: 'Barcode',
+  expiry_date: 'Expiry date',
+  expiry_date_type: 'Date type',
+  opened_at: 'Opened',
+  opened_shelf_life_days: 'Days after opening',
+  quantity: 'Quantity',
+  unit: 'Unit',
+  location_id: 'Location',
+  lot_number: 'Lot',
+  status: 'Status',
+  status_reason: 'Reason',
+};
+
+/**
+ * One field an update event changed
+ */
+export interface FieldChange {
+  field: keyof InventoryRow;
+  label: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * The fields (of INVENTORY_FIELD_LABELS) an update event changed
+ */
+export function getEventChanges(event: InventoryEventRow): FieldChange[] {
+  if (event.operation !== 'update' || !event.new_values) return [];
+
+  return (Object.keys(INVENTORY_FIELD_LABELS) as (keyof InventoryRow)[])
+    .filter((field) => field in event.new_values)
+    .map((field) => ({
+      field,
+      label: INVENTORY_FIELD_LABELS[field],
+      from: event.old_values?.[field] ?? null,
+      to: event.new_values[field] ?? null,
+    }));
+}
+
+/**
+ * Short description of an event, e.g. "Added" or "Changed expiry date"
+ */
+export function describeInventoryEvent(event: InventoryEventRow): string {
+  if (event.undoes !== null) return 'Undid a change';
+  if (event.operation === 'insert') return 'Added';
+  if (event.operation === 'delete') return 'Deleted';
+
+  const status = event.new_values?.status;
+  if (status) {
+    return status === 'active' ? 'Restored' : `Marked ${status}`;
+  }
+
+  const changes = getEventChanges(event);
+  return changes.length > 0
+    ? `Changed ${changes.map((change) => change.label.toLowerCase()).join(', ')}`
+    : 'Changed';
+}
+
+/**
+ * Returns true if the item's product name or barcode contains `query`
+ */
+export function matchesSearch(item: InventoryRow, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  return (
+    (item.product_name || '').toLowerCase().includes(needle) ||
+    (item.barcode || '').toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Returns true if the item belongs to the household
+ * Items saved before their household was known (not synced yet) count as
+ * belonging to every household, as does everything when no household is
+ * selected.
+ */
+export function isInHousehold(item: InventoryRow, householdId: string | null): boolean {
+  return !householdId || !item.household_id || item.household_id === householdId;
+}
+
+/**
+ * Active items, newest first
+ */
+export function getActiveItems(items: InventoryRow[]): InventoryRow[] {
+  return items
+    .filter((item) => item.status === 'active')
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Closed items, most recently closed first
+ */
+export function getClosedItems(items: InventoryRow[]): InventoryRow[] {
+  return items
+    .filter((item) => item.status !== 'active')
+    .sort((a, b) => (b.status_changed_at || '').localeCompare(a.status_changed_at || ''));
+}
@@ -0,0 +1,86 @@
+import { normalizeBarcode } from './barcode';
+import { DateOrder, parseExpiryDate } from './expiryDate';
+
+/**
+ * Item details as typed into a form (manual entry, item edit)
+ */
+export interface ItemFormInput {
+  productName: string;
+  category: string;
+  barcode: string;
+  expiryDate: string; // As typed, e.g. "12 MAR 2025"
+  quantity?: string; // Only on forms that ask for it
+}
+
+/**
+ * Validated details, ready to save
+ */
+export interface ItemFormValues {
+  productName: string;
+  category: string; // 'General' when left empty
+  barcode: string; // GTIN-14 for retail barcodes, '' when left empty
+  expiryDate: string; // YYYY-MM-DD (the first reading if ambiguous)
+  quantity: number | null; // null when the form has no quantity
+}
+
+export type ItemFormResult =
+  | { kind: 'valid'; values: ItemFormValues }
+  // The date could mean more than one day ("03/04/25"); ask which
+  | { kind: 'ambiguous'; values: ItemFormValues; dates: string[] }
+  | { kind: 'invalid'; title: string; message: string };
+
+/**
+ * Check a form's item details: name and date are required, typed GTINs
+ * must pass the check digit, and quantities must be positive
+ *
+ * @param order - Day/month order to read numeric dates in
+ */
+export function validateItemForm(input: ItemFormInput, order: DateOrder): ItemFormResult {
+  if (!input.productName.trim() || !input.expiryDate.trim()) {
+    return {
+      kind: 'invalid',
+      title: 'Missing Information',
+      message: 'Please enter at least the product name and expiry date.',
+    };
+  }
+
+  let quantity: number | null = null;
+  if (input.quantity !== undefined) {
+    quantity = parseFloat(input.quantity.replace(',', '.'));
+    if (!(quantity > 0)) {
+      return { kind: 'invalid', title: 'Invalid Quantity', message: 'Please enter a quantity greater than zero.' };
+    }
+  }
+
+  // Other codes (batch codes, ...) are kept as typed
+  const barcode = normalizeBarcode(input.barcode);
+  if (barcode.kind === 'invalid') {
+    return {
+      kind: 'invalid',
+      title: 'Invalid Barcode',
+      message: 'The barcode check digit does not match. Please check the number, or rescan the product.',
+    };
+  }
+
+  const parsed = parseExpiryDate(input.expiryDate, { order });
+  if (!parsed.date) {
+    return {
+      kind: 'invalid',
+      title: 'Invalid Date',
+      message: 'We could not read that date. Try a format like 2025-03-12, 12 MAR 2025 or 03/25.',
+    };
+  }
+
+  const values: ItemFormValues = {
+    productName: input.productName.trim(),
+    category: input.category.trim() || 'General',
+    barcode: barcode.kind === 'gtin' ? barcode.gtin : barcode.code,
+    expiryDate: parsed.date,
+    quantity,
+  };
+
+  if (parsed.ambiguous) {
+    return { kind: 'ambiguous', values, dates: parsed.candidates.slice(0, 2).map((candidate) => candidate.date) };
+  }
+  return { kind: 'valid', values };
+}
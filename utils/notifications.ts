@@ -2,6 +2,41 @@ import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { savePushToken } from '../services/pushTokens';
+import { getNotificationPreferences } from '../services/notificationPreferences';
+import { InventoryRow } from '../types/supabase';
+import { getEffectiveExpiry, toISODate } from './shelfLife';
+import {
+  NotificationPreferences,
+  getDefaultNotificationPreferences,
+  getLeadDays,
+  getDeliveryHour,
+  getZonedTime,
+} from './reminderPreferences';
+
+// AsyncStorage key of the item id -> scheduled notification ids mapping
+const ITEM_REMINDERS_KEY = 'expiryscanner:item-reminders';
+// iOS keeps at most 64 pending notifications per app, leave room for the rest
+const MAX_DIGESTS = 30;
+
+interface ItemReminderEntry {
+  productName: string | null;
+  category: string | null;
+  expiryDate: string; // Expiry date the notifications were scheduled for
+  notificationIds: string[]; // Per-item notifications (empty in digest mode)
+}
+
+interface ReminderState {
+  items: Record<string, ItemReminderEntry>;
+  digestIds: string[]; // Scheduled morning digests
+  allowed?: boolean; // False once an item was saved without notification permission
+}
+
+type ReminderItem = Pick<
+  InventoryRow,
+  'id' | 'product_name' | 'category' | 'expiry_date' | 'opened_at' | 'opened_shelf_life_days' | 'status'
+>;
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -16,6 +51,7 @@ Notifications.setNotificationHandler({
 
 /**
  * Register for push notifications and return the Expo push token
+ * The token is also saved to Supabase so the server can send reminders.
  * @returns Promise<string | null> - Expo push token or null if registration fails
  */
 export async function registerForPushNotificationsAsync(): Promise<string | null> {
@@ -25,6 +61,16 @@ export async function registerForPushNotificationsAsync(): Promise<string | null
     return null;
   }
 
+  // Configure Android notification channel
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync('default', {
+      name: 'default',
+      importance: Notifications.AndroidImportance.MAX,
+      vibrationPattern: [0, 250, 250, 250],
+      lightColor: '#FF231F7C',
+    });
+  }
+
   // Check existing permissions
   const { status: existingStatus } = await Notifications.getPermissionsAsync();
   let finalStatus = existingStatus;
@@ -54,19 +100,276 @@ export async function registerForPushNotificationsAsync(): Promise<string | null
     
     console.log('✅ Push notification token registered:', token.data);
     console.log('📱 Project ID:', projectId);
+
+    // Store the token server-side for scheduled expiry reminders
+    try {
+      await savePushToken(token.data);
+    } catch (saveError) {
+      console.error('❌ Error saving push token:', saveError);
+    }
+
     return token.data;
   } catch (error) {
     console.error('❌ Error getting push token:', error);
     return null;
   }
+}
 
-  // Configure Android notification channel
-  if (Platform.OS === 'android') {
-    await Notifications.setNotificationChannelAsync('default', {
-      name: 'default',
-      importance: Notifications.AndroidImportance.MAX,
-      vibrationPattern: [0, 250, 250, 250],
-      lightColor: '#FF231F7C',
+// Serializes read-modify-write access to the stored reminder state
+let reminderStateQueue: Promise<unknown> = Promise.resolve();
+
+function withReminderState<T>(update: (state: ReminderState) => Promise<T>): Promise<T> {
+  const run = reminderStateQueue.then(async () => {
+    const stored = await AsyncStorage.getItem(ITEM_REMINDERS_KEY);
+    const state: ReminderState = stored ? JSON.parse(stored) : { items: {}, digestIds: [] };
+    const result = await update(state);
+    await AsyncStorage.setItem(ITEM_REMINDERS_KEY, JSON.stringify(state));
+    return result;
+  });
+  reminderStateQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function loadPreferences(): Promise<NotificationPreferences> {
+  try {
+    return await getNotificationPreferences();
+  } catch (error) {
+    console.warn('Using default notification preferences:', error);
+    return getDefaultNotificationPreferences();
+  }
+}
+
+async function canScheduleNotifications(): Promise<boolean> {
+  const { status } = await Notifications.getPermissionsAsync();
+  return status === 'granted';
+}
+
+async function cancelNotifications(notificationIds: string[]): Promise<void> {
+  await Promise.all(
+    notificationIds.map((id) => Notifications.cancelScheduledNotificationAsync(id))
+  );
+}
+
+function scheduleAt(date: Date, title: string, body: string, data: Record<string, unknown>): Promise<string> {
+  return Notifications.scheduleNotificationAsync({
+    content: { title, body, data },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date,
+      channelId: 'default',
+    },
+  });
+}
+
+function describeDaysLeft(days: number): string {
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+}
+
+/**
+ * Days before expiry an item is reminded about: its lead time and the day itself
+ */
+function getReminderDays(prefs: NotificationPreferences, category: string | null): number[] {
+  const leadDays = getLeadDays(prefs, category);
+  return leadDays > 0 ? [leadDays, 0] : [0];
+}
+
+/**
+ * Schedules the per-item reminders of one item, skipping times already past
+ */
+async function scheduleItemNotifications(
+  itemId: string,
+  entry: ItemReminderEntry,
+  prefs: NotificationPreferences
+): Promise<string[]> {
+  const name = entry.productName || 'An item';
+  const notificationIds: string[] = [];
+
+  for (const daysBefore of getReminderDays(prefs, entry.category)) {
+    const date = getZonedTime(entry.expiryDate, daysBefore, getDeliveryHour(prefs), prefs.timezone);
+    if (date.getTime() <= Date.now()) continue;
+
+    notificationIds.push(
+      await scheduleAt(date, 'Expiring soon', `${name} expires ${describeDaysLeft(daysBefore)}`, {
+        inventoryId: itemId,
+        expiryDate: entry.expiryDate,
+      })
+    );
+  }
+
+  return notificationIds;
+}
+
+/**
+ * Replaces the scheduled morning digests with one per upcoming reminder day,
+ * listing every item due for a reminder that day
+ */
+async function rebuildDigests(state: ReminderState, prefs: NotificationPreferences): Promise<void> {
+  await cancelNotifications(state.digestIds);
+  state.digestIds = [];
+
+  if (prefs.delivery_mode !== 'digest') return;
+
+  const itemsByDay = new Map<string, { name: string; daysLeft: number }[]>();
+  for (const entry of Object.values(state.items)) {
+    for (const daysBefore of getReminderDays(prefs, entry.category)) {
+      const [year, month, day] = entry.expiryDate.split('-').map(Number);
+      const reminderDay = toISODate(new Date(year, month - 1, day - daysBefore));
+      itemsByDay.set(reminderDay, [
+        ...(itemsByDay.get(reminderDay) || []),
+        { name: entry.productName || 'Unknown item', daysLeft: daysBefore },
+      ]);
+    }
+  }
+
+  const deliveryHour = getDeliveryHour(prefs);
+  const upcomingDays = [...itemsByDay.keys()]
+    .sort()
+    .map((day) => ({ day, date: getZonedTime(day, 0, deliveryHour, prefs.timezone) }))
+    .filter(({ date }) => date.getTime() > Date.now())
+    .slice(0, MAX_DIGESTS);
+
+  for (const { day, date } of upcomingDays) {
+    const items = itemsByDay.get(day) || [];
+    const title = items.length === 1 ? '1 item expiring soon' : `${items.length} items expiring soon`;
+    const body = items
+      .sort((a, b) => a.daysLeft - b.daysLeft)
+      .map((item) => `${item.name} (${describeDaysLeft(item.daysLeft)})`)
+      .join(', ');
+    state.digestIds.push(await scheduleAt(date, title, body, { digestDate: day }));
+  }
+}
+
+/**
+ * Schedule, reschedule or cancel the local reminders of an inventory item
+ * Active items with an expiry date are reminded their category's lead time
+ * before expiry and on the expiry day (the opened-by deadline if earlier),
+ * as one notification per item or as part of the morning digest depending
+ * on the user's preferences. Anything
+ * else is cancelled. Errors are logged, never thrown, so saving an item
+ * never fails because of reminders.
+ */
+export async function syncItemReminders(item: ReminderItem): Promise<void> {
+  try {
+    const prefs = await loadPreferences();
+    const allowed = await canScheduleNotifications();
+
+    await withReminderState(async (state) => {
+      // Remembered so scheduleMissedReminders catches up once allowed
+      if (!allowed) {
+        state.allowed = false;
+      }
+
+      const existing = state.items[item.id];
+      const expiryDate = getEffectiveExpiry(item).date;
+      const isActive = item.status === 'active' && !!expiryDate;
+
+      if (
+        isActive &&
+        existing?.expiryDate === expiryDate &&
+        existing.productName === item.product_name &&
+        existing.category === item.category
+      ) {
+        return;
+      }
+
+      if (existing) {
+        await cancelNotifications(existing.notificationIds);
+        delete state.items[item.id];
+      }
+
+      if (isActive && expiryDate) {
+        const entry: ItemReminderEntry = {
+          productName: item.product_name,
+          category: item.category,
+          expiryDate,
+          notificationIds: [],
+        };
+        if (prefs.delivery_mode === 'per_item' && allowed) {
+          entry.notificationIds = await scheduleItemNotifications(item.id, entry, prefs);
+        }
+        state.items[item.id] = entry;
+      }
+
+      if (prefs.delivery_mode === 'digest' && allowed) {
+        await rebuildDigests(state, prefs);
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error scheduling local reminders:', error);
+  }
+}
+
+/**
+ * Cancel the local reminders of an inventory item (e.g. when it is deleted)
+ */
+export async function cancelItemReminders(itemId: string): Promise<void> {
+  try {
+    const prefs = await loadPreferences();
+
+    await withReminderState(async (state) => {
+      const existing = state.items[itemId];
+      if (!existing) return;
+
+      await cancelNotifications(existing.notificationIds);
+      delete state.items[itemId];
+
+      if (prefs.delivery_mode === 'digest') {
+        await rebuildDigests(state, prefs);
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error cancelling local reminders:', error);
+  }
+}
+
+/**
+ * Reschedule every local reminder, e.g. after the notification preferences
+ * changed (lead times, quiet hours, time zone or delivery mode)
+ */
+export async function rescheduleAllReminders(): Promise<void> {
+  try {
+    const prefs = await loadPreferences();
+    const allowed = await canScheduleNotifications();
+
+    await withReminderState(async (state) => {
+      for (const [itemId, entry] of Object.entries(state.items)) {
+        await cancelNotifications(entry.notificationIds);
+        entry.notificationIds = allowed && prefs.delivery_mode === 'per_item'
+          ? await scheduleItemNotifications(itemId, entry, prefs)
+          : [];
+      }
+
+      if (allowed) {
+        await rebuildDigests(state, prefs);
+      } else {
+        await cancelNotifications(state.digestIds);
+        state.digestIds = [];
+      }
+      state.allowed = allowed;
     });
+  } catch (error) {
+    console.error('❌ Error rescheduling local reminders:', error);
+  }
+}
+
+/**
+ * Schedule the reminders of items saved while notifications were not
+ * allowed, once they are. Run on app start and whenever the app returns to
+ * the foreground: permission can be granted in the system settings at any
+ * time.
+ */
+export async function scheduleMissedReminders(): Promise<void> {
+  try {
+    if (!(await canScheduleNotifications())) return;
+
+    const stored = await AsyncStorage.getItem(ITEM_REMINDERS_KEY);
+    const state: ReminderState | null = stored ? JSON.parse(stored) : null;
+    if (!state || state.allowed) return;
+
+    await rescheduleAllReminders();
+  } catch (error) {
+    console.error('❌ Error scheduling missed reminders:', error);
   }
 }
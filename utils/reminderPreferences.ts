@@ -0,0 +1,113 @@
+import { NotificationPreferencesRow } from '../types/supabase';
+
+/**
+ * The editable part of a user's notification preferences
+ */
+export type NotificationPreferences = Omit<NotificationPreferencesRow, 'user_id' | 'created_at' | 'updated_at'>;
+
+/**
+ * IANA time zone of the device, 'UTC' if it cannot be determined
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Preferences used until the user saves their own
+ * (same defaults as the notification_preferences table, in the device's zone)
+ */
+export function getDefaultNotificationPreferences(): NotificationPreferences {
+  return {
+    default_lead_days: 3,
+    category_lead_days: {},
+    delivery_mode: 'per_item',
+    reminder_hour: 9,
+    quiet_start_hour: null,
+    quiet_end_hour: null,
+    timezone: getDeviceTimeZone(),
+  };
+}
+
+/**
+ * Returns true if `timeZone` is a time zone name the device understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Days before expiry to remind about an item in `category`
+ */
+export function getLeadDays(prefs: NotificationPreferences, category: string | null): number {
+  const categoryDays = category ? prefs.category_lead_days[category] : undefined;
+  return typeof categoryDays === 'number' ? categoryDays : prefs.default_lead_days;
+}
+
+/**
+ * Returns true if `hour` (0-23) falls inside the quiet hours
+ * Quiet hours run from start up to (not including) end and may wrap midnight.
+ */
+export function isQuietHour(prefs: NotificationPreferences, hour: number): boolean {
+  const { quiet_start_hour: start, quiet_end_hour: end } = prefs;
+  if (start === null || end === null || start === end) return false;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Hour reminders are actually delivered: the preferred reminder hour, moved
+ * to the end of the quiet hours if it falls inside them
+ */
+export function getDeliveryHour(prefs: NotificationPreferences): number {
+  return isQuietHour(prefs, prefs.reminder_hour) && prefs.quiet_end_hour !== null
+    ? prefs.quiet_end_hour
+    : prefs.reminder_hour;
+}
+
+/**
+ * Offset (ms) of `timeZone` from UTC at the given instant
+ */
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUTC - instant.getTime();
+}
+
+/**
+ * Instant at which it is `hour`:00 on the given day in `timeZone`
+ *
+ * @param isoDate - Day as YYYY-MM-DD
+ * @param daysBefore - Days to subtract from `isoDate`
+ */
+export function getZonedTime(isoDate: string, daysBefore: number, hour: number, timeZone: string): Date {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day - daysBefore, hour);
+
+  if (!isValidTimeZone(timeZone)) {
+    return new Date(year, month - 1, day - daysBefore, hour);
+  }
+
+  // Correct twice so the result is right across DST changes
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  instant = wallClock - getTimeZoneOffset(new Date(instant), timeZone);
+  return new Date(instant);
+}
@@ -0,0 +1,127 @@
+import { ExpiryDateType, InventoryRow, StorageKind } from '../types/supabase';
+import { DateLabel } from './expiryDate';
+
+/**
+ * Formats a Date as an ISO date string (YYYY-MM-DD) in local time
+ */
+export function toISODate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Returns the ISO date `days` days after `from`
+ */
+export function addDays(from: Date, days: number): string {
+  const date = new Date(from);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  return toISODate(date);
+}
+
+export interface ExpiryAfterMoveInput {
+  currentExpiry: string | null; // ISO date
+  fromKind: StorageKind | null; // null if the item had no location
+  toKind: StorageKind;
+  shelfLifeDays: number | null; // Rule for the target kind, null if none
+  today?: Date;
+}
+
+/**
+ * Computes an item's expiry date after moving it to another kind of storage
+ *
+ * - Freezing stops the clock: moving into the freezer gives a fresh
+ *   freezer shelf life, even past the printed date
+ * - Thawing restarts it: moving out of the freezer gives the target's
+ *   shelf life from today
+ * - Any other move can only shorten the expiry (e.g. milk left in the pantry)
+ * - Custom locations and kinds without a rule keep the current expiry
+ *
+ * @returns string | null - New ISO expiry date
+ */
+export function computeExpiryAfterMove({
+  currentExpiry,
+  fromKind,
+  toKind,
+  shelfLifeDays,
+  today = new Date(),
+}: ExpiryAfterMoveInput): string | null {
+  if (shelfLifeDays === null || toKind === 'custom' || toKind === fromKind) {
+    return currentExpiry;
+  }
+
+  const ruleExpiry = addDays(today, shelfLifeDays);
+
+  if (toKind === 'freezer' || fromKind === 'freezer' || !currentExpiry) {
+    return ruleExpiry;
+  }
+
+  return ruleExpiry < currentExpiry ? ruleExpiry : currentExpiry;
+}
+
+/**
+ * Typical "after opening, use within N days" per category, for items whose
+ * product has no value of its own in product_master_list
+ */
+export const OPENED_SHELF_LIFE_DAYS: Record<string, number> = {
+  Meat: 2,
+  Seafood: 1,
+  Dairy: 5,
+  Produce: 3,
+  Bakery: 3,
+  Beverages: 5,
+  Snacks: 14,
+  General: 7,
+};
+
+/**
+ * Days an item keeps once opened: its own window, else its category's
+ */
+export function getOpenedShelfLifeDays(
+  item: Pick<InventoryRow, 'category' | 'opened_shelf_life_days'>
+): number {
+  return item.opened_shelf_life_days ?? OPENED_SHELF_LIFE_DAYS[item.category || 'General'] ?? OPENED_SHELF_LIFE_DAYS.General;
+}
+
+/**
+ * How each date type is written on packaging, for display
+ */
+export const EXPIRY_DATE_TYPE_LABELS: Record<ExpiryDateType, string> = {
+  best_before: 'Best before',
+  use_by: 'Use by',
+};
+
+/**
+ * Date type for a label read from the package; "EXP" dates are treated
+ * as use by, anything else (or no label) as best before
+ */
+export function getExpiryDateType(label: DateLabel | null | undefined): ExpiryDateType {
+  return label === 'use_by' || label === 'expiry' ? 'use_by' : 'best_before';
+}
+
+export interface EffectiveExpiry {
+  date: string | null; // ISO date, null if the item has no deadline
+  source: 'printed' | 'opened'; // Which date decided it
+}
+
+/**
+ * Deadline of an item: the earlier of its printed date and the day it was
+ * opened plus its "after opening" window. Items opened without a window
+ * keep their printed date.
+ */
+export function getEffectiveExpiry(
+  item: Pick<InventoryRow, 'expiry_date' | 'opened_at' | 'opened_shelf_life_days'>
+): EffectiveExpiry {
+  const printed = item.expiry_date ? item.expiry_date.slice(0, 10) : null;
+  if (!item.opened_at || item.opened_shelf_life_days == null) {
+    return { date: printed, source: 'printed' };
+  }
+
+  const [year, month, day] = item.opened_at.slice(0, 10).split('-').map(Number);
+  const opened = addDays(new Date(year, month - 1, day), item.opened_shelf_life_days);
+  return !printed || opened < printed
+    ? { date: opened, source: 'opened' }
+    : { date: printed, source: 'printed' };
+}